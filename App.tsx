@@ -1,32 +1,134 @@
-import React, { useState } from 'react';
-import { LayoutDashboard, Dumbbell, Utensils, Bot, User } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { LayoutDashboard, Dumbbell, Utensils, Bot, User, Loader2 } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import Workout from './components/Workout';
 import Nutrition from './components/Nutrition';
 import AICoach from './components/AICoach';
 import Onboarding from './components/Onboarding';
 import Profile from './components/Profile';
-import { ViewState, WorkoutSession, MealLog, UserProfile } from './types';
+import { AIWorkoutPlan, ViewState, WorkoutSession, MealLog, UserProfile, ChatMessage, ChatThread, CatalogExercise, WaterLog, TrainingProgram } from './types';
+import { PersistedState, loadAppState, saveUserProfile, saveWorkouts, saveMeals, saveChatMessages, saveChatThreads, saveCustomExercises, saveWaterLogs, savePrograms } from './services/storageService';
+import { recomputePersonalRecords } from './services/personalRecordService';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
   const [workouts, setWorkouts] = useState<WorkoutSession[]>([]);
   const [meals, setMeals] = useState<MealLog[]>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [customExercises, setCustomExercises] = useState<CatalogExercise[]>([]);
+  const [waterLogs, setWaterLogs] = useState<WaterLog[]>([]);
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  // A plan handed over from the coach, opened by the workout logger on arrival
+  const [pendingPlan, setPendingPlan] = useState<AIWorkoutPlan | null>(null);
   
-  // Initialize with null to simulate first-time login
+  // Null until onboarding completes (or a saved profile is loaded)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Hydrate from local storage on startup
+  useEffect(() => {
+    const hydrate = async () => {
+      try {
+        const saved = await loadAppState();
+        setUserProfile(saved.userProfile);
+        setWorkouts(saved.workouts);
+        setMeals(saved.meals);
+        setChatMessages(saved.chatMessages);
+        setChatThreads(saved.chatThreads);
+        setCustomExercises(saved.customExercises);
+        setWaterLogs(saved.waterLogs);
+        setPrograms(saved.programs);
+      } catch (error) {
+        console.error("Failed to load saved data:", error);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    hydrate();
+  }, []);
+
+  // Write changes through once hydrated, so the initial empty state never overwrites saved data
+  useEffect(() => {
+    if (isHydrated) saveUserProfile(userProfile);
+  }, [isHydrated, userProfile]);
+
+  useEffect(() => {
+    if (isHydrated) saveWorkouts(workouts);
+  }, [isHydrated, workouts]);
+
+  useEffect(() => {
+    if (isHydrated) saveMeals(meals);
+  }, [isHydrated, meals]);
+
+  useEffect(() => {
+    if (isHydrated) saveChatMessages(chatMessages);
+  }, [isHydrated, chatMessages]);
+
+  useEffect(() => {
+    if (isHydrated) saveChatThreads(chatThreads);
+  }, [isHydrated, chatThreads]);
+
+  useEffect(() => {
+    if (isHydrated) saveCustomExercises(customExercises);
+  }, [isHydrated, customExercises]);
+
+  useEffect(() => {
+    if (isHydrated) saveWaterLogs(waterLogs);
+  }, [isHydrated, waterLogs]);
+
+  useEffect(() => {
+    if (isHydrated) savePrograms(programs);
+  }, [isHydrated, programs]);
+
+  const handleRecordWorkout = (workout: WorkoutSession) => {
+    setWorkouts(prev => [workout, ...prev]);
+  };
 
   const handleAddWorkout = (workout: WorkoutSession) => {
-    setWorkouts([workout, ...workouts]);
+    handleRecordWorkout(workout);
     setCurrentView('dashboard');
   };
 
+  const handleStartPlan = (plan: AIWorkoutPlan) => {
+    setPendingPlan(plan);
+    setCurrentView('workout');
+  };
+
+  // Records depend only on the logged sets and session dates, so goal and note
+  // edits skip the rescan of the whole history
   const handleUpdateWorkout = (updatedWorkout: WorkoutSession) => {
-    setWorkouts(workouts.map(w => w.id === updatedWorkout.id ? updatedWorkout : w));
+    setWorkouts(prev => {
+      const previous = prev.find(w => w.id === updatedWorkout.id);
+      const updated = prev.map(w => w.id === updatedWorkout.id ? updatedWorkout : w);
+      const setsChanged = !previous || previous.exercises !== updatedWorkout.exercises || previous.date !== updatedWorkout.date;
+      return setsChanged ? recomputePersonalRecords(updated) : updated;
+    });
+  };
+
+  const handleAddCustomExercise = (exercise: CatalogExercise) => {
+    setCustomExercises([...customExercises, exercise]);
   };
 
+  // Functional updates, since the diary can add several meals in one go
   const handleAddMeal = (meal: MealLog) => {
-    setMeals([meal, ...meals]);
+    setMeals(prev => [meal, ...prev]);
+  };
+
+  const handleUpdateMeal = (updatedMeal: MealLog) => {
+    setMeals(prev => prev.map(m => m.id === updatedMeal.id ? updatedMeal : m));
+  };
+
+  const handleDeleteMeal = (id: string) => {
+    setMeals(prev => prev.filter(m => m.id !== id));
+  };
+
+  const handleAddWater = (log: WaterLog) => {
+    setWaterLogs(prev => [log, ...prev]);
+  };
+
+  const handleDeleteWater = (id: string) => {
+    setWaterLogs(prev => prev.filter(w => w.id !== id));
   };
 
   const handleProfileComplete = (profile: UserProfile) => {
@@ -34,10 +136,29 @@ const App: React.FC = () => {
     setCurrentView('dashboard');
   };
 
-  const handleEditProfile = () => {
-    setUserProfile(null);
+  const handleUpdateProfile = (profile: UserProfile) => {
+    setUserProfile(profile);
   };
 
+  const handleImportData = (state: PersistedState) => {
+    setUserProfile(state.userProfile);
+    setWorkouts(state.workouts);
+    setMeals(state.meals);
+    setChatMessages(state.chatMessages);
+    setChatThreads(state.chatThreads);
+    setCustomExercises(state.customExercises);
+    setWaterLogs(state.waterLogs);
+    setPrograms(state.programs);
+  };
+
+  if (!isHydrated) {
+    return (
+      <div className="h-screen w-full bg-fusion-dark flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-fusion-primary animate-spin" />
+      </div>
+    );
+  }
+
   if (!userProfile) {
     return <Onboarding onComplete={handleProfileComplete} />;
   }
@@ -45,18 +166,18 @@ const App: React.FC = () => {
   const renderView = () => {
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard workouts={workouts} meals={meals} userProfile={userProfile} />;
+        return <Dashboard workouts={workouts} meals={meals} userProfile={userProfile} waterLogs={waterLogs} onAddWater={handleAddWater} onDeleteWater={handleDeleteWater} />;
       case 'workout':
-        return <Workout onAddWorkout={handleAddWorkout} onUpdateWorkout={handleUpdateWorkout} workouts={workouts} userProfile={userProfile} />;
+        return <Workout onAddWorkout={handleAddWorkout} onUpdateWorkout={handleUpdateWorkout} workouts={workouts} userProfile={userProfile} customExercises={customExercises} onAddCustomExercise={handleAddCustomExercise} initialPlan={pendingPlan} onPlanStarted={() => setPendingPlan(null)} programs={programs} onProgramsChange={setPrograms} />;
       case 'nutrition':
-        return <Nutrition onAddMeal={handleAddMeal} meals={meals} />;
+        return <Nutrition onAddMeal={handleAddMeal} onUpdateMeal={handleUpdateMeal} onDeleteMeal={handleDeleteMeal} meals={meals} userProfile={userProfile} />;
       case 'coach':
         // Pass detailed profile and workouts for personalized coaching
-        return <AICoach userProfile={userProfile} workouts={workouts} />;
+        return <AICoach userProfile={userProfile} workouts={workouts} meals={meals} waterLogs={waterLogs} messages={chatMessages} onMessagesChange={setChatMessages} threads={chatThreads} onThreadsChange={setChatThreads} customExercises={customExercises} onAddWorkout={handleRecordWorkout} onAddMeal={handleAddMeal} onUpdateProfile={handleUpdateProfile} onStartPlan={handleStartPlan} />;
       case 'profile':
-        return <Profile user={userProfile} workouts={workouts} onEdit={handleEditProfile} />;
+        return <Profile user={userProfile} workouts={workouts} meals={meals} chatMessages={chatMessages} chatThreads={chatThreads} customExercises={customExercises} waterLogs={waterLogs} programs={programs} onUpdateProfile={handleUpdateProfile} onImportData={handleImportData} />;
       default:
-        return <Dashboard workouts={workouts} meals={meals} userProfile={userProfile} />;
+        return <Dashboard workouts={workouts} meals={meals} userProfile={userProfile} waterLogs={waterLogs} onAddWater={handleAddWater} onDeleteWater={handleDeleteWater} />;
     }
   };
 
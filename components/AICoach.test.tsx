@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { ActivityLevel, ChatMessage, ChatThread, UserProfile } from '../types';
+import { getFitnessCoaching } from '../services/aiService';
+import AICoach from './AICoach';
+
+vi.mock('../services/aiService', () => ({
+  getFitnessCoaching: vi.fn(),
+  summarizeConversation: vi.fn(),
+  generateWorkoutPlan: vi.fn(),
+  linkPlanToCatalog: vi.fn(),
+}));
+
+const USER: UserProfile = {
+  name: 'Sam Lee', gender: 'Female', age: 30, weight: 65, height: 168, goal: 'Keep Fit',
+  activityLevel: ActivityLevel.MODERATE, weightHistory: [],
+};
+
+const THREAD: ChatThread = { id: 't1', title: 'Leg day', createdAt: 1, updatedAt: 2 };
+
+const INITIAL_MESSAGES: ChatMessage[] = [
+  { id: 'q', threadId: 't1', role: 'user', text: 'Plan my leg day', timestamp: 1 },
+  { id: 'a', threadId: 't1', role: 'model', text: 'Old answer', timestamp: 2 },
+];
+
+let savedMessages: ChatMessage[] = [];
+
+// Holds the conversation the way App does, so the test sees what would be saved
+const Harness: React.FC = () => {
+  const [messages, setMessages] = useState(INITIAL_MESSAGES);
+  const [threads, setThreads] = useState([THREAD]);
+  savedMessages = messages;
+  return (
+    <AICoach
+      userProfile={USER} workouts={[]} meals={[]} waterLogs={[]} customExercises={[]}
+      messages={messages} onMessagesChange={setMessages} threads={threads} onThreadsChange={setThreads}
+      onAddWorkout={vi.fn()} onAddMeal={vi.fn()} onUpdateProfile={vi.fn()} onStartPlan={vi.fn()}
+    />
+  );
+};
+
+// A reply that never produces text and rejects once stopped, like a provider still connecting
+const pendingReply = (_history: unknown, _context: unknown, { signal }: { signal?: AbortSignal } = {}) =>
+  new Promise<never>((_, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+
+describe('AICoach regenerate', () => {
+  beforeEach(() => {
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.mocked(getFitnessCoaching).mockReset();
+  });
+
+  it('keeps the previous reply when stopped before the first token', async () => {
+    vi.mocked(getFitnessCoaching).mockImplementation(pendingReply);
+    render(<Harness />);
+
+    fireEvent.click(screen.getByText('Regenerate'));
+    expect(screen.queryByText('Old answer')).toBeNull();
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Stop generating'));
+    });
+
+    expect(screen.getByText('Old answer')).toBeDefined();
+    expect(savedMessages.map(m => m.id)).toEqual(['q', 'a']);
+  });
+
+  it('keeps the previous reply when the request fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getFitnessCoaching).mockRejectedValue(new Error('Network down'));
+    render(<Harness />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Regenerate'));
+    });
+
+    expect(screen.getByText('Old answer')).toBeDefined();
+    expect(savedMessages.map(m => m.text)).toEqual(['Plan my leg day', 'Old answer']);
+  });
+
+  it('swaps in the new reply once it arrives', async () => {
+    vi.mocked(getFitnessCoaching).mockResolvedValue({ text: 'New answer', toolCalls: [] });
+    render(<Harness />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Regenerate'));
+    });
+
+    expect(screen.queryByText('Old answer')).toBeNull();
+    expect(screen.getByText('New answer')).toBeDefined();
+    expect(savedMessages.map(m => m.text)).toEqual(['Plan my leg day', 'New answer']);
+  });
+});
@@ -1,141 +1,370 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
-import { ChatMessage, UserProfile, WorkoutSession } from '../types';
-import { getFitnessCoaching } from '../services/geminiService';
+import { Send, Bot, Sparkles, Square, RotateCcw, MessagesSquare, Plus } from 'lucide-react';
+import { AIWorkoutPlan, CatalogExercise, ChatMessage, ChatThread, CoachAction, MealLog, UserProfile, WaterLog, WorkoutSession } from '../types';
+import { generateWorkoutPlan, getFitnessCoaching, linkPlanToCatalog, summarizeConversation } from '../services/aiService';
+import { actionToMeal, actionToWorkout, createCoachActions } from '../services/coachToolService';
+import { getFullCatalog } from '../services/exerciseCatalog';
+import { recordWeight } from '../services/weightService';
+import { buildCoachContext } from '../services/contextService';
+import {
+  autoTitle, createThread, messagesToSummarize, sortThreads, threadMessages, unsummarizedMessages,
+} from '../services/chatService';
+import ChatThreadList from './ChatThreadList';
+import Markdown from './Markdown';
+import CoachActionCard from './CoachActionCard';
 
 interface AICoachProps {
   userProfile: UserProfile;
   workouts: WorkoutSession[];
+  meals: MealLog[];
+  waterLogs: WaterLog[];
+  messages: ChatMessage[];
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  threads: ChatThread[];
+  onThreadsChange: React.Dispatch<React.SetStateAction<ChatThread[]>>;
+  customExercises: CatalogExercise[];
+  // Targets for actions Fuse proposes and the user approves
+  onAddWorkout: (workout: WorkoutSession) => void;
+  onAddMeal: (meal: MealLog) => void;
+  onUpdateProfile: (profile: UserProfile) => void;
+  onStartPlan: (plan: AIWorkoutPlan) => void;
 }
 
-const AICoach: React.FC<AICoachProps> = ({ userProfile, workouts }) => {
+const AICoach: React.FC<AICoachProps> = ({
+  userProfile, workouts, meals, waterLogs, messages, onMessagesChange: setMessages, threads, onThreadsChange: setThreads,
+  customExercises, onAddWorkout, onAddMeal, onUpdateProfile, onStartPlan,
+}) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      role: 'model',
-      text: `Hey ${userProfile.name.split(' ')[0]}! I'm Fuse, your AI performance coach. I've analyzed your profile and recent activity. Ready to level up? Ask me for a workout plan, nutrition advice, or just some motivation!`,
-      timestamp: Date.now(),
-    }
-  ]);
+  // Resume the most recently active thread; null is a new chat that's saved on the first message
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(() => sortThreads(threads)[0]?.id ?? null);
+  const [showThreads, setShowThreads] = useState(false);
+  // The reply being streamed. It's only added to the saved conversation once
+  // complete (or stopped), so partial text isn't written to storage on every token.
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  // The reply being regenerated. It stays saved, only hidden, until a replacement
+  // arrives, so stopping or a failed request brings it back.
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Threads deleted in this session, so a reply stopped by the deletion isn't saved back into them
+  const deletedThreadIdsRef = useRef(new Set<string>());
+  const [runningActionId, setRunningActionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null;
+  const conversation = activeThreadId ? threadMessages(messages, activeThreadId) : [];
+  const visibleConversation = replacingId ? conversation.filter(m => m.id !== replacingId) : conversation;
+
+  // Cancel an in-flight reply when leaving the coach
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
-
-  // Construct a rich context string for the AI
-  const userContext = useMemo(() => {
-    const recentWorkouts = workouts.slice(0, 5).map(w => 
-      `- ${w.name} (${new Date(w.date).toLocaleDateString()}): ${w.durationMinutes} min, ${w.caloriesBurned} kcal`
-    ).join('\n');
-
-    return `
-      User Name: ${userProfile.name}
-      Age: ${userProfile.age}
-      Gender: ${userProfile.gender}
-      Height: ${userProfile.height}cm
-      Weight: ${userProfile.weight}kg
-      Primary Goal: ${userProfile.goal}
-      Activity Level: ${userProfile.activityLevel}
-      
-      Recent Workouts (Last 5):
-      ${recentWorkouts || "No recent workouts recorded."}
-    `.trim();
-  }, [userProfile, workouts]);
-
-  const handleSend = async () => {
-    if (!input.trim()) return;
+  }, [messages, streamingText, activeThreadId]);
+
+  // Summary of the user's data sent with every message, trimmed to a token budget
+  const userContext = useMemo(
+    () => buildCoachContext({ user: userProfile, workouts, meals, waterLogs }),
+    [userProfile, workouts, meals, waterLogs]
+  );
+
+  const updateThread = (id: string, changes: Partial<ChatThread>) => {
+    setThreads(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  // Streams a reply to the thread's conversation so far and appends it when done,
+  // in place of `replacesId` if given. Long threads are summarized first so only
+  // recent messages are sent in full.
+  const streamReply = async (thread: ChatThread, history: ChatMessage[], replacesId?: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReplacingId(replacesId ?? null);
+    setIsLoading(true);
+    setStreamingText('');
+    let text = '';
+    let actions: CoachAction[] = [];
+
+    try {
+      const toSummarize = messagesToSummarize(thread, history);
+      if (toSummarize.length > 0) {
+        const summary = await summarizeConversation(thread.summary, toSummarize);
+        if (summary) {
+          thread = { ...thread, summary, summarizedThrough: toSummarize[toSummarize.length - 1].timestamp };
+          updateThread(thread.id, { summary: thread.summary, summarizedThrough: thread.summarizedThrough });
+        }
+      }
+      controller.signal.throwIfAborted();
+
+      const reply = await getFitnessCoaching(unsummarizedMessages(thread, history), userContext, {
+        summary: thread.summary,
+        signal: controller.signal,
+        onText: (partial) => {
+          text = partial;
+          setStreamingText(partial);
+        },
+      });
+      text = reply.text;
+      actions = createCoachActions(reply.toolCalls);
+    } catch (error) {
+      // Stopped by the user: keep what arrived so far
+      if (!controller.signal.aborted) console.error("Chat error", error);
+    } finally {
+      if ((text.trim() || actions.length > 0) && !deletedThreadIdsRef.current.has(thread.id)) {
+        const botMsg: ChatMessage = {
+          id: (Date.now() + 1).toString(),
+          threadId: thread.id,
+          role: 'model',
+          text,
+          timestamp: Date.now(),
+          ...(actions.length > 0 ? { actions } : {}),
+        };
+        setMessages(prev => [...prev.filter(m => m.id !== replacesId), botMsg]);
+        updateThread(thread.id, { updatedAt: botMsg.timestamp });
+      }
+      abortRef.current = null;
+      setReplacingId(null);
+      setStreamingText(null);
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!input.trim() || isLoading) return;
+
+    const now = Date.now();
+    let thread = activeThread;
+    if (!thread) {
+      thread = autoTitle(createThread(), input);
+      const created = thread;
+      setThreads(prev => [...prev, created]);
+      setActiveThreadId(created.id);
+    } else {
+      thread = { ...autoTitle(thread, input), updatedAt: now };
+      updateThread(thread.id, { title: thread.title, updatedAt: now });
+    }
 
     const userMsg: ChatMessage = {
-      id: Date.now().toString(),
+      id: now.toString(),
+      threadId: thread.id,
       role: 'user',
       text: input,
-      timestamp: Date.now(),
+      timestamp: now,
     };
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
-    setIsLoading(true);
+    streamReply(thread, [...conversation, userMsg]);
+  };
 
+  const handleStop = () => abortRef.current?.abort();
+
+  // Replaces the last reply with a fresh one for the same question. Not offered once
+  // one of its actions was approved, since the new reply could propose it again.
+  const lastMessage = conversation[conversation.length - 1];
+  const canRegenerate = !isLoading && !!activeThread && lastMessage?.role === 'model'
+    && conversation[conversation.length - 2]?.role === 'user'
+    && !lastMessage.actions?.some(a => a.status === 'approved');
+
+  const handleRegenerate = () => {
+    if (!canRegenerate || !activeThread) return;
+    streamReply(activeThread, conversation.slice(0, -1), lastMessage.id);
+  };
+
+  const setActionStatus = (messageId: string, actionId: string, status: CoachAction['status']) => {
+    setMessages(prev => prev.map(m => m.id !== messageId ? m : {
+      ...m,
+      actions: m.actions?.map(a => a.id === actionId ? { ...a, status } : a),
+    }));
+  };
+
+  // Nothing Fuse proposes is saved until the user approves it here
+  const handleApproveAction = async (messageId: string, action: CoachAction) => {
+    setRunningActionId(action.id);
     try {
-      const responseText = await getFitnessCoaching([...messages, userMsg], userContext);
-      
-      const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now(),
-      };
-      setMessages(prev => [...prev, botMsg]);
-    } catch (error) {
-      console.error("Chat error", error);
+      switch (action.type) {
+        case 'logWorkout':
+          onAddWorkout(actionToWorkout(action, userProfile, workouts, getFullCatalog(customExercises)));
+          break;
+        case 'logMeal':
+        case 'mealSuggestion':
+          onAddMeal(actionToMeal(action));
+          break;
+        case 'logWeight':
+          onUpdateProfile(recordWeight(userProfile, action.weight));
+          break;
+        case 'startWorkout': {
+          const plan = await generateWorkoutPlan(userProfile, workouts, customExercises, action.focus);
+          setActionStatus(messageId, action.id, 'approved');
+          onStartPlan(plan);
+          return;
+        }
+        case 'workoutPlan':
+          setActionStatus(messageId, action.id, 'approved');
+          onStartPlan(linkPlanToCatalog(action.plan, getFullCatalog(customExercises)));
+          return;
+      }
+      setActionStatus(messageId, action.id, 'approved');
     } finally {
-      setIsLoading(false);
+      setRunningActionId(null);
     }
   };
 
+  const openThread = (id: string | null) => {
+    abortRef.current?.abort();
+    setActiveThreadId(id);
+    setShowThreads(false);
+  };
+
+  const handleDeleteThread = (id: string) => {
+    deletedThreadIdsRef.current.add(id);
+    if (id === activeThreadId) openThread(null);
+    setThreads(prev => prev.filter(t => t.id !== id));
+    setMessages(prev => prev.filter(m => m.threadId !== id));
+  };
+
   return (
     <div className="flex flex-col h-[calc(100vh-100px)] animate-fade-in">
       <header className="mb-4 flex items-center space-x-3">
         <div className="p-2 bg-gradient-to-tr from-fusion-primary to-green-400 rounded-xl shadow-lg shadow-lime-900/20">
           <Bot className="w-6 h-6 text-slate-900" />
         </div>
-        <div>
+        <div className="flex-1 min-w-0">
           <h1 className="text-xl font-bold text-white">Coach Fuse</h1>
-          <p className="text-fusion-muted text-xs flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span> Online
+          <p className="text-fusion-muted text-xs flex items-center gap-1 truncate">
+            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse flex-shrink-0"></span>
+            {showThreads ? 'Your chats' : activeThread?.title ?? 'New chat'}
           </p>
         </div>
+        {!showThreads && (
+          <button
+            onClick={() => openThread(null)}
+            title="New chat"
+            className="p-2 rounded-xl bg-slate-800 border border-slate-700 text-slate-400 hover:text-white transition"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        )}
+        <button
+          onClick={() => setShowThreads(!showThreads)}
+          title="All chats"
+          className={`p-2 rounded-xl border transition ${showThreads ? 'bg-fusion-primary text-fusion-dark border-transparent' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+        >
+          <MessagesSquare className="w-5 h-5" />
+        </button>
       </header>
 
-      <div className="flex-1 overflow-y-auto space-y-4 pr-2 scrollbar-hide pb-4">
-        {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[85%] p-4 rounded-2xl shadow-sm ${
-              msg.role === 'user' 
-                ? 'bg-fusion-primary text-fusion-dark rounded-tr-sm' 
-                : 'bg-fusion-card text-slate-200 border border-slate-700 rounded-tl-sm'
-            }`}>
-              <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
-            </div>
+      {showThreads ? (
+        <ChatThreadList
+          threads={threads}
+          messages={messages}
+          activeThreadId={activeThreadId}
+          onSelect={openThread}
+          onNew={() => openThread(null)}
+          onRename={(id, title) => updateThread(id, { title })}
+          onDelete={handleDeleteThread}
+        />
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto space-y-4 pr-2 scrollbar-hide pb-4">
+            {conversation.length === 0 && !isLoading && (
+              <div className="flex justify-start">
+                <div className="max-w-[85%] p-4 rounded-2xl shadow-sm bg-fusion-card text-slate-200 border border-slate-700 rounded-tl-sm">
+                  <p className="text-sm leading-relaxed">
+                    Hey {userProfile.name.split(' ')[0]}! I'm Fuse, your AI performance coach. I've analyzed your profile and recent activity. Ready to level up? Ask me for a workout plan, nutrition advice, or just some motivation!
+                  </p>
+                </div>
+              </div>
+            )}
+            {activeThread?.summary && (
+              <p className="text-[10px] text-slate-500 text-center">
+                Earlier messages are summarized for Fuse to keep this chat within the model's limits.
+              </p>
+            )}
+            {visibleConversation.map((msg) => (
+              <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] p-4 rounded-2xl shadow-sm ${
+                  msg.role === 'user'
+                    ? 'bg-fusion-primary text-fusion-dark rounded-tr-sm'
+                    : 'bg-fusion-card text-slate-200 border border-slate-700 rounded-tl-sm'
+                }`}>
+                  {msg.text && (msg.role === 'model'
+                    ? <Markdown text={msg.text} />
+                    : <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>)}
+                  {msg.actions?.map(action => (
+                    <CoachActionCard
+                      key={action.id}
+                      action={action}
+                      isRunning={runningActionId === action.id}
+                      onApprove={() => handleApproveAction(msg.id, action)}
+                      onDismiss={() => setActionStatus(msg.id, action.id, 'dismissed')}
+                    />
+                  ))}
+                  {canRegenerate && msg.id === lastMessage.id && (
+                    <button
+                      onClick={handleRegenerate}
+                      className="mt-2 text-[10px] text-slate-400 hover:text-white flex items-center gap-1"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Regenerate
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {streamingText && (
+              <div className="flex justify-start">
+                <div className="max-w-[85%] p-4 rounded-2xl shadow-sm bg-fusion-card text-slate-200 border border-slate-700 rounded-tl-sm">
+                  <Markdown text={streamingText} />
+                  <span className="inline-block w-1.5 h-3.5 mt-1 bg-fusion-primary animate-pulse"></span>
+                </div>
+              </div>
+            )}
+            {isLoading && !streamingText && (
+              <div className="flex justify-start">
+                <div className="bg-fusion-card p-4 rounded-2xl rounded-tl-sm border border-slate-700 flex items-center space-x-2">
+                  <Sparkles className="w-4 h-4 text-fusion-primary animate-spin" />
+                  <span className="text-xs text-slate-400">Fuse is thinking...</span>
+                </div>
+              </div>
+            )}
+            <div ref={messagesEndRef} />
           </div>
-        ))}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-fusion-card p-4 rounded-2xl rounded-tl-sm border border-slate-700 flex items-center space-x-2">
-              <Sparkles className="w-4 h-4 text-fusion-primary animate-spin" />
-              <span className="text-xs text-slate-400">Fuse is thinking...</span>
-            </div>
+
+          <div className="mt-4 relative">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Ask Fuse anything..."
+              className="w-full bg-slate-800 text-white pl-4 pr-12 py-4 rounded-xl focus:outline-none focus:ring-2 focus:ring-fusion-primary/50 border border-slate-700 placeholder-slate-500"
+            />
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                title="Stop generating"
+                className="absolute right-2 top-2 bottom-2 p-2 bg-slate-700 rounded-lg text-white hover:bg-slate-600 transition"
+              >
+                <Square className="w-5 h-5 fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="absolute right-2 top-2 bottom-2 p-2 bg-fusion-primary rounded-lg text-fusion-dark disabled:opacity-50 disabled:cursor-not-allowed hover:bg-lime-400 transition"
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            )}
           </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
-
-      <div className="mt-4 relative">
-        <input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-          placeholder="Ask Fuse anything..."
-          className="w-full bg-slate-800 text-white pl-4 pr-12 py-4 rounded-xl focus:outline-none focus:ring-2 focus:ring-fusion-primary/50 border border-slate-700 placeholder-slate-500"
-        />
-        <button 
-          onClick={handleSend}
-          disabled={!input.trim() || isLoading}
-          className="absolute right-2 top-2 bottom-2 p-2 bg-fusion-primary rounded-lg text-fusion-dark disabled:opacity-50 disabled:cursor-not-allowed hover:bg-lime-400 transition"
-        >
-          <Send className="w-5 h-5" />
-        </button>
-      </div>
+        </>
+      )}
     </div>
   );
 };
 
-export default AICoach;
\ No newline at end of file
+export default AICoach;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Cpu, Check, Loader2, PlugZap } from 'lucide-react';
+import { AI_PROVIDERS, AIProviderId, AISettings as AISettingsValues, createProvider, loadAISettings, saveAISettings } from '../services/aiProvider';
+
+type TestState = { status: 'idle' | 'testing' } | { status: 'ok' | 'error'; message: string };
+
+const AISettings: React.FC = () => {
+  const [settings, setSettings] = useState<AISettingsValues>(loadAISettings);
+  const [saved, setSaved] = useState(false);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const providerInfo = AI_PROVIDERS[settings.provider];
+
+  const update = (changes: Partial<AISettingsValues>) => {
+    setSettings({ ...settings, ...changes });
+    setSaved(false);
+    setTest({ status: 'idle' });
+  };
+
+  const handleProviderChange = (provider: AIProviderId) => {
+    // Model names aren't portable between providers, so switch to the new default
+    update({ provider, model: AI_PROVIDERS[provider].defaultModel });
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    setSaved(true);
+  };
+
+  const handleTest = async () => {
+    setTest({ status: 'testing' });
+    try {
+      const reply = await createProvider(settings).generateText({ prompt: "Reply with the single word OK." });
+      setTest({ status: 'ok', message: reply.trim().slice(0, 80) || 'Connected (empty reply)' });
+    } catch (error) {
+      setTest({ status: 'error', message: error instanceof Error ? error.message : 'Connection failed' });
+    }
+  };
+
+  const inputClass = "w-full bg-slate-900 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none";
+  const labelClass = "text-[10px] text-slate-500 uppercase font-bold";
+
+  return (
+    <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg space-y-4">
+      <div className="flex items-center space-x-2">
+        <div className="p-2 bg-fusion-accent/10 rounded-lg">
+          <Cpu className="w-5 h-5 text-fusion-accent" />
+        </div>
+        <h3 className="text-lg font-bold text-white">AI Model</h3>
+      </div>
+
+      <div className="space-y-1">
+        <label className={labelClass}>Provider</label>
+        <select
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+          className={inputClass}
+        >
+          {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+            <option key={id} value={id}>{AI_PROVIDERS[id].name}</option>
+          ))}
+        </select>
+        <p className="text-[10px] text-slate-500">{providerInfo.description}</p>
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <div className="space-y-1">
+          <label className={labelClass}>Model</label>
+          <input
+            type="text"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            placeholder={providerInfo.defaultModel}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {settings.provider === 'openai-compatible' && (
+        <>
+          <div className="space-y-1">
+            <label className={labelClass}>Server URL</label>
+            <input
+              type="url"
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>API Key (optional)</label>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </>
+      )}
+
+      {test.status === 'ok' && <p className="text-xs text-fusion-primary">Connected: "{test.message}"</p>}
+      {test.status === 'error' && <p className="text-xs text-red-400">{test.message}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleTest}
+          disabled={test.status === 'testing'}
+          className="flex-1 py-2.5 rounded-xl bg-slate-800 border border-slate-700 text-white text-sm font-semibold hover:bg-slate-700 transition disabled:opacity-50 flex items-center justify-center gap-1.5"
+        >
+          {test.status === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+          Test
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-[2] py-2.5 rounded-xl bg-fusion-primary text-fusion-dark text-sm font-bold hover:bg-lime-400 transition flex items-center justify-center gap-1.5"
+        >
+          <Check className="w-4 h-4" />
+          {saved ? 'Saved' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AISettings;
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Camera, Loader2, Keyboard } from 'lucide-react';
+import { decodeBarcode, decodeBarcodeFromFile } from '../services/barcodeService';
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+// How often live camera frames are sampled
+const SCAN_INTERVAL_MS = 300;
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [isDecodingPhoto, setIsDecodingPhoto] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  // Read through a ref so a new callback from the parent doesn't restart the camera
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    let busy = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Camera access isn't available in this browser. Take a photo instead.");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        // Closed while the camera was starting: cleanup already ran, so release it here
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        if (cancelled) return;
+
+        timer = window.setInterval(async () => {
+          if (busy || !videoRef.current) return;
+          busy = true;
+          try {
+            const code = await decodeBarcode(videoRef.current);
+            if (code && !cancelled) {
+              cancelled = true;
+              onDetectedRef.current(code);
+            }
+          } finally {
+            busy = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error("Camera error:", error);
+        setCameraError("Couldn't open the camera. Check permissions, or take a photo instead.");
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsDecodingPhoto(true);
+    setPhotoError(null);
+    try {
+      const code = await decodeBarcodeFromFile(file);
+      if (code) {
+        onDetected(code);
+      } else {
+        setPhotoError("No barcode found. Try a closer, sharper photo with the lines horizontal.");
+      }
+    } catch (error) {
+      setPhotoError(error instanceof Error ? error.message : "Could not read this image.");
+    } finally {
+      setIsDecodingPhoto(false);
+    }
+  };
+
+  const handleManualSubmit = () => {
+    const code = manualCode.replace(/\D/g, '');
+    if (code.length >= 8) onDetected(code);
+  };
+
+  return (
+    <div className="space-y-3 animate-slide-up">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-semibold text-white">Scan Barcode</h4>
+        <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-full text-slate-400 hover:text-white transition">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {cameraError ? (
+        <p className="text-xs text-orange-400 bg-orange-500/10 p-3 rounded-xl">{cameraError}</p>
+      ) : (
+        <div className="relative rounded-xl overflow-hidden bg-black h-48">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          {/* Aiming guide */}
+          <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-20 border-2 border-fusion-primary/70 rounded-lg pointer-events-none"></div>
+        </div>
+      )}
+
+      <input type="file" accept="image/*" capture="environment" className="hidden" ref={fileInputRef} onChange={handlePhoto} />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isDecodingPhoto}
+        className="w-full py-2.5 rounded-xl bg-slate-700 text-white text-sm font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isDecodingPhoto ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+        Use a Photo
+      </button>
+      {photoError && <p className="text-xs text-orange-400">{photoError}</p>}
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Keyboard className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            inputMode="numeric"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleManualSubmit()}
+            placeholder="Or type the number"
+            className="w-full bg-slate-900 rounded-lg py-2.5 pl-9 pr-3 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+          />
+        </div>
+        <button
+          onClick={handleManualSubmit}
+          className="px-4 rounded-lg bg-fusion-primary text-fusion-dark text-sm font-bold hover:bg-lime-400 transition"
+        >
+          Look up
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Search, Plus, Edit2, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import { ChatMessage, ChatThread } from '../types';
+import { searchThreads, sortThreads } from '../services/chatService';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  messages: ChatMessage[];
+  activeThreadId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, messages, activeThreadId, onSelect, onNew, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [titleInput, setTitleInput] = useState('');
+
+  const visible = sortThreads(searchThreads(threads, messages, query));
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setTitleInput(thread.title);
+  };
+
+  const saveRename = () => {
+    if (renamingId && titleInput.trim()) onRename(renamingId, titleInput.trim());
+    setRenamingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (!window.confirm(`Delete "${thread.title}" and all its messages?`)) return;
+    onDelete(thread.id);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 animate-slide-up">
+      <div className="flex gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats..."
+            className="w-full bg-slate-800 rounded-xl py-2.5 pl-9 pr-3 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+          />
+        </div>
+        <button
+          onClick={onNew}
+          className="px-3 rounded-xl bg-fusion-primary text-fusion-dark font-bold text-sm hover:bg-lime-400 transition flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          New
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 scrollbar-hide pb-4">
+        {visible.map(thread => {
+          const count = messages.filter(m => m.threadId === thread.id).length;
+          const isActive = thread.id === activeThreadId;
+          return (
+            <div
+              key={thread.id}
+              className={`p-3 rounded-xl border transition ${isActive ? 'bg-slate-800 border-fusion-primary/40' : 'bg-fusion-card border-slate-800'}`}
+            >
+              {renamingId === thread.id ? (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={titleInput}
+                    autoFocus
+                    onChange={(e) => setTitleInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 bg-slate-900 rounded-lg p-2 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+                  />
+                  <button onClick={saveRename} className="p-1.5 text-fusion-primary"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setRenamingId(null)} className="p-1.5 text-slate-400"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button onClick={() => onSelect(thread.id)} className="flex-1 min-w-0 text-left flex items-center gap-3">
+                    <MessageSquare className={`w-4 h-4 flex-shrink-0 ${isActive ? 'text-fusion-primary' : 'text-slate-500'}`} />
+                    <div className="min-w-0">
+                      <p className="text-sm text-white font-medium truncate">{thread.title}</p>
+                      <p className="text-[10px] text-slate-500">
+                        {new Date(thread.updatedAt).toLocaleDateString()} • {count} message{count === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  </button>
+                  <button onClick={() => startRename(thread)} className="p-1.5 text-slate-500 hover:text-white transition">
+                    <Edit2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(thread)} className="p-1.5 text-slate-500 hover:text-red-400 transition">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {visible.length === 0 && (
+          <p className="text-xs text-fusion-muted text-center py-6">
+            {query.trim() ? `No chats match "${query}".` : 'No chats yet. Start one with Fuse.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Dumbbell, Utensils, Scale, Play, Check, X, Loader2, Sparkles } from 'lucide-react';
+import { CoachAction } from '../types';
+import { describeAction } from '../services/coachToolService';
+import { MEAL_TYPE_LABELS } from '../services/nutritionService';
+
+interface CoachActionCardProps {
+  action: CoachAction;
+  isRunning: boolean;
+  onApprove: () => void;
+  onDismiss: () => void;
+}
+
+const ACTION_ICONS = {
+  logWorkout: Dumbbell,
+  logMeal: Utensils,
+  logWeight: Scale,
+  startWorkout: Play,
+  workoutPlan: Dumbbell,
+  mealSuggestion: Utensils,
+};
+
+const APPROVE_LABELS: Record<CoachAction['type'], string> = {
+  logWorkout: 'Log workout',
+  logMeal: 'Log meal',
+  logWeight: 'Save weight',
+  startWorkout: 'Start',
+  workoutPlan: 'Start this workout',
+  mealSuggestion: 'Log this',
+};
+
+const STARTS_WORKOUT: CoachAction['type'][] = ['startWorkout', 'workoutPlan'];
+
+// Plans and meal ideas get a full card; record-keeping actions a one-line summary
+const ActionDetails: React.FC<{ action: CoachAction }> = ({ action }) => {
+  switch (action.type) {
+    case 'workoutPlan':
+      return (
+        <div>
+          <p className="text-sm font-bold text-white">{action.plan.workoutName}</p>
+          {action.plan.strategy && (
+            <p className="text-[11px] text-fusion-muted mt-0.5 flex items-start gap-1">
+              <Sparkles className="w-3 h-3 text-fusion-primary flex-shrink-0 mt-0.5" />
+              {action.plan.strategy}
+            </p>
+          )}
+          <ul className="mt-2 space-y-1">
+            {action.plan.exercises.map((ex, index) => (
+              <li key={index} className="flex justify-between text-xs">
+                <span className="text-slate-200">{ex.name}</span>
+                <span className="text-slate-400 font-mono">
+                  {ex.sets}x{ex.reps}{ex.weightSuggestion ? ` @ ${ex.weightSuggestion}kg` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+    case 'mealSuggestion':
+      return (
+        <div>
+          <p className="text-sm font-bold text-white">
+            {action.name}
+            {action.mealType && <span className="ml-2 text-[10px] font-normal text-fusion-muted">{MEAL_TYPE_LABELS[action.mealType]}</span>}
+          </p>
+          {action.description && <p className="text-[11px] text-fusion-muted mt-0.5">{action.description}</p>}
+          <div className="grid grid-cols-4 gap-1 mt-2 text-center">
+            {[
+              { label: 'kcal', value: action.macros.calories },
+              { label: 'Protein', value: `${action.macros.protein}g` },
+              { label: 'Carbs', value: `${action.macros.carbs}g` },
+              { label: 'Fat', value: `${action.macros.fat}g` },
+            ].map(item => (
+              <div key={item.label} className="bg-slate-800 rounded-lg py-1">
+                <p className="text-xs font-bold text-white">{item.value}</p>
+                <p className="text-[9px] text-slate-500 uppercase">{item.label}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    default: {
+      const Icon = ACTION_ICONS[action.type];
+      return (
+        <div className="flex items-start gap-2">
+          <Icon className="w-4 h-4 text-fusion-primary flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-slate-200 leading-relaxed">{describeAction(action)}</p>
+        </div>
+      );
+    }
+  }
+};
+
+const CoachActionCard: React.FC<CoachActionCardProps> = ({ action, isRunning, onApprove, onDismiss }) => (
+  <div className={`mt-3 p-3 rounded-xl border ${action.status === 'pending' ? 'bg-slate-900/60 border-fusion-primary/30' : 'bg-slate-900/30 border-slate-700'}`}>
+    <ActionDetails action={action} />
+    {action.status === 'pending' ? (
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onApprove}
+          disabled={isRunning}
+          className="flex-1 py-1.5 rounded-lg bg-fusion-primary text-fusion-dark text-xs font-bold hover:bg-lime-400 transition disabled:opacity-50 flex items-center justify-center gap-1"
+        >
+          {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+          {APPROVE_LABELS[action.type]}
+        </button>
+        <button
+          onClick={onDismiss}
+          disabled={isRunning}
+          className="px-3 py-1.5 rounded-lg bg-slate-800 text-slate-400 text-xs border border-slate-700 hover:text-white transition disabled:opacity-50 flex items-center gap-1"
+        >
+          <X className="w-3.5 h-3.5" />
+          Dismiss
+        </button>
+      </div>
+    ) : (
+      <p className={`mt-2 text-[10px] font-bold uppercase tracking-wide ${action.status === 'approved' ? 'text-fusion-primary' : 'text-slate-500'}`}>
+        {action.status === 'approved' ? (STARTS_WORKOUT.includes(action.type) ? 'Started' : 'Saved') : 'Dismissed'}
+      </p>
+    )}
+  </div>
+);
+
+export default CoachActionCard;
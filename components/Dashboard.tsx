@@ -1,103 +1,167 @@
-import React, { useState, useEffect } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Activity, Flame, Footprints, Timer, Share2, Bluetooth, RefreshCw, Sparkles, Heart } from 'lucide-react';
-import { WorkoutSession, MealLog, UserProfile, ActivityLevel } from '../types';
-import { generateDashboardInsight } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Activity, Flame, Footprints, Timer, Share2, Bluetooth, RefreshCw, Sparkles, Heart, AlertTriangle, ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { WorkoutSession, MealLog, UserProfile, WaterLog } from '../types';
+import { generateDashboardInsight } from '../services/aiService';
+import { WEARABLE_ADAPTERS, WearableConnectionState, getDefaultAdapter } from '../services/wearableService';
+import { todayKey, addDays, filterByDay, formatDayLabel } from '../services/dateService';
+import { getMacroTargets, sumMacros } from '../services/nutritionService';
+import { buildActivityTrend, TREND_RANGES, TREND_SERIES, TrendRange, TrendSeries } from '../services/trendService';
+import { calculateWaterGoal } from '../services/hydrationService';
+import MacroProgress from './MacroProgress';
+import HydrationCard from './HydrationCard';
 
 interface DashboardProps {
   workouts: WorkoutSession[];
   meals: MealLog[];
   userProfile: UserProfile;
+  waterLogs: WaterLog[];
+  onAddWater: (log: WaterLog) => void;
+  onDeleteWater: (id: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) => {
-  const [isScanning, setIsScanning] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
+const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile, waterLogs, onAddWater, onDeleteWater }) => {
+  const [selectedDay, setSelectedDay] = useState(todayKey);
+  const isToday = selectedDay === todayKey();
+  const [adapterId, setAdapterId] = useState(() => getDefaultAdapter().id);
+  const adapter = WEARABLE_ADAPTERS.find(a => a.id === adapterId) ?? getDefaultAdapter();
+  const [connectionState, setConnectionState] = useState<WearableConnectionState>(
+    () => adapter.isConnected() ? 'connected' : 'disconnected'
+  );
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [deviceSteps, setDeviceSteps] = useState(0);
+  const [stepsReported, setStepsReported] = useState(true);
   const [heartRate, setHeartRate] = useState(0);
+  const isConnected = connectionState === 'connected';
+  const isScanning = connectionState === 'connecting' || isSyncing;
   const [aiInsight, setAiInsight] = useState<string>("Analyzing your activity patterns...");
   const [isAiLoading, setIsAiLoading] = useState(true);
 
-  // --- Calorie Calculation Logic ---
-  // BMR Calculation (Mifflin-St Jeor)
-  // Men: 10W + 6.25H - 5A + 5
-  // Women: 10W + 6.25H - 5A - 161
-  const calculateTargets = () => {
-    let bmr = (10 * userProfile.weight) + (6.25 * userProfile.height) - (5 * userProfile.age);
-    bmr += userProfile.gender === 'Male' ? 5 : -161;
-
-    // Activity Multiplier
-    const multipliers: Record<ActivityLevel, number> = {
-      [ActivityLevel.SEDENTARY]: 1.2,
-      [ActivityLevel.LIGHT]: 1.375,
-      [ActivityLevel.MODERATE]: 1.55,
-      [ActivityLevel.VERY]: 1.725,
-    };
-    const tdee = bmr * multipliers[userProfile.activityLevel];
-
-    // Goal Adjustment
-    let dailyCalorieGoal = tdee;
-    if (userProfile.goal === 'Lose Weight') dailyCalorieGoal -= 500;
-    if (userProfile.goal === 'Build Muscle') dailyCalorieGoal += 300;
-
-    return {
-      calorieGoal: Math.round(dailyCalorieGoal),
-      stepGoal: 10000 // Default standard
-    };
-  };
-
-  const targets = calculateTargets();
+  // Calorie and macro targets come from the profile, with any manual overrides applied
+  const targets = { ...getMacroTargets(userProfile), stepGoal: 10000 }; // Default step standard
   
-  // Aggregates
-  const totalCaloriesBurned = workouts.reduce((acc, w) => acc + w.caloriesBurned, 0);
-  const totalCaloriesConsumed = meals.reduce((acc, m) => acc + m.macros.calories, 0);
-  const activeMinutes = workouts.reduce((acc, w) => acc + w.durationMinutes, 0);
-  const totalSteps = deviceSteps || 2450; // Fallback if no device
+  // Aggregates for the selected calendar day
+  const dayWorkouts = filterByDay(workouts, selectedDay, w => w.date);
+  const dayMeals = filterByDay(meals, selectedDay, m => m.timestamp);
+  const totalCaloriesBurned = dayWorkouts.reduce((acc, w) => acc + w.caloriesBurned, 0);
+  const consumedMacros = sumMacros(dayMeals);
+  const totalCaloriesConsumed = consumedMacros.calories;
+  const activeMinutes = dayWorkouts.reduce((acc, w) => acc + w.durationMinutes, 0);
+  const waterGoal = calculateWaterGoal(userProfile, activeMinutes);
+  // Steps come from the connected device and only cover the current day; null means no reading
+  const totalSteps = isToday && isConnected && stepsReported ? deviceSteps : null;
+
+  // Trends end on the selected day so browsing back shows the history leading up to it
+  const [trendRange, setTrendRange] = useState<TrendRange>('7d');
+  const [trendSeries, setTrendSeries] = useState<TrendSeries>('burned');
+  const trendData = useMemo(
+    () => buildActivityTrend(workouts, meals, waterLogs, trendRange, selectedDay),
+    [workouts, meals, waterLogs, trendRange, selectedDay]
+  );
+  const series = TREND_SERIES[trendSeries];
+  const hasTrendData = trendData.some(p => p[trendSeries] !== null && p[trendSeries] !== 0);
 
   useEffect(() => {
-    // Fetch AI Insight on mount
+    // Fetch AI Insight on mount. A response for a day the user has already moved
+    // away from is dropped, so it can't overwrite the newer day's insight.
+    let cancelled = false;
     const fetchInsight = async () => {
       try {
-        const insight = await generateDashboardInsight(userProfile, {
+        setIsAiLoading(true);
+        const insight = await generateDashboardInsight({ user: userProfile, workouts, meals, waterLogs }, {
           caloriesBurned: totalCaloriesBurned,
           caloriesConsumed: totalCaloriesConsumed,
           steps: totalSteps
-        });
-        setAiInsight(insight);
+        }, selectedDay);
+        if (!cancelled) setAiInsight(insight);
       } catch (e) {
-        setAiInsight("Focus on hitting your protein goals today!");
+        if (!cancelled) setAiInsight("Focus on hitting your protein goals today!");
       } finally {
-        setIsAiLoading(false);
+        if (!cancelled) setIsAiLoading(false);
       }
     };
     fetchInsight();
-  }, [workouts, meals, deviceSteps, userProfile, totalCaloriesBurned, totalCaloriesConsumed, totalSteps]);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDay, userProfile, totalCaloriesBurned, totalCaloriesConsumed, totalSteps]);
+
+  const syncSteps = async () => {
+    const steps = await adapter.readSteps();
+    setStepsReported(steps !== null);
+    if (steps !== null) setDeviceSteps(steps);
+  };
+
+  // Stream live data from the active device while connected
+  useEffect(() => {
+    if (!isConnected) return;
+    const stopStream = adapter.streamHeartRate(setHeartRate);
+    const stopListening = adapter.onDisconnected(() => {
+      setConnectionState('error');
+      setDeviceError('Device disconnected');
+      setHeartRate(0);
+    });
+    syncSteps().catch(error => console.error("Step sync error", error));
+    return () => {
+      stopStream();
+      stopListening();
+    };
+  }, [adapter, isConnected]);
+
+  const handleBluetoothSync = async () => {
+    if (isScanning) return;
 
-  const handleBluetoothSync = () => {
     if (isConnected) {
       // If already connected, just sync/refresh data
-      setIsScanning(true);
-      setTimeout(() => {
-        setDeviceSteps(prev => prev + Math.floor(Math.random() * 500));
-        setHeartRate(60 + Math.floor(Math.random() * 40));
-        setIsScanning(false);
-      }, 1500);
+      setIsSyncing(true);
+      try {
+        await syncSteps();
+      } catch (error) {
+        setDeviceError(error instanceof Error ? error.message : 'Sync failed');
+      } finally {
+        setIsSyncing(false);
+      }
       return;
     }
 
-    // Simulate connection process
-    setIsScanning(true);
-    setTimeout(() => {
-      setIsScanning(false);
-      setIsConnected(true);
-      setDeviceSteps(5432); // Simulated data
-      setHeartRate(78);
-    }, 2500);
+    setConnectionState('connecting');
+    setDeviceError(null);
+    try {
+      await adapter.connect();
+      setConnectionState('connected');
+    } catch (error) {
+      console.error("Device connection error", error);
+      setConnectionState('error');
+      setDeviceError(error instanceof Error ? error.message : 'Connection failed');
+    }
+  };
+
+  const handleDisconnect = async () => {
+    await adapter.disconnect();
+    setConnectionState('disconnected');
+    setDeviceError(null);
+    setHeartRate(0);
+    setDeviceSteps(0);
+  };
+
+  const handleAdapterChange = async (id: string) => {
+    if (isConnected) await handleDisconnect();
+    setConnectionState('disconnected');
+    setDeviceError(null);
+    setAdapterId(id);
+  };
+
+  const connectionLabel: Record<WearableConnectionState, string> = {
+    disconnected: 'Not connected',
+    connecting: 'Connecting...',
+    connected: `Connected to ${adapter.deviceName() || adapter.name}`,
+    error: deviceError || 'Connection failed',
   };
 
   // Visual helpers
-  const caloriesProgress = Math.min(100, (totalCaloriesConsumed / targets.calorieGoal) * 100);
-  const stepsProgress = Math.min(100, (totalSteps / targets.stepGoal) * 100);
+  const caloriesProgress = Math.min(100, (totalCaloriesConsumed / targets.calories) * 100);
+  const stepsProgress = Math.min(100, ((totalSteps ?? 0) / targets.stepGoal) * 100);
 
   return (
     <div className="space-y-8 pb-24 animate-fade-in">
@@ -127,6 +191,64 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
         </button>
       </header>
 
+      {/* Device Status */}
+      <div className="flex items-center justify-between gap-3 bg-slate-800/40 px-3 py-2 rounded-xl border border-slate-700/50 -mt-4">
+        <div className="flex items-center gap-2 min-w-0">
+          {connectionState === 'error' ? (
+            <AlertTriangle className="w-3.5 h-3.5 text-orange-400 flex-shrink-0" />
+          ) : (
+            <div className={`w-2 h-2 rounded-full flex-shrink-0 ${isConnected ? 'bg-blue-400 animate-pulse' : 'bg-slate-600'}`}></div>
+          )}
+          <span className={`text-[11px] truncate ${connectionState === 'error' ? 'text-orange-400' : 'text-slate-400'}`}>
+            {connectionLabel[connectionState]}
+          </span>
+        </div>
+        {isConnected ? (
+          <button onClick={handleDisconnect} className="text-[11px] text-slate-400 hover:text-white flex-shrink-0">
+            Disconnect
+          </button>
+        ) : (
+          <select
+            value={adapterId}
+            onChange={(e) => handleAdapterChange(e.target.value)}
+            disabled={connectionState === 'connecting'}
+            className="bg-transparent text-[11px] text-slate-400 outline-none flex-shrink-0"
+          >
+            {WEARABLE_ADAPTERS.map(a => (
+              <option key={a.id} value={a.id} disabled={!a.isSupported()}>{a.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Day Navigation */}
+      <div className="flex items-center justify-between bg-slate-800/40 p-1.5 rounded-2xl border border-slate-700/50">
+        <button
+          onClick={() => setSelectedDay(addDays(selectedDay, -1))}
+          className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-700 transition"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <label className="relative flex items-center gap-2 text-sm font-semibold text-white cursor-pointer">
+          <Calendar className="w-4 h-4 text-fusion-primary" />
+          {formatDayLabel(selectedDay)}
+          <input
+            type="date"
+            value={selectedDay}
+            max={todayKey()}
+            onChange={(e) => e.target.value && setSelectedDay(e.target.value)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+        <button
+          onClick={() => setSelectedDay(addDays(selectedDay, 1))}
+          disabled={isToday}
+          className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-700 transition disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
       {/* AI Insight Card */}
       <div className="relative bg-gradient-to-br from-slate-800 to-slate-900 p-1 rounded-3xl shadow-xl">
         <div className="absolute -inset-0.5 bg-gradient-to-r from-fusion-primary via-cyan-500 to-purple-600 opacity-30 blur-md rounded-3xl"></div>
@@ -161,7 +283,7 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
             </div>
             <div className="flex items-end gap-1 mb-1">
               <span className="text-3xl font-bold text-white">{totalCaloriesConsumed}</span>
-              <span className="text-xs text-slate-400 mb-1.5">/ {targets.calorieGoal}</span>
+              <span className="text-xs text-slate-400 mb-1.5">/ {targets.calories}</span>
             </div>
             <div className="w-full h-2 bg-slate-700/50 rounded-full overflow-hidden">
               <div 
@@ -169,11 +291,13 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
                 style={{ width: `${caloriesProgress}%` }}
               ></div>
             </div>
-            <p className="text-[10px] text-slate-500 mt-2">Target calculated from TDEE</p>
+            <p className="text-[10px] text-slate-500 mt-2">
+              {userProfile.macroOverrides?.calories ? 'Custom target' : 'Target calculated from TDEE'}
+            </p>
           </div>
         </div>
 
-        {/* Steps Ring (Simulated Bluetooth Data) */}
+        {/* Steps Ring (device data when available) */}
         <div className="bg-slate-800/40 backdrop-blur-md p-4 rounded-3xl border border-white/5 shadow-lg relative overflow-hidden group">
           <div className="absolute top-0 right-0 p-3 opacity-10 group-hover:opacity-20 transition">
             <Footprints className="w-16 h-16 text-cyan-500" />
@@ -181,10 +305,10 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
           <div className="relative z-10">
             <div className="flex justify-between items-center mb-4">
               <span className="text-slate-400 text-xs font-bold uppercase">Steps</span>
-              {isConnected && <Bluetooth className="w-3 h-3 text-blue-400" />}
+              {totalSteps !== null && <Bluetooth className="w-3 h-3 text-blue-400" />}
             </div>
             <div className="flex items-end gap-1 mb-1">
-              <span className="text-3xl font-bold text-white">{totalSteps.toLocaleString()}</span>
+              <span className="text-3xl font-bold text-white">{totalSteps !== null ? totalSteps.toLocaleString() : '—'}</span>
             </div>
              <div className="w-full h-2 bg-slate-700/50 rounded-full overflow-hidden">
               <div 
@@ -193,12 +317,37 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
               ></div>
             </div>
             <p className="text-[10px] text-slate-500 mt-2">
-              {isConnected ? 'Synced via FusionBand' : 'Phone Motion Sensor'}
+              {!isToday
+                ? 'No step history for past days'
+                : isConnected
+                  ? (stepsReported ? `Synced via ${adapter.deviceName() || adapter.name}` : 'Device does not report steps')
+                  : 'No device connected'}
             </p>
           </div>
         </div>
       </div>
 
+      {/* Macro Targets */}
+      <div className="bg-slate-800/40 p-4 rounded-3xl border border-white/5 shadow-lg">
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-slate-400 text-xs font-bold uppercase">Macros</span>
+          <span className="text-[10px] text-slate-500">
+            {Math.max(0, targets.calories - totalCaloriesConsumed)} kcal left
+          </span>
+        </div>
+        <MacroProgress consumed={consumedMacros} targets={targets} />
+      </div>
+
+      {/* Hydration */}
+      <HydrationCard
+        waterLogs={waterLogs}
+        dayKey={selectedDay}
+        goal={waterGoal}
+        workoutMinutes={activeMinutes}
+        onAdd={onAddWater}
+        onDelete={onDeleteWater}
+      />
+
       {/* Secondary Metrics Grid */}
       <div className="grid grid-cols-3 gap-3">
         <div className="bg-slate-800/50 p-3 rounded-2xl border border-slate-700/50 flex flex-col items-center justify-center gap-1">
@@ -214,45 +363,71 @@ const Dashboard: React.FC<DashboardProps> = ({ workouts, meals, userProfile }) =
         <div className="bg-slate-800/50 p-3 rounded-2xl border border-slate-700/50 flex flex-col items-center justify-center gap-1 relative overflow-hidden">
           {isConnected && <div className="absolute inset-0 bg-red-500/10 animate-pulse"></div>}
           <Heart className={`w-5 h-5 ${isConnected ? 'text-red-500' : 'text-slate-600'}`} />
-          <span className="text-lg font-bold text-white">{isConnected ? heartRate : '--'}</span>
+          <span className="text-lg font-bold text-white">{isConnected && heartRate > 0 ? heartRate : '--'}</span>
           <span className="text-[10px] text-slate-400">BPM</span>
         </div>
       </div>
 
       {/* Chart Section */}
       <div className="bg-slate-800/30 p-5 rounded-[2rem] border border-slate-700/50 shadow-lg">
-        <h3 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
-          <Activity className="w-4 h-4 text-fusion-primary" />
-          Activity Trends
-        </h3>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Activity className="w-4 h-4 text-fusion-primary" />
+            Activity Trends
+          </h3>
+          <div className="flex bg-slate-900/60 rounded-lg p-0.5">
+            {TREND_RANGES.map(range => (
+              <button
+                key={range.id}
+                onClick={() => setTrendRange(range.id)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-bold transition ${trendRange === range.id ? 'bg-fusion-primary text-slate-900' : 'text-slate-400 hover:text-white'}`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-1.5 overflow-x-auto no-scrollbar mb-4">
+          {(Object.keys(TREND_SERIES) as TrendSeries[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setTrendSeries(key)}
+              className={`px-3 py-1 rounded-full text-[10px] font-semibold whitespace-nowrap border transition ${trendSeries === key ? 'border-transparent text-slate-900' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              style={trendSeries === key ? { backgroundColor: TREND_SERIES[key].color } : undefined}
+            >
+              {TREND_SERIES[key].label}
+            </button>
+          ))}
+        </div>
         <div className="h-40 w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={[
-              { name: 'M', val: 400 },
-              { name: 'T', val: 300 },
-              { name: 'W', val: 600 },
-              { name: 'T', val: 450 },
-              { name: 'F', val: 700 },
-              { name: 'S', val: 500 },
-              { name: 'S', val: totalCaloriesBurned || 100 },
-            ]}>
-              <defs>
-                <linearGradient id="colorVal" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#84cc16" stopOpacity={0.3}/>
-                  <stop offset="95%" stopColor="#84cc16" stopOpacity={0}/>
-                </linearGradient>
-              </defs>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-              <XAxis dataKey="name" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
-              <Tooltip 
-                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', borderRadius: '8px', color: '#fff' }} 
-                itemStyle={{ color: '#84cc16' }}
-                cursor={{ stroke: '#334155', strokeWidth: 1 }}
-              />
-              <Area type="monotone" dataKey="val" stroke="#84cc16" strokeWidth={2} fillOpacity={1} fill="url(#colorVal)" />
-            </AreaChart>
-          </ResponsiveContainer>
+          {hasTrendData ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={trendData}>
+                <defs>
+                  <linearGradient id="colorVal" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={series.color} stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor={series.color} stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                <XAxis dataKey="label" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} minTickGap={12} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', borderRadius: '8px', color: '#fff' }} 
+                  itemStyle={{ color: series.color }}
+                  cursor={{ stroke: '#334155', strokeWidth: 1 }}
+                  formatter={(value) => [`${Number(value).toLocaleString()} ${series.unit}`, series.label]}
+                />
+                {trendSeries === 'net' && <ReferenceLine y={0} stroke="#475569" strokeDasharray="3 3" />}
+                <Area type="monotone" dataKey={trendSeries} stroke={series.color} strokeWidth={2} fillOpacity={1} fill="url(#colorVal)" connectNulls={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-xs text-slate-500">
+              No {series.label.toLowerCase()} data in this period yet.
+            </div>
+          )}
         </div>
+        {trendRange === '12w' && <p className="text-[10px] text-slate-500 mt-2 text-right">Weekly totals</p>}
       </div>
     </div>
   );
@@ -0,0 +1,153 @@
+import React, { useState, useRef } from 'react';
+import { Database, Download, Upload, FileSpreadsheet, AlertTriangle, X } from 'lucide-react';
+import { PersistedState } from '../services/storageService';
+import {
+  createBackup, workoutsToCsv, mealsToCsv, weightHistoryToCsv, downloadFile,
+  parseBackup, analyzeImport, applyImport, ImportReport, ImportMode, EntityImportSummary,
+} from '../services/backupService';
+
+interface DataManagerProps {
+  state: PersistedState;
+  onImport: (state: PersistedState) => void;
+}
+
+const DataManager: React.FC<DataManagerProps> = ({ state, onImport }) => {
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stamp = new Date().toISOString().split('T')[0];
+
+  const handleExportJson = () => {
+    downloadFile(`fitness-fusion-backup-${stamp}.json`, JSON.stringify(createBackup(state), null, 2), 'application/json');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const backup = parseBackup(await file.text());
+      setReport(analyzeImport(state, backup));
+    } catch (error) {
+      setReport(null);
+      setImportError(error instanceof Error ? error.message : "Could not read backup file.");
+    }
+  };
+
+  const handleApply = (mode: ImportMode) => {
+    if (!report) return;
+    onImport(applyImport(state, report.backup, mode));
+    setReport(null);
+  };
+
+  const SummaryRow = ({ label, summary }: { label: string; summary: EntityImportSummary }) => (
+    <div className="flex justify-between text-xs py-1 border-b border-slate-700/50 last:border-0">
+      <span className="text-slate-300">{label}</span>
+      <span className="text-slate-400">
+        <span className="text-fusion-primary">{summary.added} new</span>
+        {' • '}{summary.duplicates} dup
+        {' • '}<span className={summary.conflicts > 0 ? 'text-orange-400' : ''}>{summary.conflicts} conflict</span>
+      </span>
+    </div>
+  );
+
+  const exportButtonClass = "flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-white text-xs font-medium transition border border-slate-700";
+
+  return (
+    <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg">
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="p-2 bg-fusion-primary/10 rounded-lg">
+          <Database className="w-5 h-5 text-fusion-primary" />
+        </div>
+        <h3 className="text-lg font-bold text-white">Your Data</h3>
+      </div>
+
+      <button onClick={handleExportJson} className={`${exportButtonClass} w-full mb-2`}>
+        <Download className="w-4 h-4" /> Full Backup (JSON)
+      </button>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <button onClick={() => downloadFile(`workouts-${stamp}.csv`, workoutsToCsv(state.workouts), 'text/csv')} className={exportButtonClass}>
+          <FileSpreadsheet className="w-4 h-4" /> Workouts
+        </button>
+        <button onClick={() => downloadFile(`meals-${stamp}.csv`, mealsToCsv(state.meals), 'text/csv')} className={exportButtonClass}>
+          <FileSpreadsheet className="w-4 h-4" /> Meals
+        </button>
+        <button onClick={() => downloadFile(`weight-${stamp}.csv`, weightHistoryToCsv(state.userProfile?.weightHistory ?? []), 'text/csv')} className={exportButtonClass}>
+          <FileSpreadsheet className="w-4 h-4" /> Weight
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        ref={fileInputRef}
+        onChange={handleFileSelect}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-3 bg-slate-700 text-white rounded-lg font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-2 text-sm"
+      >
+        <Upload className="w-4 h-4" /> Import Backup
+      </button>
+
+      {importError && (
+        <p className="mt-3 text-xs text-red-400 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {importError}
+        </p>
+      )}
+
+      {report && (
+        <div className="mt-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700 animate-slide-up">
+          <div className="flex justify-between items-start mb-2">
+            <div>
+              <p className="text-sm font-semibold text-white">Backup ready to import</p>
+              {report.backup.exportedAt && (
+                <p className="text-[10px] text-slate-500">Exported {new Date(report.backup.exportedAt).toLocaleString()}</p>
+              )}
+            </div>
+            <button onClick={() => setReport(null)} className="text-slate-500 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <SummaryRow label="Workouts" summary={report.workouts} />
+          <SummaryRow label="Meals" summary={report.meals} />
+          <SummaryRow label="Weigh-ins" summary={report.weightHistory} />
+          <SummaryRow label="Chat threads" summary={report.chatThreads} />
+          <SummaryRow label="Chat messages" summary={report.chatMessages} />
+          <SummaryRow label="Custom exercises" summary={report.customExercises} />
+          <SummaryRow label="Water" summary={report.waterLogs} />
+          <SummaryRow label="Programs" summary={report.programs} />
+
+          {report.profileConflict && (
+            <p className="mt-2 text-[10px] text-orange-400">The backup's profile differs from yours.</p>
+          )}
+          <p className="mt-2 text-[10px] text-slate-500">
+            Merge keeps your existing records on conflict and adds the rest. Replace discards your current data.
+          </p>
+
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => handleApply('merge')}
+              className="flex-1 py-2 rounded-lg bg-fusion-primary text-fusion-dark text-sm font-bold hover:bg-lime-400 transition"
+            >
+              Merge
+            </button>
+            <button
+              onClick={() => handleApply('replace')}
+              className="flex-1 py-2 rounded-lg bg-red-500/20 text-red-400 border border-red-500/40 text-sm font-bold hover:bg-red-500/30 transition"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataManager;
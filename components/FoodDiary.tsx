@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Utensils, Edit2, Trash2, ChevronLeft, ChevronRight, Copy, ArrowRightLeft, History } from 'lucide-react';
+import { MacroNutrients, MealLog, MealType } from '../types';
+import { addDays, filterByDay, formatDayLabel, todayKey } from '../services/dateService';
+import {
+  MEAL_TYPES, MEAL_TYPE_LABELS, copyMealTo, groupMealsByType, mealShareOfTargets, moveMealTo, sumMacros,
+} from '../services/nutritionService';
+import MealForm, { MealFormValues } from './MealForm';
+
+interface FoodDiaryProps {
+  meals: MealLog[];
+  targets: MacroNutrients;
+  onAddMeal: (meal: MealLog) => void;
+  onUpdateMeal: (meal: MealLog) => void;
+  onDeleteMeal: (id: string) => void;
+}
+
+interface Relocation {
+  mealId: string;
+  dayKey: string;
+  mealType: MealType;
+}
+
+const FoodDiary: React.FC<FoodDiaryProps> = ({ meals, targets, onAddMeal, onUpdateMeal, onDeleteMeal }) => {
+  const [selectedDay, setSelectedDay] = useState(todayKey);
+  const [editingMealId, setEditingMealId] = useState<string | null>(null);
+  const [relocation, setRelocation] = useState<Relocation | null>(null);
+
+  const dayMeals = filterByDay(meals, selectedDay, m => m.timestamp);
+  const previousDayMeals = filterByDay(meals, addDays(selectedDay, -1), m => m.timestamp);
+  const groups = groupMealsByType(dayMeals);
+  const dayTotals = sumMacros(dayMeals);
+  const isToday = selectedDay === todayKey();
+
+  const handleEditSave = (meal: MealLog, values: MealFormValues) => {
+    // A breakdown that no longer adds up to the edited totals would be misleading
+    const macrosChanged = JSON.stringify(values.macros) !== JSON.stringify(meal.macros);
+    onUpdateMeal({ ...meal, ...values, items: macrosChanged ? undefined : meal.items });
+    setEditingMealId(null);
+  };
+
+  const handleDelete = (meal: MealLog) => {
+    if (!window.confirm(`Delete "${meal.name}"?`)) return;
+    onDeleteMeal(meal.id);
+    if (editingMealId === meal.id) setEditingMealId(null);
+  };
+
+  const handleRelocate = (meal: MealLog, mode: 'move' | 'copy') => {
+    if (!relocation) return;
+    if (mode === 'move') {
+      onUpdateMeal(moveMealTo(meal, relocation.dayKey, relocation.mealType));
+    } else {
+      onAddMeal(copyMealTo(meal, relocation.dayKey, relocation.mealType));
+    }
+    setRelocation(null);
+  };
+
+  // Copies every meal logged in this slot on the previous day onto the selected day
+  const copyFromPreviousDay = (type: MealType) => {
+    previousDayMeals
+      .filter(m => m.mealType === type)
+      .forEach(meal => onAddMeal(copyMealTo(meal, selectedDay, type)));
+  };
+
+  const renderMeal = (meal: MealLog) => {
+    if (editingMealId === meal.id) {
+      return (
+        <div key={meal.id} className="p-3 bg-fusion-card rounded-xl border border-fusion-primary/40">
+          <MealForm
+            initial={meal}
+            submitLabel="Save"
+            onSave={(values) => handleEditSave(meal, values)}
+            onCancel={() => setEditingMealId(null)}
+          />
+        </div>
+      );
+    }
+
+    const share = mealShareOfTargets(meal.macros, targets);
+    const isRelocating = relocation?.mealId === meal.id;
+    return (
+      <div key={meal.id} className="bg-fusion-card rounded-xl border border-slate-800">
+        <div className="flex items-center p-3">
+          <div className="h-12 w-12 rounded-lg bg-slate-700 overflow-hidden flex-shrink-0">
+            {meal.imageUrl ? (
+              <img src={meal.imageUrl} alt={meal.name} className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <Utensils className="w-5 h-5 text-slate-500" />
+              </div>
+            )}
+          </div>
+          <div className="ml-3 flex-1 min-w-0">
+            <div className="flex justify-between gap-2">
+              <h4 className="text-white font-medium truncate">{meal.name}</h4>
+              <span className="text-fusion-primary font-bold text-sm flex-shrink-0">{meal.macros.calories} kcal</span>
+            </div>
+            <p className="text-xs text-fusion-muted">
+              P: {meal.macros.protein}g • C: {meal.macros.carbs}g • F: {meal.macros.fat}g
+            </p>
+            {meal.items && meal.items.length > 1 && (
+              <p className="text-[10px] text-slate-400 truncate">
+                {meal.items.map(item => `${item.name} ${item.grams}g`).join(', ')}
+              </p>
+            )}
+            <p className="text-[10px] text-slate-500 mt-0.5">
+              {new Date(meal.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • {share.calories}% of calories • {share.protein}% of protein
+            </p>
+          </div>
+          <div className="flex flex-col ml-2 gap-1">
+            <button onClick={() => setEditingMealId(meal.id)} className="p-1.5 text-slate-500 hover:text-white transition">
+              <Edit2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setRelocation(isRelocating ? null : { mealId: meal.id, dayKey: selectedDay, mealType: meal.mealType })}
+              className={`p-1.5 transition ${isRelocating ? 'text-fusion-primary' : 'text-slate-500 hover:text-white'}`}
+            >
+              <ArrowRightLeft className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => handleDelete(meal)} className="p-1.5 text-slate-500 hover:text-red-400 transition">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        {isRelocating && relocation && (
+          <div className="border-t border-slate-800 p-3 space-y-2 animate-slide-up">
+            <div className="flex gap-2">
+              <select
+                value={relocation.mealType}
+                onChange={(e) => setRelocation({ ...relocation, mealType: e.target.value as MealType })}
+                className="flex-1 bg-slate-900 rounded-lg p-2 text-white text-xs border border-slate-700 outline-none"
+              >
+                {MEAL_TYPES.map(type => <option key={type} value={type}>{MEAL_TYPE_LABELS[type]}</option>)}
+              </select>
+              <input
+                type="date"
+                value={relocation.dayKey}
+                onChange={(e) => e.target.value && setRelocation({ ...relocation, dayKey: e.target.value })}
+                className="flex-1 bg-slate-900 rounded-lg p-2 text-white text-xs border border-slate-700 outline-none"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRelocate(meal, 'move')}
+                className="flex-1 py-2 rounded-lg bg-slate-700 text-white text-xs font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-1"
+              >
+                <ArrowRightLeft className="w-3.5 h-3.5" />
+                Move
+              </button>
+              <button
+                onClick={() => handleRelocate(meal, 'copy')}
+                className="flex-1 py-2 rounded-lg bg-fusion-primary text-fusion-dark text-xs font-bold hover:bg-lime-400 transition flex items-center justify-center gap-1"
+              >
+                <Copy className="w-3.5 h-3.5" />
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Food Diary</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setSelectedDay(addDays(selectedDay, -1))}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm text-white font-medium min-w-[5.5rem] text-center">{formatDayLabel(selectedDay)}</span>
+          <button
+            onClick={() => setSelectedDay(addDays(selectedDay, 1))}
+            disabled={isToday}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition disabled:opacity-30"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-fusion-muted mb-4">
+        {dayTotals.calories} kcal • P {Math.round(dayTotals.protein)}g • C {Math.round(dayTotals.carbs)}g • F {Math.round(dayTotals.fat)}g
+      </p>
+
+      <div className="space-y-5">
+        {groups.map(({ type, meals: groupMeals, totals }) => {
+          const previousCount = previousDayMeals.filter(m => m.mealType === type).length;
+          // Workout slots stay hidden until used, or until the previous day's can be copied,
+          // so a normal day shows four sections
+          if (groupMeals.length === 0 && previousCount === 0 && (type === 'preWorkout' || type === 'postWorkout')) return null;
+          return (
+            <div key={type}>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-bold text-slate-300">{MEAL_TYPE_LABELS[type]}</h4>
+                {groupMeals.length > 0 && (
+                  <span className="text-[11px] text-slate-400">
+                    {totals.calories} kcal • P {Math.round(totals.protein)}g • C {Math.round(totals.carbs)}g • F {Math.round(totals.fat)}g
+                  </span>
+                )}
+              </div>
+              <div className="space-y-2">
+                {groupMeals.map(renderMeal)}
+                {groupMeals.length === 0 && previousCount === 0 && (
+                  <p className="text-[11px] text-slate-600 py-1">Nothing logged.</p>
+                )}
+                {groupMeals.length === 0 && previousCount > 0 && (
+                  <button
+                    onClick={() => copyFromPreviousDay(type)}
+                    className="w-full py-2 rounded-lg border border-dashed border-slate-700 text-xs text-slate-400 hover:text-white hover:border-slate-500 transition flex items-center justify-center gap-1.5"
+                  >
+                    <History className="w-3.5 h-3.5" />
+                    Copy {isToday ? "yesterday's" : "previous day's"} {MEAL_TYPE_LABELS[type].toLowerCase()} ({previousCount})
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FoodDiary;
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, ScanBarcode, Database, Loader2, ChevronLeft, Check } from 'lucide-react';
+import { FoodItem, MacroNutrients, MealLog, MealType } from '../types';
+import { createMealFromFood, importFoodFile, lookupBarcode, macrosForPortion, searchFoods } from '../services/foodService';
+import { countFoods } from '../services/storageService';
+import { MEAL_TYPES, MEAL_TYPE_LABELS, defaultMealType } from '../services/nutritionService';
+import { EXTENDED_NUTRIENTS, EXTENDED_NUTRIENT_KEYS } from '../services/nutrientService';
+import BarcodeScanner from './BarcodeScanner';
+import MacroProgress from './MacroProgress';
+
+interface FoodSearchProps {
+  onLogMeal: (meal: MealLog) => void;
+  consumed: MacroNutrients;
+  targets: MacroNutrients;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const FoodSearch: React.FC<FoodSearchProps> = ({ onLogMeal, consumed, targets }) => {
+  const [foodCount, setFoodCount] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<FoodItem[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [selected, setSelected] = useState<FoodItem | null>(null);
+  const [grams, setGrams] = useState('100');
+  const [mealType, setMealType] = useState<MealType>(() => defaultMealType(Date.now()));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    countFoods().then(setFoodCount).catch(() => setFoodCount(0));
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const found = await searchFoods(query);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error("Food search failed:", error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  const selectFood = (food: FoodItem) => {
+    setSelected(food);
+    setGrams((food.servingGrams ?? 100).toString());
+    setMealType(defaultMealType(Date.now()));
+    setStatus(null);
+  };
+
+  const handleBarcode = async (code: string) => {
+    setIsScanning(false);
+    try {
+      const food = await lookupBarcode(code);
+      if (food) {
+        selectFood(food);
+      } else {
+        setStatus(`No food with barcode ${code} in your database.`);
+      }
+    } catch (error) {
+      console.error("Barcode lookup failed:", error);
+      setStatus("Barcode lookup failed. Please try again.");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setStatus(null);
+    try {
+      const imported = await importFoodFile(file);
+      setFoodCount(await countFoods());
+      setStatus(`Imported ${imported.toLocaleString()} foods.`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Import failed.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleLog = () => {
+    const portion = parseFloat(grams);
+    if (!selected || !(portion > 0)) return;
+    onLogMeal(createMealFromFood(selected, portion, mealType));
+    setSelected(null);
+    setQuery('');
+    setStatus(`Logged ${portion} g of ${selected.name}.`);
+  };
+
+  const portion = parseFloat(grams) || 0;
+  const portionMacros = selected ? macrosForPortion(selected, portion) : null;
+
+  return (
+    <div className="bg-fusion-card rounded-3xl p-5 shadow-lg border border-slate-700/50 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-white">Food Database</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-slate-500">
+            {foodCount === null ? '' : `${foodCount.toLocaleString()} foods`}
+          </span>
+          <input type="file" accept=".json,.jsonl,.csv,.tsv,.txt" className="hidden" ref={importInputRef} onChange={handleImport} />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            title="Import an Open Food Facts JSON or CSV export"
+            className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Database className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {status && <p className="text-xs text-fusion-muted bg-slate-800/60 px-3 py-2 rounded-lg">{status}</p>}
+
+      {isScanning ? (
+        <BarcodeScanner onDetected={handleBarcode} onClose={() => setIsScanning(false)} />
+      ) : selected && portionMacros ? (
+        <div className="space-y-3 animate-slide-up">
+          <button onClick={() => setSelected(null)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+            <ChevronLeft className="w-3 h-3" />
+            Back to search
+          </button>
+          <div>
+            <h4 className="text-white font-bold">{selected.name}</h4>
+            <p className="text-xs text-fusion-muted">
+              {selected.brand ? `${selected.brand} • ` : ''}{selected.per100g.calories} kcal per 100 g
+            </p>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <input
+              type="number"
+              min="0"
+              value={grams}
+              onChange={(e) => setGrams(e.target.value)}
+              className="w-24 bg-slate-900 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+            />
+            <span className="text-sm text-slate-400">g</span>
+            <div className="flex gap-1.5 ml-auto">
+              {selected.servingGrams && (
+                <button
+                  onClick={() => setGrams(selected.servingGrams!.toString())}
+                  className="px-2.5 py-1.5 rounded-lg bg-slate-800 text-[11px] text-slate-300 hover:bg-slate-700"
+                >
+                  {selected.servingLabel || `1 serving (${selected.servingGrams} g)`}
+                </button>
+              )}
+              <button
+                onClick={() => setGrams('100')}
+                className="px-2.5 py-1.5 rounded-lg bg-slate-800 text-[11px] text-slate-300 hover:bg-slate-700"
+              >
+                100 g
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              { label: 'kcal', value: portionMacros.calories },
+              { label: 'Protein', value: `${portionMacros.protein}g` },
+              { label: 'Carbs', value: `${portionMacros.carbs}g` },
+              { label: 'Fat', value: `${portionMacros.fat}g` },
+            ].map(item => (
+              <div key={item.label} className="bg-slate-800 p-2 rounded-lg">
+                <p className="text-[10px] text-fusion-muted">{item.label}</p>
+                <p className="text-fusion-accent font-bold text-sm">{item.value}</p>
+              </div>
+            ))}
+          </div>
+          {EXTENDED_NUTRIENT_KEYS.some(key => portionMacros[key] !== undefined) && (
+            <p className="text-[10px] text-slate-400">
+              {EXTENDED_NUTRIENT_KEYS
+                .filter(key => portionMacros[key] !== undefined)
+                .map(key => `${EXTENDED_NUTRIENTS[key].label} ${portionMacros[key]} ${EXTENDED_NUTRIENTS[key].unit}`)
+                .join(' • ')}
+            </p>
+          )}
+
+          <div className="bg-slate-800/60 p-3 rounded-xl">
+            <p className="text-[10px] text-fusion-muted uppercase font-bold mb-2">After this meal</p>
+            <MacroProgress consumed={consumed} targets={targets} pending={portionMacros} />
+          </div>
+
+          <select
+            value={mealType}
+            onChange={(e) => setMealType(e.target.value as MealType)}
+            className="w-full bg-slate-900 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+          >
+            {MEAL_TYPES.map(type => <option key={type} value={type}>{MEAL_TYPE_LABELS[type]}</option>)}
+          </select>
+
+          <button
+            onClick={handleLog}
+            disabled={!(portion > 0)}
+            className="w-full py-3 rounded-xl bg-fusion-primary text-fusion-dark font-bold hover:bg-lime-400 transition disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Check className="w-5 h-5" />
+            Log Meal
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={foodCount ? "Search foods..." : "Import a food database to search"}
+                disabled={!foodCount}
+                className="w-full bg-slate-900 rounded-xl py-2.5 pl-9 pr-3 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none disabled:opacity-50"
+              />
+            </div>
+            <button
+              onClick={() => { setIsScanning(true); setStatus(null); }}
+              disabled={!foodCount}
+              className="px-3 rounded-xl bg-slate-800 text-fusion-primary border border-slate-700 hover:bg-slate-700 transition disabled:opacity-50"
+            >
+              <ScanBarcode className="w-5 h-5" />
+            </button>
+          </div>
+
+          {isSearching && <Loader2 className="w-4 h-4 text-fusion-primary animate-spin mx-auto" />}
+          {!isSearching && query.trim() && results.length === 0 && (
+            <p className="text-xs text-fusion-muted text-center">No foods match "{query}".</p>
+          )}
+          {results.length > 0 && (
+            <div className="space-y-1 max-h-64 overflow-y-auto no-scrollbar">
+              {results.map(food => (
+                <button
+                  key={food.id}
+                  onClick={() => selectFood(food)}
+                  className="w-full flex justify-between items-center p-2.5 rounded-lg hover:bg-slate-800 text-left transition"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-white truncate">{food.name}</p>
+                    {food.brand && <p className="text-[10px] text-slate-500 truncate">{food.brand}</p>}
+                  </div>
+                  <span className="text-xs text-fusion-muted flex-shrink-0 ml-2">{food.per100g.calories} kcal/100g</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {foodCount === 0 && (
+            <p className="text-[10px] text-slate-500">
+              Import an Open Food Facts export (JSON, JSONL or CSV) to look up packaged foods by name or barcode.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FoodSearch;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Droplets, Undo2, Plus } from 'lucide-react';
+import { WaterLog } from '../types';
+import { filterByDay } from '../services/dateService';
+import { QUICK_ADD_ML, createWaterLog, formatWater, sumWater } from '../services/hydrationService';
+
+interface HydrationCardProps {
+  waterLogs: WaterLog[];
+  dayKey: string;
+  goal: number;
+  workoutMinutes: number;
+  onAdd: (log: WaterLog) => void;
+  onDelete: (id: string) => void;
+}
+
+const HydrationCard: React.FC<HydrationCardProps> = ({ waterLogs, dayKey, goal, workoutMinutes, onAdd, onDelete }) => {
+  const [customMl, setCustomMl] = useState('');
+  const dayLogs = filterByDay(waterLogs, dayKey, w => w.timestamp).sort((a, b) => b.timestamp - a.timestamp);
+  const total = sumWater(dayLogs);
+  const progress = goal > 0 ? Math.min(100, (total / goal) * 100) : 0;
+  const lastLog = dayLogs[0];
+
+  const handleCustomAdd = () => {
+    const ml = Math.round(parseFloat(customMl));
+    if (!(ml > 0)) return;
+    onAdd(createWaterLog(ml, dayKey));
+    setCustomMl('');
+  };
+
+  return (
+    <div className="bg-slate-800/40 p-4 rounded-3xl border border-white/5 shadow-lg">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-slate-400 text-xs font-bold uppercase flex items-center gap-1.5">
+          <Droplets className="w-4 h-4 text-cyan-400" />
+          Hydration
+        </span>
+        {lastLog && (
+          <button
+            onClick={() => onDelete(lastLog.id)}
+            className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1"
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo {formatWater(lastLog.ml)}
+          </button>
+        )}
+      </div>
+      <div className="flex items-end gap-1 mb-1">
+        <span className="text-2xl font-bold text-white">{formatWater(total)}</span>
+        <span className="text-xs text-slate-400 mb-1">/ {formatWater(goal)}</span>
+      </div>
+      <div className="w-full h-2 bg-slate-700/50 rounded-full overflow-hidden mb-3">
+        <div
+          className="h-full bg-gradient-to-r from-cyan-400 to-blue-500 rounded-full transition-all duration-500"
+          style={{ width: `${progress}%` }}
+        ></div>
+      </div>
+      <div className="flex gap-1.5">
+        {QUICK_ADD_ML.map(ml => (
+          <button
+            key={ml}
+            onClick={() => onAdd(createWaterLog(ml, dayKey))}
+            className="flex-1 py-1.5 rounded-lg bg-slate-900/60 border border-slate-700 text-[11px] text-cyan-300 font-semibold hover:bg-slate-700 transition"
+          >
+            +{ml}
+          </button>
+        ))}
+        <div className="flex flex-1 min-w-0">
+          <input
+            type="number"
+            min="0"
+            value={customMl}
+            onChange={(e) => setCustomMl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCustomAdd()}
+            placeholder="ml"
+            className="w-full min-w-0 bg-slate-900/60 rounded-l-lg px-2 text-white text-[11px] border border-r-0 border-slate-700 outline-none"
+          />
+          <button
+            onClick={handleCustomAdd}
+            className="px-1.5 rounded-r-lg bg-slate-900/60 border border-slate-700 text-slate-400 hover:text-white"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500 mt-2">
+        {workoutMinutes > 0
+          ? `Goal includes ${workoutMinutes} min of training`
+          : 'Goal based on body weight'}
+      </p>
+    </div>
+  );
+};
+
+export default HydrationCard;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { MacroNutrients } from '../types';
+import { remainingMacros } from '../services/nutritionService';
+
+interface MacroProgressProps {
+  consumed: MacroNutrients;
+  targets: MacroNutrients;
+  // Macros from a meal that hasn't been logged yet, drawn on top of the day's progress
+  pending?: MacroNutrients;
+}
+
+const BARS: { key: 'protein' | 'carbs' | 'fat'; label: string; color: string }[] = [
+  { key: 'protein', label: 'Protein', color: 'bg-fusion-accent' },
+  { key: 'carbs', label: 'Carbs', color: 'bg-orange-400' },
+  { key: 'fat', label: 'Fat', color: 'bg-yellow-400' },
+];
+
+const MacroProgress: React.FC<MacroProgressProps> = ({ consumed, targets, pending }) => {
+  const after = pending
+    ? {
+        calories: consumed.calories + pending.calories,
+        protein: consumed.protein + pending.protein,
+        carbs: consumed.carbs + pending.carbs,
+        fat: consumed.fat + pending.fat,
+      }
+    : consumed;
+  const remaining = remainingMacros(targets, after);
+  const percent = (value: number, target: number) => target > 0 ? Math.min(100, (value / target) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      {BARS.map(({ key, label, color }) => {
+        const left = remaining[key];
+        return (
+          <div key={key}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-slate-300 font-medium">{label}</span>
+              <span className={left < 0 ? 'text-red-400' : 'text-slate-400'}>
+                {Math.round(after[key])} / {targets[key]}g • {left >= 0 ? `${left}g left` : `${-left}g over`}
+              </span>
+            </div>
+            <div className="relative w-full h-2 bg-slate-700/50 rounded-full overflow-hidden">
+              {pending && (
+                <div
+                  className={`absolute inset-y-0 left-0 ${color} opacity-40 rounded-full transition-all duration-500`}
+                  style={{ width: `${percent(after[key], targets[key])}%` }}
+                ></div>
+              )}
+              <div
+                className={`absolute inset-y-0 left-0 ${color} rounded-full transition-all duration-500`}
+                style={{ width: `${percent(consumed[key], targets[key])}%` }}
+              ></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MacroProgress;
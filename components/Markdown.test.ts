@@ -0,0 +1,35 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import Markdown from './Markdown';
+
+const render = (text: string) => renderToStaticMarkup(createElement(Markdown, { text }));
+
+const count = (html: string, tag: string) => html.split(`<${tag}`).length - 1;
+
+describe('Markdown', () => {
+  it('keeps numbered items separated by blank lines in one list', () => {
+    const html = render('Plan:\n\n1. Squat\n\n2. Bench\n\n\n3. Row\n\nDone.');
+    expect(count(html, 'ol')).toBe(1);
+    expect(count(html, 'li')).toBe(3);
+    expect(html).toContain('<p class="whitespace-pre-wrap">Done.</p>');
+  });
+
+  it('continues the source numbering when a list is interrupted', () => {
+    const html = render('1. Warm up\n\nThen the main work:\n\n2. Squat\n3. Bench');
+    expect(count(html, 'ol')).toBe(2);
+    expect(html).toContain('<ol start="2"');
+  });
+
+  it('starts a new list when the list type changes', () => {
+    const html = render('- Oats\n\n1. Eat');
+    expect(count(html, 'ul')).toBe(1);
+    expect(count(html, 'ol')).toBe(1);
+  });
+
+  it('renders model output as text, never as HTML', () => {
+    const html = render('**<img src=x onerror=alert(1)>**');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<strong');
+  });
+});
@@ -0,0 +1,130 @@
+import React from 'react';
+
+// Renders the subset of markdown Fuse writes: headings, paragraphs, bullet and
+// numbered lists, code blocks, bold, italics and inline code. Text is never
+// injected as HTML, so model output can't add markup of its own.
+
+type Block =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'code'; text: string };
+
+const BULLET = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const HEADING = /^\s*#{1,6}\s+(.*)$/;
+const FENCE = /^\s*```/;
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // Closing fence; an unclosed block runs to the end, as while streaming
+      blocks.push({ type: 'code', text: code.join('\n').replace(/\n+$/, '') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', text: heading[1] });
+      i++;
+      continue;
+    }
+
+    const listPattern = BULLET.test(line) ? BULLET : NUMBERED.test(line) ? NUMBERED : null;
+    if (listPattern) {
+      const ordered = listPattern === NUMBERED;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = lines[i].match(listPattern);
+        if (match) {
+          items.push(match[match.length - 1]);
+          i++;
+          continue;
+        }
+        // Models often put blank lines between items; they still belong to one list
+        let next = i;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next === i || next === lines.length || !listPattern.test(lines[next])) break;
+        i = next;
+      }
+      // Numbering follows the source, so a list split by other text continues where it left off
+      const start = ordered ? parseInt(line.match(NUMBERED)![1], 10) : 1;
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Consecutive plain lines form one paragraph, keeping their line breaks
+    const text: string[] = [];
+    while (i < lines.length && lines[i].trim() && !FENCE.test(lines[i]) && !HEADING.test(lines[i])
+      && !BULLET.test(lines[i]) && !NUMBERED.test(lines[i])) {
+      text.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', text: text.join('\n') });
+  }
+
+  return blocks;
+};
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((part, index) => {
+    if ((part.startsWith('**') && part.endsWith('**')) || (part.startsWith('__') && part.endsWith('__'))) {
+      return <strong key={index} className="font-bold text-white">{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`')) {
+      return <code key={index} className="px-1 py-0.5 rounded bg-slate-900 text-fusion-primary text-[0.85em]">{part.slice(1, -1)}</code>;
+    }
+    if (part.length > 2 && ((part.startsWith('*') && part.endsWith('*')) || (part.startsWith('_') && part.endsWith('_')))) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+const Markdown: React.FC<MarkdownProps> = ({ text, className = '' }) => (
+  <div className={`text-sm leading-relaxed space-y-2 ${className}`}>
+    {parseBlocks(text).map((block, index) => {
+      switch (block.type) {
+        case 'heading':
+          return <p key={index} className="font-bold text-white">{renderInline(block.text)}</p>;
+        case 'paragraph':
+          return <p key={index} className="whitespace-pre-wrap">{renderInline(block.text)}</p>;
+        case 'code':
+          return (
+            <pre key={index} className="p-2 rounded-lg bg-slate-900 text-xs text-slate-300 overflow-x-auto">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index} start={block.ordered && block.start !== 1 ? block.start : undefined} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-fusion-primary`}>
+              {block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)}
+            </ListTag>
+          );
+        }
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Check, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { MacroNutrients, MealType } from '../types';
+import { MACRO_KEYS, MACRO_LABELS, MEAL_TYPES, MEAL_TYPE_LABELS, defaultMealType } from '../services/nutritionService';
+import { CoreNutrient, EXTENDED_NUTRIENTS, EXTENDED_NUTRIENT_KEYS, ExtendedNutrient } from '../services/nutrientService';
+
+export interface MealFormValues {
+  name: string;
+  macros: MacroNutrients;
+  timestamp: number;
+  mealType: MealType;
+}
+
+interface MealFormProps {
+  initial?: Partial<MealFormValues>;
+  submitLabel: string;
+  onSave: (values: MealFormValues) => void;
+  onCancel: () => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toTimeInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const MealForm: React.FC<MealFormProps> = ({ initial, submitLabel, onSave, onCancel }) => {
+  // Editing keeps the meal on its original day; only the time of day changes
+  const baseTimestamp = initial?.timestamp ?? Date.now();
+  const [name, setName] = useState(initial?.name ?? '');
+  const [time, setTime] = useState(toTimeInput(baseTimestamp));
+  const [mealType, setMealType] = useState<MealType>(initial?.mealType ?? defaultMealType(baseTimestamp));
+  const [macros, setMacros] = useState<Record<CoreNutrient, string>>({
+    calories: initial?.macros?.calories?.toString() ?? '',
+    protein: initial?.macros?.protein?.toString() ?? '',
+    carbs: initial?.macros?.carbs?.toString() ?? '',
+    fat: initial?.macros?.fat?.toString() ?? '',
+  });
+  // Left blank when unknown, so a missing label value isn't logged as zero
+  const [extended, setExtended] = useState<Record<ExtendedNutrient, string>>(() =>
+    Object.fromEntries(
+      EXTENDED_NUTRIENT_KEYS.map(key => [key, initial?.macros?.[key]?.toString() ?? ''])
+    ) as Record<ExtendedNutrient, string>
+  );
+  const [showExtended, setShowExtended] = useState(() => EXTENDED_NUTRIENT_KEYS.some(key => initial?.macros?.[key] !== undefined));
+
+  const parsed = {
+    calories: parseFloat(macros.calories) || 0,
+    protein: parseFloat(macros.protein) || 0,
+    carbs: parseFloat(macros.carbs) || 0,
+    fat: parseFloat(macros.fat) || 0,
+  };
+  const isValid = name.trim() && MACRO_KEYS.every(key => parsed[key] >= 0) && parsed.calories > 0;
+
+  // Calories implied by the macros, shown as a hint when the entered total looks off
+  const macroCalories = Math.round(parsed.protein * 4 + parsed.carbs * 4 + parsed.fat * 9);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const date = new Date(baseTimestamp);
+    const [hours, minutes] = time.split(':').map(Number);
+    if (!isNaN(hours) && !isNaN(minutes)) date.setHours(hours, minutes, 0, 0);
+    const nutrients: MacroNutrients = {
+      calories: Math.round(parsed.calories),
+      protein: Math.round(parsed.protein * 10) / 10,
+      carbs: Math.round(parsed.carbs * 10) / 10,
+      fat: Math.round(parsed.fat * 10) / 10,
+    };
+    EXTENDED_NUTRIENT_KEYS.forEach(key => {
+      const value = parseFloat(extended[key]);
+      if (value >= 0) nutrients[key] = value;
+    });
+    onSave({
+      name: name.trim(),
+      macros: nutrients,
+      timestamp: date.getTime(),
+      mealType,
+    });
+  };
+
+  const inputClass = "bg-slate-900 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full";
+
+  return (
+    <div className="space-y-3 animate-slide-up">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Meal name"
+          className={inputClass}
+        />
+        <input
+          type="time"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className={`${inputClass} w-28 flex-shrink-0`}
+        />
+      </div>
+      <select value={mealType} onChange={(e) => setMealType(e.target.value as MealType)} className={inputClass}>
+        {MEAL_TYPES.map(type => <option key={type} value={type}>{MEAL_TYPE_LABELS[type]}</option>)}
+      </select>
+      <div className="grid grid-cols-4 gap-2">
+        {MACRO_KEYS.map(key => (
+          <div key={key} className="space-y-1">
+            <span className="text-[10px] text-slate-500">{MACRO_LABELS[key]} ({key === 'calories' ? 'kcal' : 'g'})</span>
+            <input
+              type="number"
+              min="0"
+              value={macros[key]}
+              onChange={(e) => setMacros({ ...macros, [key]: e.target.value })}
+              className={`${inputClass} px-2`}
+            />
+          </div>
+        ))}
+      </div>
+      {macroCalories > 0 && Math.abs(macroCalories - parsed.calories) > parsed.calories * 0.2 && (
+        <p className="text-[10px] text-orange-400">Macros add up to about {macroCalories} kcal.</p>
+      )}
+      <button
+        type="button"
+        onClick={() => setShowExtended(!showExtended)}
+        className="text-xs text-slate-400 hover:text-white flex items-center gap-1"
+      >
+        {showExtended ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        More nutrients
+      </button>
+      {showExtended && (
+        <div className="grid grid-cols-4 gap-2">
+          {EXTENDED_NUTRIENT_KEYS.map(key => (
+            <div key={key} className="space-y-1">
+              <span className="text-[10px] text-slate-500 whitespace-nowrap">
+                {EXTENDED_NUTRIENTS[key].label} ({EXTENDED_NUTRIENTS[key].unit})
+              </span>
+              <input
+                type="number"
+                min="0"
+                value={extended[key]}
+                onChange={(e) => setExtended({ ...extended, [key]: e.target.value })}
+                placeholder="—"
+                className={`${inputClass} px-2`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2.5 rounded-xl bg-slate-700 text-white text-sm font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isValid}
+          className="flex-[2] py-2.5 rounded-xl bg-fusion-primary text-fusion-dark text-sm font-bold hover:bg-lime-400 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+        >
+          <Check className="w-4 h-4" />
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MealForm;
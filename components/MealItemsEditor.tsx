@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Check } from 'lucide-react';
+import { MealItem } from '../types';
+import { MACRO_KEYS, MACRO_LABELS, scaleMealItem } from '../services/nutritionService';
+
+interface MealItemsEditorProps {
+  items: MealItem[];
+  onChange: (items: MealItem[]) => void;
+}
+
+const emptyItemForm = () => ({ name: '', grams: '', calories: '', protein: '', carbs: '', fat: '' });
+
+const MealItemsEditor: React.FC<MealItemsEditorProps> = ({ items, onChange }) => {
+  // Portion inputs are kept as text so a field can be cleared while typing
+  const [gramsInput, setGramsInput] = useState<Record<string, string>>({});
+  // Each item as first estimated. Rescaling always starts here, so typing through
+  // intermediate values like "1" on the way to "150" doesn't compound rounding.
+  const [baselines] = useState(() => new Map<string, MealItem>());
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState(emptyItemForm());
+
+  const handleGramsChange = (item: MealItem, value: string) => {
+    setGramsInput({ ...gramsInput, [item.id]: value });
+    const grams = parseFloat(value);
+    if (!(grams > 0)) return;
+    if (!baselines.has(item.id)) baselines.set(item.id, item);
+    const scaled = scaleMealItem(baselines.get(item.id)!, grams);
+    onChange(items.map(i => i.id === item.id ? scaled : i));
+  };
+
+  const handleRemove = (id: string) => onChange(items.filter(i => i.id !== id));
+
+  const handleAdd = () => {
+    const grams = parseFloat(form.grams);
+    const calories = parseFloat(form.calories);
+    if (!form.name.trim() || !(grams > 0) || !(calories >= 0)) return;
+    onChange([
+      ...items,
+      {
+        id: Date.now().toString(),
+        name: form.name.trim(),
+        grams,
+        macros: {
+          calories: Math.round(calories),
+          protein: parseFloat(form.protein) || 0,
+          carbs: parseFloat(form.carbs) || 0,
+          fat: parseFloat(form.fat) || 0,
+        },
+      },
+    ]);
+    setForm(emptyItemForm());
+    setIsAdding(false);
+  };
+
+  const inputClass = "bg-slate-900 rounded-lg p-2 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full";
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.id} className="flex items-center gap-2 bg-slate-800 p-2 rounded-lg">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">{item.name}</p>
+            <p className="text-[10px] text-fusion-muted">
+              {item.macros.calories} kcal • P {item.macros.protein}g • C {item.macros.carbs}g • F {item.macros.fat}g
+            </p>
+          </div>
+          <input
+            type="number"
+            min="0"
+            value={gramsInput[item.id] ?? item.grams.toString()}
+            onChange={(e) => handleGramsChange(item, e.target.value)}
+            className="w-16 bg-slate-900 rounded-lg p-1.5 text-white text-sm text-center border border-slate-700 focus:border-fusion-primary outline-none"
+          />
+          <span className="text-xs text-slate-500">g</span>
+          <button onClick={() => handleRemove(item.id)} className="p-1.5 text-slate-500 hover:text-red-400 transition">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {items.length === 0 && !isAdding && (
+        <p className="text-xs text-fusion-muted text-center py-2">No items. Add what's on the plate.</p>
+      )}
+
+      {isAdding ? (
+        <div className="bg-slate-800/60 p-3 rounded-lg space-y-2 animate-slide-up">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Food name"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              value={form.grams}
+              onChange={(e) => setForm({ ...form, grams: e.target.value })}
+              placeholder="g"
+              className={`${inputClass} w-20 flex-shrink-0`}
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {MACRO_KEYS.map(key => (
+              <input
+                key={key}
+                type="number"
+                min="0"
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                placeholder={key === 'calories' ? 'kcal' : MACRO_LABELS[key]}
+                className={inputClass}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setIsAdding(false); setForm(emptyItemForm()); }}
+              className="flex-1 py-2 rounded-lg bg-slate-700 text-white text-xs font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-1"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              className="flex-1 py-2 rounded-lg bg-fusion-primary text-fusion-dark text-xs font-bold hover:bg-lime-400 transition flex items-center justify-center gap-1"
+            >
+              <Check className="w-3.5 h-3.5" />
+              Add Item
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="w-full py-2 rounded-lg border border-dashed border-slate-600 text-xs text-slate-400 hover:text-white hover:border-slate-400 transition flex items-center justify-center gap-1"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add missing item
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MealItemsEditor;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { MealLog, UserProfile } from '../types';
+import { sumMacros } from '../services/nutritionService';
+import { EXTENDED_NUTRIENTS, EXTENDED_NUTRIENT_KEYS, getReferenceIntakes, nutrientCoverage, roundNutrients } from '../services/nutrientService';
+
+interface NutrientPanelProps {
+  meals: MealLog[];
+  user: UserProfile;
+  calorieGoal: number;
+}
+
+const NutrientPanel: React.FC<NutrientPanelProps> = ({ meals, user, calorieGoal }) => {
+  const totals = roundNutrients(sumMacros(meals));
+  const reference = getReferenceIntakes(user, calorieGoal);
+  const coverage = nutrientCoverage(meals);
+
+  return (
+    <div className="space-y-2.5">
+      {EXTENDED_NUTRIENT_KEYS.map(key => {
+        const info = EXTENDED_NUTRIENTS[key];
+        const value = totals[key];
+        const target = reference[key];
+        const ratio = value !== undefined && target > 0 ? value / target : 0;
+        // Limits turn red once exceeded; minimums turn green once reached
+        const color = info.kind === 'limit'
+          ? (ratio > 1 ? 'bg-red-400' : ratio > 0.8 ? 'bg-orange-400' : 'bg-slate-400')
+          : (ratio >= 1 ? 'bg-fusion-primary' : 'bg-fusion-accent');
+        const partial = coverage[key] > 0 && coverage[key] < meals.length;
+
+        return (
+          <div key={key}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-slate-300 font-medium">
+                {info.label}
+                <span className="text-[10px] text-slate-500 ml-1">{info.kind === 'limit' ? 'max' : 'min'}</span>
+              </span>
+              <span className={info.kind === 'limit' && ratio > 1 ? 'text-red-400' : 'text-slate-400'}>
+                {value === undefined ? '—' : value} / {target} {info.unit}
+                {partial && <span className="text-[10px] text-slate-500"> • {coverage[key]} of {meals.length} meals</span>}
+              </span>
+            </div>
+            <div className="w-full h-1.5 bg-slate-700/50 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${color} rounded-full transition-all duration-500`}
+                style={{ width: `${Math.min(100, ratio * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-[10px] text-slate-500">
+        Reference intakes for a {user.age}-year-old{user.gender === 'Other' ? '' : ` ${user.gender.toLowerCase()}`}. Totals only count meals that report each nutrient.
+      </p>
+    </div>
+  );
+};
+
+export default NutrientPanel;
@@ -1,18 +1,38 @@
 import React, { useState, useRef } from 'react';
-import { Camera, Upload, Check, Loader2, Utensils } from 'lucide-react';
-import { MealLog, MacroNutrients } from '../types';
-import { analyzeFoodImage } from '../services/geminiService';
+import { Camera, Upload, Check, Loader2, PenLine } from 'lucide-react';
+import { MealLog, MealItem, MealType, UserProfile } from '../types';
+import { analyzeFoodImage, FoodImageAnalysis } from '../services/aiService';
+import { filterByDay, todayKey } from '../services/dateService';
+import { getMacroTargets, sumMacros, sumMealItems, defaultMealType, MEAL_TYPES, MEAL_TYPE_LABELS } from '../services/nutritionService';
+import MacroProgress from './MacroProgress';
+import MealForm, { MealFormValues } from './MealForm';
+import FoodSearch from './FoodSearch';
+import MealItemsEditor from './MealItemsEditor';
+import FoodDiary from './FoodDiary';
+import NutrientPanel from './NutrientPanel';
 
 interface NutritionProps {
   onAddMeal: (meal: MealLog) => void;
+  onUpdateMeal: (meal: MealLog) => void;
+  onDeleteMeal: (id: string) => void;
   meals: MealLog[];
+  userProfile: UserProfile;
 }
 
-const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
+const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, onUpdateMeal, onDeleteMeal, meals, userProfile }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<{ name: string; macros: MacroNutrients; description: string } | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<FoodImageAnalysis | null>(null);
+  // Editable copy of the analysis; the meal's macros are always the sum of its items
+  const [mealName, setMealName] = useState('');
+  const [mealItems, setMealItems] = useState<MealItem[]>([]);
+  const [isManualEntry, setIsManualEntry] = useState(false);
+  const [mealType, setMealType] = useState<MealType>('snack');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const todaysMeals = filterByDay(meals, todayKey(), m => m.timestamp);
+  const targets = getMacroTargets(userProfile);
+  const consumed = sumMacros(todaysMeals);
+  const mealMacros = sumMealItems(mealItems);
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -30,6 +50,9 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
         const base64Data = base64String.split(',')[1];
         const result = await analyzeFoodImage(base64Data, file.type);
         setAnalysisResult(result);
+        setMealName(result.name);
+        setMealItems(result.items);
+        setMealType(defaultMealType(Date.now()));
       } catch (error) {
         alert("Failed to analyze image. Please try again.");
       } finally {
@@ -40,13 +63,15 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
   };
 
   const handleSaveMeal = () => {
-    if (analysisResult && preview) {
+    if (analysisResult && preview && mealItems.length > 0) {
       const newMeal: MealLog = {
         id: Date.now().toString(),
-        name: analysisResult.name,
+        name: mealName.trim() || analysisResult.name,
         timestamp: Date.now(),
-        macros: analysisResult.macros,
+        mealType,
+        macros: mealMacros,
         imageUrl: preview,
+        items: mealItems,
       };
       onAddMeal(newMeal);
       setPreview(null);
@@ -54,18 +79,28 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
     }
   };
 
+  const handleManualSave = (values: MealFormValues) => {
+    onAddMeal({ id: Date.now().toString(), ...values });
+    setIsManualEntry(false);
+  };
+
   return (
     <div className="pb-24 space-y-6 animate-fade-in">
       <header>
         <h1 className="text-2xl font-bold text-white">Smart Nutrition</h1>
-        <p className="text-fusion-muted text-sm">Snap a pic, track your macros.</p>
+        <p className="text-fusion-muted text-sm">Snap a pic, scan a label, track your macros.</p>
       </header>
 
       {/* AI Scanner Card */}
       <div className="bg-fusion-card rounded-3xl p-6 shadow-lg border border-slate-700/50 relative overflow-hidden">
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-fusion-primary to-fusion-accent"></div>
         
-        {!preview ? (
+        {isManualEntry ? (
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-4">Add Meal Manually</h3>
+            <MealForm submitLabel="Log Meal" onSave={handleManualSave} onCancel={() => setIsManualEntry(false)} />
+          </div>
+        ) : !preview ? (
           <div className="text-center py-8">
             <div className="mx-auto h-20 w-20 bg-slate-800 rounded-full flex items-center justify-center mb-4 border-2 border-dashed border-slate-600">
               <Camera className="w-8 h-8 text-fusion-primary" />
@@ -87,6 +122,13 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
               <Upload className="w-5 h-5" />
               Upload Photo
             </button>
+            <button
+              onClick={() => setIsManualEntry(true)}
+              className="mt-4 text-sm text-fusion-muted hover:text-white transition flex items-center justify-center mx-auto gap-1.5"
+            >
+              <PenLine className="w-4 h-4" />
+              Enter manually
+            </button>
           </div>
         ) : (
           <div className="space-y-4">
@@ -102,10 +144,15 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
 
             {analysisResult && (
               <div className="animate-slide-up">
-                <div className="flex justify-between items-start mb-2">
-                  <h3 className="text-xl font-bold text-white">{analysisResult.name}</h3>
-                  <span className="bg-fusion-primary text-fusion-dark text-xs font-bold px-2 py-1 rounded-md">
-                    {analysisResult.macros.calories} kcal
+                <div className="flex justify-between items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={mealName}
+                    onChange={(e) => setMealName(e.target.value)}
+                    className="flex-1 min-w-0 bg-transparent text-xl font-bold text-white outline-none border-b border-transparent focus:border-fusion-primary"
+                  />
+                  <span className="bg-fusion-primary text-fusion-dark text-xs font-bold px-2 py-1 rounded-md flex-shrink-0">
+                    {mealMacros.calories} kcal
                   </span>
                 </div>
                 <p className="text-sm text-fusion-muted mb-4">{analysisResult.description}</p>
@@ -113,18 +160,36 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
                 <div className="grid grid-cols-3 gap-2 mb-4">
                   <div className="bg-slate-800 p-2 rounded-lg text-center">
                     <p className="text-xs text-fusion-muted">Protein</p>
-                    <p className="text-fusion-accent font-bold">{analysisResult.macros.protein}g</p>
+                    <p className="text-fusion-accent font-bold">{mealMacros.protein}g</p>
                   </div>
                   <div className="bg-slate-800 p-2 rounded-lg text-center">
                     <p className="text-xs text-fusion-muted">Carbs</p>
-                    <p className="text-fusion-accent font-bold">{analysisResult.macros.carbs}g</p>
+                    <p className="text-fusion-accent font-bold">{mealMacros.carbs}g</p>
                   </div>
                   <div className="bg-slate-800 p-2 rounded-lg text-center">
                     <p className="text-xs text-fusion-muted">Fat</p>
-                    <p className="text-fusion-accent font-bold">{analysisResult.macros.fat}g</p>
+                    <p className="text-fusion-accent font-bold">{mealMacros.fat}g</p>
                   </div>
                 </div>
 
+                <select
+                  value={mealType}
+                  onChange={(e) => setMealType(e.target.value as MealType)}
+                  className="w-full bg-slate-800 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none mb-4"
+                >
+                  {MEAL_TYPES.map(type => <option key={type} value={type}>{MEAL_TYPE_LABELS[type]}</option>)}
+                </select>
+
+                <div className="mb-4">
+                  <p className="text-[10px] text-fusion-muted uppercase font-bold mb-2">Detected items</p>
+                  <MealItemsEditor items={mealItems} onChange={setMealItems} />
+                </div>
+
+                <div className="bg-slate-800/60 p-3 rounded-xl mb-4">
+                  <p className="text-[10px] text-fusion-muted uppercase font-bold mb-2">After this meal</p>
+                  <MacroProgress consumed={consumed} targets={targets} pending={mealMacros} />
+                </div>
+
                 <div className="flex gap-2">
                   <button 
                     onClick={() => setPreview(null)} 
@@ -134,7 +199,8 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
                   </button>
                   <button 
                     onClick={handleSaveMeal}
-                    className="flex-[2] py-3 rounded-xl bg-fusion-primary text-fusion-dark font-bold hover:bg-lime-400 transition flex items-center justify-center gap-2"
+                    disabled={mealItems.length === 0}
+                    className="flex-[2] py-3 rounded-xl bg-fusion-primary text-fusion-dark font-bold hover:bg-lime-400 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
                     <Check className="w-5 h-5" />
                     Log Meal
@@ -146,37 +212,32 @@ const Nutrition: React.FC<NutritionProps> = ({ onAddMeal, meals }) => {
         )}
       </div>
 
-      {/* Daily Log */}
-      <div>
-        <h3 className="text-lg font-semibold text-white mb-3">Today's Intake</h3>
-        <div className="space-y-3">
-          {meals.map((meal) => (
-            <div key={meal.id} className="flex items-center p-3 bg-fusion-card rounded-xl border border-slate-800">
-              <div className="h-12 w-12 rounded-lg bg-slate-700 overflow-hidden flex-shrink-0">
-                {meal.imageUrl ? (
-                  <img src={meal.imageUrl} alt={meal.name} className="w-full h-full object-cover" />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center">
-                    <Utensils className="w-5 h-5 text-slate-500" />
-                  </div>
-                )}
-              </div>
-              <div className="ml-3 flex-1">
-                <div className="flex justify-between">
-                  <h4 className="text-white font-medium">{meal.name}</h4>
-                  <span className="text-fusion-primary font-bold text-sm">{meal.macros.calories} kcal</span>
-                </div>
-                <p className="text-xs text-fusion-muted">
-                  P: {meal.macros.protein}g • C: {meal.macros.carbs}g • F: {meal.macros.fat}g
-                </p>
-              </div>
-            </div>
-          ))}
-          {meals.length === 0 && (
-            <p className="text-fusion-muted text-sm text-center py-4">No meals logged yet.</p>
-          )}
+      {/* Food Database */}
+      <FoodSearch onLogMeal={onAddMeal} consumed={consumed} targets={targets} />
+
+      {/* Daily Targets */}
+      <div className="bg-fusion-card p-4 rounded-2xl border border-slate-800">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-semibold text-white">Daily Targets</h3>
+          <span className="text-xs text-fusion-primary font-bold">{consumed.calories} / {targets.calories} kcal</span>
         </div>
+        <MacroProgress consumed={consumed} targets={targets} />
+      </div>
+
+      {/* Extended nutrients */}
+      <div className="bg-fusion-card p-4 rounded-2xl border border-slate-800">
+        <h3 className="text-sm font-semibold text-white mb-3">Nutrients Today</h3>
+        <NutrientPanel meals={todaysMeals} user={userProfile} calorieGoal={targets.calories} />
       </div>
+
+      {/* Diary */}
+      <FoodDiary
+        meals={meals}
+        targets={targets}
+        onAddMeal={onAddMeal}
+        onUpdateMeal={onUpdateMeal}
+        onDeleteMeal={onDeleteMeal}
+      />
     </div>
   );
 };
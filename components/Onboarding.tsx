@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
-import { UserProfile, ActivityLevel } from '../types';
+import { UserProfile, ActivityLevel, FITNESS_GOALS } from '../types';
 import { ChevronRight, Activity, User, Ruler, Weight } from 'lucide-react';
+import { todayKey } from '../services/dateService';
 
 interface OnboardingProps {
   onComplete: (profile: UserProfile) => void;
@@ -29,7 +30,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
       const profile: UserProfile = {
         ...formData as UserProfile,
         weightHistory: [
-          { date: new Date().toISOString().split('T')[0], weight: formData.weight! }
+          { id: Date.now().toString(), date: todayKey(), weight: formData.weight! }
         ]
       };
       onComplete(profile);
@@ -152,10 +153,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                   onChange={(e) => handleChange('goal', e.target.value)}
                   className="w-full bg-slate-800 text-white rounded-xl px-4 py-3 border border-slate-700 focus:border-fusion-primary outline-none appearance-none"
                 >
-                  <option>Lose Weight</option>
-                  <option>Build Muscle</option>
-                  <option>Improve Stamina</option>
-                  <option>Keep Fit</option>
+                  {FITNESS_GOALS.map(goal => <option key={goal}>{goal}</option>)}
                 </select>
               </div>
 
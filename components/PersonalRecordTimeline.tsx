@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { WorkoutSession } from '../types';
+import { getPersonalRecordHistory, formatPersonalRecord, PR_LABELS } from '../services/personalRecordService';
+
+interface PersonalRecordTimelineProps {
+  workouts: WorkoutSession[];
+}
+
+const PersonalRecordTimeline: React.FC<PersonalRecordTimelineProps> = ({ workouts }) => {
+  const history = getPersonalRecordHistory(workouts);
+
+  // Exercises with records, most recently improved first
+  const exercises = [...new Map(
+    [...history].reverse().map(pr => [pr.exerciseKey, pr.exerciseName])
+  )];
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const activeKey = selectedKey && exercises.some(([key]) => key === selectedKey) ? selectedKey : exercises[0]?.[0];
+  const records = history.filter(pr => pr.exerciseKey === activeKey);
+
+  const chartData = records
+    .filter(pr => pr.type === 'estimatedOneRepMax')
+    .map(pr => ({
+      label: new Date(pr.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      e1rm: pr.value,
+    }));
+
+  return (
+    <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg">
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="p-2 bg-yellow-500/10 rounded-lg">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+        </div>
+        <h3 className="text-lg font-bold text-white">Personal Records</h3>
+      </div>
+
+      {exercises.length === 0 ? (
+        <p className="text-fusion-muted text-xs text-center py-4">
+          Repeat an exercise and beat your numbers to set your first PR.
+        </p>
+      ) : (
+        <>
+          <select
+            value={activeKey}
+            onChange={(e) => setSelectedKey(e.target.value)}
+            className="w-full bg-slate-800 text-white text-sm rounded-xl px-3 py-2 border border-slate-700 outline-none mb-4"
+          >
+            {exercises.map(([key, name]) => <option key={key} value={key}>{name}</option>)}
+          </select>
+
+          {chartData.length > 1 && (
+            <div className="h-32 w-full mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="label" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} domain={['dataMin - 5', 'dataMax + 5']} width={30} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', borderRadius: '8px', color: '#fff' }}
+                    itemStyle={{ color: '#facc15' }}
+                  />
+                  <Line name="Est. 1RM" type="stepAfter" dataKey="e1rm" stroke="#facc15" strokeWidth={2} dot={{ r: 3, fill: '#facc15' }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Timeline, newest first */}
+          <div className="relative pl-4 border-l border-slate-700 space-y-3">
+            {[...records].reverse().map(pr => (
+              <div key={pr.id} className="relative">
+                <div className="absolute -left-[21px] top-1 w-2.5 h-2.5 rounded-full bg-yellow-400 border-2 border-fusion-card"></div>
+                <p className="text-[10px] text-slate-500">{new Date(pr.date).toLocaleDateString()} • {PR_LABELS[pr.type]}</p>
+                <p className="text-sm text-white font-semibold">{formatPersonalRecord(pr)}</p>
+                <p className="text-[10px] text-slate-500">Previous best: {pr.previousValue.toLocaleString()}{pr.type === 'repsAtWeight' ? ' reps' : 'kg'}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PersonalRecordTimeline;
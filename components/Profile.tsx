@@ -1,12 +1,26 @@
-import React from 'react';
-import { UserProfile, WeightEntry, WorkoutSession } from '../types';
-import { Edit2, Ruler, Weight, Activity, Target, Award, TrendingUp, Medal, Flame, Trophy, Zap, Lock, Dumbbell, Crown } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import React, { useState } from 'react';
+import { UserProfile, WorkoutSession, MealLog, ChatMessage, ChatThread, CatalogExercise, WaterLog, TrainingProgram } from '../types';
+import { PersistedState } from '../services/storageService';
+import DataManager from './DataManager';
+import AISettings from './AISettings';
+import ProfileEditor from './ProfileEditor';
+import WeightLog from './WeightLog';
+import PersonalRecordTimeline from './PersonalRecordTimeline';
+import { sortWeightHistory } from '../services/weightService';
+import { calculateStreak, sessionVolume } from '../services/workoutService';
+import { Edit2, Ruler, Weight, Activity, Target, Award, Medal, Flame, Trophy, Zap, Lock, Dumbbell, Crown } from 'lucide-react';
 
 interface ProfileProps {
   user: UserProfile;
   workouts: WorkoutSession[];
-  onEdit: () => void;
+  meals: MealLog[];
+  chatMessages: ChatMessage[];
+  chatThreads: ChatThread[];
+  customExercises: CatalogExercise[];
+  waterLogs: WaterLog[];
+  programs: TrainingProgram[];
+  onUpdateProfile: (profile: UserProfile) => void;
+  onImportData: (state: PersistedState) => void;
 }
 
 // Achievement Configuration
@@ -43,9 +57,9 @@ const BADGES: Badge[] = [
     icon: Activity,
     color: 'text-blue-400',
     condition: (u, w) => {
-      if (!u.weightHistory || u.weightHistory.length === 0) return false;
-      const startWeight = u.weightHistory[0].weight; // Assuming index 0 is oldest
-      return (startWeight - u.weight) >= 10;
+      const history = sortWeightHistory(u.weightHistory || []);
+      if (history.length === 0) return false;
+      return (history[0].weight - history[history.length - 1].weight) >= 10;
     },
   },
   {
@@ -70,47 +84,13 @@ const BADGES: Badge[] = [
     description: 'Lift 5000kg+ in one session',
     icon: Trophy,
     color: 'text-red-400',
-    condition: (u, w) => w.some(session => {
-      const totalVolume = session.exercises.reduce((acc, ex) => acc + (ex.weight * ex.reps * ex.sets), 0);
-      return totalVolume >= 5000;
-    }),
+    condition: (u, w) => w.some(session => sessionVolume(session) >= 5000),
   }
 ];
 
-// Helper to calculate current streak
-const calculateStreak = (workouts: WorkoutSession[]): number => {
-  if (!workouts.length) return 0;
-  
-  // Get unique dates, sorted descending
-  const dates = [...new Set(workouts.map(w => w.date.split('T')[0]))].sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
-  
-  if (dates.length === 0) return 0;
+const Profile: React.FC<ProfileProps> = ({ user, workouts, meals, chatMessages, chatThreads, customExercises, waterLogs, programs, onUpdateProfile, onImportData }) => {
+  const [isEditing, setIsEditing] = useState(false);
 
-  let streak = 0;
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-  // Check if streak is alive (last workout was today or yesterday)
-  if (dates[0] !== today && dates[0] !== yesterday) {
-    return 0;
-  }
-
-  // Count consecutive days
-  for (let i = 0; i < dates.length; i++) {
-    const current = new Date(dates[i]);
-    const expected = new Date(dates[0]);
-    expected.setDate(expected.getDate() - i);
-    
-    if (current.toISOString().split('T')[0] === expected.toISOString().split('T')[0]) {
-      streak++;
-    } else {
-      break;
-    }
-  }
-  return streak;
-};
-
-const Profile: React.FC<ProfileProps> = ({ user, workouts, onEdit }) => {
   // Calculate BMI
   const heightInMeters = user.height / 100;
   const bmi = (user.weight / (heightInMeters * heightInMeters)).toFixed(1);
@@ -142,31 +122,6 @@ const Profile: React.FC<ProfileProps> = ({ user, workouts, onEdit }) => {
       .slice(0, 2);
   };
 
-  // Prepare data for chart
-  const getChartData = () => {
-    if (user.weightHistory && user.weightHistory.length > 1) {
-      return user.weightHistory;
-    }
-    
-    // Generate mock historical data ending at current weight for visualization
-    const mockData: WeightEntry[] = [];
-    const currentWeight = user.weight;
-    for (let i = 5; i >= 0; i--) {
-      const date = new Date();
-      date.setMonth(date.getMonth() - i);
-      const variance = (Math.random() * 4) - 2; 
-      const weight = parseFloat((currentWeight + (i * 0.5) + variance).toFixed(1));
-      
-      mockData.push({
-        date: date.toLocaleDateString('en-US', { month: 'short' }),
-        weight: i === 0 ? currentWeight : weight
-      });
-    }
-    return mockData;
-  };
-
-  const chartData = getChartData();
-
   return (
     <div className="pb-24 space-y-6 animate-fade-in">
       {/* Header */}
@@ -184,13 +139,24 @@ const Profile: React.FC<ProfileProps> = ({ user, workouts, onEdit }) => {
           </span>
         </div>
         <button 
-          onClick={onEdit}
+          onClick={() => setIsEditing(!isEditing)}
           className="absolute top-4 right-0 p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition"
         >
           <Edit2 className="w-4 h-4" />
         </button>
       </header>
 
+      {isEditing && (
+        <ProfileEditor
+          user={user}
+          onCancel={() => setIsEditing(false)}
+          onSave={(profile) => {
+            onUpdateProfile(profile);
+            setIsEditing(false);
+          }}
+        />
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 gap-4">
         <div className="bg-fusion-card p-4 rounded-2xl border border-slate-700 shadow-sm flex flex-col items-center justify-center">
@@ -245,53 +211,11 @@ const Profile: React.FC<ProfileProps> = ({ user, workouts, onEdit }) => {
         </div>
       </div>
 
-      {/* Weight Progress Chart */}
-      <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg">
-        <div className="flex items-center space-x-2 mb-4">
-          <div className="p-2 bg-fusion-accent/10 rounded-lg">
-            <TrendingUp className="w-5 h-5 text-fusion-accent" />
-          </div>
-          <h3 className="text-lg font-bold text-white">Weight Progress</h3>
-        </div>
-        
-        <div className="h-48 w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-              <XAxis 
-                dataKey="date" 
-                stroke="#94a3b8" 
-                fontSize={10} 
-                tickLine={false} 
-                axisLine={false}
-                tick={{ dy: 10 }}
-              />
-              <YAxis 
-                hide={false} 
-                stroke="#94a3b8" 
-                fontSize={10} 
-                tickLine={false} 
-                axisLine={false}
-                domain={['dataMin - 2', 'dataMax + 2']}
-                width={30}
-              />
-              <Tooltip 
-                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', borderRadius: '8px', color: '#fff' }}
-                itemStyle={{ color: '#06b6d4' }}
-                labelStyle={{ color: '#94a3b8', marginBottom: '0.5rem' }}
-              />
-              <Line 
-                type="monotone" 
-                dataKey="weight" 
-                stroke="#06b6d4" 
-                strokeWidth={3} 
-                dot={{ r: 4, fill: '#06b6d4', strokeWidth: 2, stroke: '#1e293b' }}
-                activeDot={{ r: 6, fill: '#fff' }}
-              />
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
-      </div>
+      {/* Weight Progress */}
+      <WeightLog user={user} onUpdateProfile={onUpdateProfile} />
+
+      {/* Personal Records */}
+      <PersonalRecordTimeline workouts={workouts} />
 
       {/* Achievements Section */}
       <div>
@@ -360,6 +284,15 @@ const Profile: React.FC<ProfileProps> = ({ user, workouts, onEdit }) => {
           </div>
         </div>
       </div>
+
+      {/* Export & Import */}
+      <DataManager
+        state={{ userProfile: user, workouts, meals, chatMessages, chatThreads, customExercises, waterLogs, programs }}
+        onImport={onImportData}
+      />
+
+      {/* AI Provider */}
+      <AISettings />
     </div>
   );
 };
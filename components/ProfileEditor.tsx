@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { UserProfile, ActivityLevel, FITNESS_GOALS, MacroNutrients } from '../types';
+import { recordWeight } from '../services/weightService';
+import { calculateCalorieGoal, calculateMacroTargets, MACRO_KEYS, MACRO_LABELS } from '../services/nutritionService';
+import { CoreNutrient } from '../services/nutrientService';
+
+interface ProfileEditorProps {
+  user: UserProfile;
+  onSave: (profile: UserProfile) => void;
+  onCancel: () => void;
+}
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onSave, onCancel }) => {
+  const [name, setName] = useState(user.name);
+  const [age, setAge] = useState(user.age.toString());
+  const [height, setHeight] = useState(user.height.toString());
+  const [weight, setWeight] = useState(user.weight.toString());
+  const [goal, setGoal] = useState(user.goal);
+  const [activityLevel, setActivityLevel] = useState(user.activityLevel);
+  // Blank fields follow the calculated target
+  const [overrides, setOverrides] = useState<Record<CoreNutrient, string>>(() => {
+    const o = user.macroOverrides || {};
+    return {
+      calories: o.calories?.toString() ?? '',
+      protein: o.protein?.toString() ?? '',
+      carbs: o.carbs?.toString() ?? '',
+      fat: o.fat?.toString() ?? '',
+    };
+  });
+
+  const isValid = name.trim() && parseInt(age) > 0 && parseFloat(height) > 0 && parseFloat(weight) > 0;
+
+  // Suggestions reflect the edits in progress, including an overridden calorie goal
+  const draft: UserProfile = {
+    ...user,
+    age: parseInt(age) || user.age,
+    height: parseFloat(height) || user.height,
+    weight: parseFloat(weight) || user.weight,
+    goal,
+    activityLevel,
+  };
+  const calculated = calculateMacroTargets(draft, parseInt(overrides.calories) || calculateCalorieGoal(draft));
+
+  const handleSave = () => {
+    if (!isValid) return;
+
+    const macroOverrides: Partial<MacroNutrients> = {};
+    MACRO_KEYS.forEach(key => {
+      const value = parseInt(overrides[key]);
+      if (value > 0) macroOverrides[key] = value;
+    });
+
+    let updated: UserProfile = {
+      ...user,
+      name: name.trim(),
+      age: parseInt(age),
+      height: parseFloat(height),
+      goal,
+      activityLevel,
+      macroOverrides: Object.keys(macroOverrides).length > 0 ? macroOverrides : undefined,
+    };
+
+    // A weight change is a new weigh-in, not a rewrite of history
+    const newWeight = parseFloat(weight);
+    if (newWeight !== user.weight) {
+      updated = recordWeight(updated, newWeight);
+    }
+
+    onSave(updated);
+  };
+
+  const inputClass = "w-full bg-slate-800 rounded-xl px-4 py-3 border border-slate-700 focus:border-fusion-primary outline-none text-white text-sm";
+  const labelClass = "text-xs text-fusion-muted uppercase font-bold tracking-wider";
+
+  return (
+    <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg space-y-4 animate-slide-up">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">Edit Profile</h3>
+        <button onClick={onCancel} className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Name</label>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <label className={labelClass}>Age</label>
+          <input type="number" value={age} onChange={(e) => setAge(e.target.value)} className={inputClass} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Height</label>
+          <input type="number" value={height} onChange={(e) => setHeight(e.target.value)} placeholder="cm" className={inputClass} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Weight</label>
+          <input type="number" step="0.1" value={weight} onChange={(e) => setWeight(e.target.value)} placeholder="kg" className={inputClass} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Primary Goal</label>
+        <select value={goal} onChange={(e) => setGoal(e.target.value)} className={`${inputClass} appearance-none`}>
+          {FITNESS_GOALS.map(g => <option key={g}>{g}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Activity Level</label>
+        <select value={activityLevel} onChange={(e) => setActivityLevel(e.target.value as ActivityLevel)} className={`${inputClass} appearance-none`}>
+          {Object.values(ActivityLevel).map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className={labelClass}>Daily Targets</label>
+          <button
+            onClick={() => setOverrides({ calories: '', protein: '', carbs: '', fat: '' })}
+            className="text-[10px] text-slate-400 hover:text-white"
+          >
+            Reset to calculated
+          </button>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {MACRO_KEYS.map(key => (
+            <div key={key} className="space-y-1">
+              <span className="text-[10px] text-slate-500">{MACRO_LABELS[key]} ({key === 'calories' ? 'kcal' : 'g'})</span>
+              <input
+                type="number"
+                value={overrides[key]}
+                onChange={(e) => setOverrides({ ...overrides, [key]: e.target.value })}
+                placeholder={calculated[key].toString()}
+                className={`${inputClass} px-2`}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">Leave a field blank to use the value calculated from your body weight, goal and activity.</p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={!isValid}
+        className="w-full py-3 rounded-xl bg-fusion-primary text-fusion-dark font-bold hover:bg-lime-400 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        <Check className="w-5 h-5" />
+        Save Changes
+      </button>
+    </div>
+  );
+};
+
+export default ProfileEditor;
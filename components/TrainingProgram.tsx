@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { CalendarDays, Loader2, Play, Sparkles, CheckCircle, X } from 'lucide-react';
+import { AIWorkoutPlan, CatalogExercise, TrainingExperience, TrainingProgram as Program, UserProfile, WorkoutSession } from '../types';
+import { generateProgramTemplate } from '../services/aiService';
+import { getFullCatalog } from '../services/exerciseCatalog';
+import { addDays, dayKeyToDate, formatDayLabel, todayKey } from '../services/dateService';
+import {
+  buildProgram, getActiveProgram, getProgramAdherence, getSessionStatus, sessionToPlan, startOfWeek, suggestExperience, weekdayIndex,
+  EXPERIENCE_LABELS, WEEKDAY_LABELS, MIN_PROGRAM_WEEKS, MAX_PROGRAM_WEEKS, MIN_TRAINING_DAYS, MAX_TRAINING_DAYS, SessionStatus,
+} from '../services/programService';
+
+interface TrainingProgramProps {
+  userProfile: UserProfile;
+  workouts: WorkoutSession[];
+  customExercises: CatalogExercise[];
+  programs: Program[];
+  onProgramsChange: React.Dispatch<React.SetStateAction<Program[]>>;
+  onStartSession: (plan: AIWorkoutPlan) => void;
+}
+
+const STATUS_STYLES: Record<SessionStatus, string> = {
+  completed: 'bg-fusion-primary text-fusion-dark',
+  missed: 'bg-red-500/20 text-red-400',
+  today: 'bg-slate-700 text-white ring-2 ring-fusion-primary',
+  upcoming: 'bg-slate-700 text-slate-300',
+};
+
+// Programs start on a Monday unless it's already Monday today
+const defaultStartDate = (today: string) =>
+  weekdayIndex(today) === 0 ? today : addDays(startOfWeek(today), 7);
+
+const TrainingProgram: React.FC<TrainingProgramProps> = ({
+  userProfile, workouts, customExercises, programs, onProgramsChange, onStartSession,
+}) => {
+  const today = todayKey();
+  const program = getActiveProgram(programs);
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [weeks, setWeeks] = useState(8);
+  const [trainingDays, setTrainingDays] = useState<number[]>([0, 2, 4]);
+  const [experience, setExperience] = useState<TrainingExperience>(() => suggestExperience(userProfile.activityLevel, workouts.length));
+  const [startDate, setStartDate] = useState(() => defaultStartDate(today));
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const validDays = trainingDays.length >= MIN_TRAINING_DAYS && trainingDays.length <= MAX_TRAINING_DAYS;
+
+  const toggleDay = (weekday: number) => {
+    setTrainingDays(trainingDays.includes(weekday)
+      ? trainingDays.filter(d => d !== weekday)
+      : [...trainingDays, weekday].sort((a, b) => a - b));
+  };
+
+  const handleGenerate = async () => {
+    if (!validDays || isGenerating) return;
+    setIsGenerating(true);
+    try {
+      const template = await generateProgramTemplate(
+        userProfile, workouts, { weeks, daysPerWeek: trainingDays.length, experience }, customExercises
+      );
+      const created = buildProgram(
+        template,
+        { weeks, trainingDays, experience, startDate, goal: userProfile.goal },
+        getFullCatalog(customExercises)
+      );
+      // Only one program is followed at a time; starting another ends the current one
+      const now = Date.now();
+      onProgramsChange(prev => [created, ...prev.map(p => p.endedAt ? p : { ...p, endedAt: now })]);
+      setIsCreating(false);
+      setSelectedSessionId(null);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleEnd = () => {
+    if (!program || !window.confirm(`End "${program.name}"? Its history is kept.`)) return;
+    const now = Date.now();
+    onProgramsChange(prev => prev.map(p => p.id === program.id ? { ...p, endedAt: now } : p));
+    setSelectedSessionId(null);
+  };
+
+  if (!program || isCreating) {
+    return (
+      <div className="bg-fusion-card p-5 rounded-2xl border border-slate-700 space-y-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-white font-bold flex items-center gap-2">
+              <CalendarDays className="w-5 h-5 text-fusion-primary" />
+              Training Program
+            </h3>
+            <p className="text-xs text-fusion-muted mt-1">
+              A {MIN_PROGRAM_WEEKS}-{MAX_PROGRAM_WEEKS} week plan for "{userProfile.goal}" with weekly progression and deload weeks.
+            </p>
+          </div>
+          {program && (
+            <button onClick={() => setIsCreating(false)} className="text-slate-500 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div>
+          <label className="text-xs text-slate-400 flex justify-between mb-1">
+            <span>Length</span>
+            <span className="text-white font-bold">{weeks} weeks</span>
+          </label>
+          <input
+            type="range"
+            min={MIN_PROGRAM_WEEKS}
+            max={MAX_PROGRAM_WEEKS}
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value, 10))}
+            className="w-full accent-lime-500"
+          />
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-400 mb-1">Training days ({MIN_TRAINING_DAYS}-{MAX_TRAINING_DAYS})</p>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <button
+                key={label}
+                onClick={() => toggleDay(weekday)}
+                className={`py-2 rounded-lg text-xs font-bold transition ${trainingDays.includes(weekday) ? 'bg-fusion-primary text-fusion-dark' : 'bg-slate-800 text-slate-400 border border-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-400 mb-1">Experience</p>
+          <div className="grid grid-cols-3 gap-1">
+            {(Object.keys(EXPERIENCE_LABELS) as TrainingExperience[]).map(level => (
+              <button
+                key={level}
+                onClick={() => setExperience(level)}
+                className={`py-2 rounded-lg text-xs font-bold transition ${experience === level ? 'bg-fusion-primary text-fusion-dark' : 'bg-slate-800 text-slate-400 border border-slate-700'}`}
+              >
+                {EXPERIENCE_LABELS[level]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-400 mb-1">Start date</p>
+          <input
+            type="date"
+            value={startDate}
+            min={today}
+            onChange={(e) => e.target.value && setStartDate(e.target.value)}
+            className="w-full bg-slate-800 rounded-lg p-2 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none"
+          />
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={!validDays || isGenerating}
+          className="w-full py-3 bg-fusion-primary text-fusion-dark font-bold rounded-xl hover:bg-lime-400 transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Sparkles className="w-5 h-5" />}
+          {isGenerating ? 'Building Program...' : 'Generate Program'}
+        </button>
+      </div>
+    );
+  }
+
+  const adherence = getProgramAdherence(program, workouts, today);
+  const sessionsByDate = new Map(program.sessions.map(s => [s.date, s]));
+  const firstMonday = startOfWeek(program.startDate);
+  const currentWeek = Math.min(program.weeks, Math.max(1, Math.floor(
+    (dayKeyToDate(today).getTime() - dayKeyToDate(firstMonday).getTime()) / (7 * 86400000)
+  ) + 1));
+  const selected = program.sessions.find(s => s.id === selectedSessionId) ?? adherence.nextSession;
+  const selectedStatus = selected ? getSessionStatus(selected, workouts, today) : null;
+
+  return (
+    <div className="bg-fusion-card p-5 rounded-2xl border border-slate-700">
+      <div className="flex justify-between items-start mb-1">
+        <div className="min-w-0">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-fusion-primary flex-shrink-0" />
+            <span className="truncate">{program.name}</span>
+          </h3>
+          <p className="text-[10px] text-fusion-muted mt-0.5">
+            {EXPERIENCE_LABELS[program.experience]} • {program.trainingDays.length} days/week • Week {currentWeek} of {program.weeks}
+          </p>
+        </div>
+      </div>
+      {program.strategy && <p className="text-xs text-slate-400 mb-4">{program.strategy}</p>}
+
+      <div className="mb-4">
+        <div className="flex justify-between text-xs mb-1">
+          <span className="text-slate-400">Adherence</span>
+          <span className="text-white font-bold">
+            {adherence.completed}/{adherence.due} sessions{adherence.rate !== null ? ` • ${adherence.rate}%` : ''}
+          </span>
+        </div>
+        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-fusion-primary transition-all" style={{ width: `${adherence.rate ?? 0}%` }}></div>
+        </div>
+        {adherence.missed > 0 && <p className="text-[10px] text-red-400 mt-1">{adherence.missed} missed</p>}
+      </div>
+
+      <div className="space-y-1 mb-4">
+        <div className="grid grid-cols-8 gap-1 text-[9px] text-slate-500 text-center uppercase">
+          <span></span>
+          {WEEKDAY_LABELS.map(label => <span key={label}>{label.slice(0, 2)}</span>)}
+        </div>
+        {Array.from({ length: program.weeks }, (_, i) => {
+          const week = i + 1;
+          const deload = program.sessions.some(s => s.week === week && s.deload);
+          return (
+            <div key={week} className="grid grid-cols-8 gap-1">
+              <span className={`text-[9px] flex items-center justify-center font-bold ${deload ? 'text-fusion-accent' : week === currentWeek ? 'text-white' : 'text-slate-500'}`}>
+                {deload ? 'DL' : `W${week}`}
+              </span>
+              {WEEKDAY_LABELS.map((label, weekday) => {
+                const date = addDays(firstMonday, i * 7 + weekday);
+                const session = sessionsByDate.get(date);
+                const dayNumber = dayKeyToDate(date).getDate();
+                if (!session) {
+                  return <span key={label} className="h-7 flex items-center justify-center text-[10px] text-slate-700">{dayNumber}</span>;
+                }
+                const status = getSessionStatus(session, workouts, today);
+                return (
+                  <button
+                    key={label}
+                    onClick={() => setSelectedSessionId(session.id)}
+                    title={`${session.name} • ${formatDayLabel(date)}`}
+                    className={`h-7 rounded-md text-[10px] font-bold transition ${STATUS_STYLES[status]} ${selected?.id === session.id ? 'outline outline-2 outline-white' : ''}`}
+                  >
+                    {status === 'completed' ? <CheckCircle className="w-3.5 h-3.5 mx-auto" /> : dayNumber}
+                  </button>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="p-3 bg-slate-800/50 rounded-xl border border-slate-700 mb-4">
+          <div className="flex justify-between items-start mb-2">
+            <div>
+              <p className="text-sm font-bold text-white">{selected.name}</p>
+              <p className="text-[10px] text-fusion-muted">
+                {formatDayLabel(selected.date)} • Week {selected.week}
+                {selectedStatus === 'completed' && ' • Done'}
+                {selectedStatus === 'missed' && ' • Missed'}
+              </p>
+            </div>
+            <button
+              onClick={() => onStartSession(sessionToPlan(selected, program))}
+              className="px-3 py-1.5 rounded-lg bg-fusion-primary text-fusion-dark text-xs font-bold hover:bg-lime-400 transition flex items-center gap-1"
+            >
+              <Play className="w-3.5 h-3.5" />
+              Start
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {selected.exercises.map((ex, index) => (
+              <li key={index} className="flex justify-between text-xs">
+                <span className="text-slate-300">{ex.name}</span>
+                <span className="text-slate-400 font-mono">{ex.sets}x{ex.reps}{ex.weight ? ` @ ${ex.weight}kg` : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setIsCreating(true)}
+          className="flex-1 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold border border-slate-700 hover:text-white transition"
+        >
+          New Program
+        </button>
+        <button
+          onClick={handleEnd}
+          className="flex-1 py-2 rounded-lg bg-slate-800 text-red-400 text-xs font-bold border border-slate-700 hover:bg-red-500/10 transition"
+        >
+          End Program
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TrainingProgram;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, Plus, Edit2, Trash2, Check, X, Scale } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { UserProfile, WeightEntry } from '../types';
+import { todayKey } from '../services/dateService';
+import { addWeightEntry, updateWeightEntry, deleteWeightEntry, computeWeightTrend, sortWeightHistory } from '../services/weightService';
+
+interface WeightLogProps {
+  user: UserProfile;
+  onUpdateProfile: (profile: UserProfile) => void;
+}
+
+const emptyForm = () => ({
+  date: todayKey(),
+  time: '',
+  weight: '',
+  note: '',
+});
+
+const WeightLog: React.FC<WeightLogProps> = ({ user, onUpdateProfile }) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm());
+
+  const history = user.weightHistory || [];
+  const { points, weeklyRate, totalChange } = computeWeightTrend(history);
+  const recentEntries = sortWeightHistory(history).reverse();
+
+  const openAddForm = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm(), weight: user.weight.toString() });
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (entry: WeightEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      date: entry.date,
+      time: entry.time || '',
+      weight: entry.weight.toString(),
+      note: entry.note || '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const handleSave = () => {
+    const weight = parseFloat(form.weight);
+    if (!form.date || !(weight > 0)) return;
+
+    const entry = {
+      date: form.date,
+      weight,
+      time: form.time || undefined,
+      note: form.note.trim() || undefined,
+    };
+    onUpdateProfile(editingId ? updateWeightEntry(user, { ...entry, id: editingId }) : addWeightEntry(user, entry));
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm("Delete this weigh-in?")) return;
+    onUpdateProfile(deleteWeightEntry(user, id));
+    if (editingId === id) closeForm();
+  };
+
+  const formatChange = (value: number | null, suffix: string) =>
+    value === null ? '--' : `${value > 0 ? '+' : ''}${value}${suffix}`;
+
+  const inputClass = "bg-slate-900 rounded-lg p-2.5 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full";
+
+  return (
+    <div className="bg-fusion-card p-6 rounded-3xl border border-slate-700 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <div className="p-2 bg-fusion-accent/10 rounded-lg">
+            <TrendingUp className="w-5 h-5 text-fusion-accent" />
+          </div>
+          <h3 className="text-lg font-bold text-white">Weight Progress</h3>
+        </div>
+        <button
+          onClick={openAddForm}
+          className="p-2 bg-fusion-accent/20 rounded-full text-fusion-accent hover:bg-fusion-accent/30 transition"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Trend Summary */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-700/50">
+          <p className="text-[10px] text-slate-400 uppercase">Weekly Rate</p>
+          <p className="text-lg font-bold text-white flex items-center gap-1">
+            {weeklyRate !== null && (weeklyRate <= 0
+              ? <TrendingDown className="w-4 h-4 text-green-400" />
+              : <TrendingUp className="w-4 h-4 text-orange-400" />)}
+            {formatChange(weeklyRate, ' kg/wk')}
+          </p>
+        </div>
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-700/50">
+          <p className="text-[10px] text-slate-400 uppercase">Since Start</p>
+          <p className="text-lg font-bold text-white">{formatChange(totalChange, ' kg')}</p>
+        </div>
+      </div>
+
+      {points.length > 1 ? (
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis
+                dataKey="label"
+                stroke="#94a3b8"
+                fontSize={10}
+                tickLine={false}
+                axisLine={false}
+                tick={{ dy: 10 }}
+              />
+              <YAxis
+                stroke="#94a3b8"
+                fontSize={10}
+                tickLine={false}
+                axisLine={false}
+                domain={['dataMin - 2', 'dataMax + 2']}
+                width={30}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', borderRadius: '8px', color: '#fff' }}
+                labelStyle={{ color: '#94a3b8', marginBottom: '0.5rem' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Line
+                name="Weigh-in"
+                type="monotone"
+                dataKey="weight"
+                stroke="#06b6d4"
+                strokeOpacity={0}
+                dot={{ r: 3, fill: '#06b6d4', strokeWidth: 1, stroke: '#1e293b' }}
+                activeDot={{ r: 5, fill: '#fff' }}
+              />
+              <Line
+                name="Trend"
+                type="monotone"
+                dataKey="trend"
+                stroke="#84cc16"
+                strokeWidth={3}
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-6 text-center border-2 border-dashed border-slate-800 rounded-2xl">
+          <Scale className="w-6 h-6 text-slate-600 mb-2" />
+          <p className="text-fusion-muted text-xs">Log at least two weigh-ins to see your trend.</p>
+        </div>
+      )}
+
+      {/* Add / Edit Form */}
+      {isFormOpen && (
+        <div className="mt-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700/50 space-y-3 animate-slide-up">
+          <p className="text-sm text-white font-semibold">{editingId ? 'Edit Weigh-in' : 'New Weigh-in'}</p>
+          <div className="grid grid-cols-3 gap-2">
+            <input type="date" className={inputClass} value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+            <input type="time" className={inputClass} value={form.time} onChange={(e) => setForm({ ...form, time: e.target.value })} />
+            <input type="number" step="0.1" placeholder="kg" className={inputClass} value={form.weight} onChange={(e) => setForm({ ...form, weight: e.target.value })} />
+          </div>
+          <input type="text" placeholder="Note (optional)" className={inputClass} value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} />
+          <div className="flex gap-2">
+            <button onClick={closeForm} className="flex-1 py-2 rounded-lg bg-slate-700 text-white text-sm font-semibold hover:bg-slate-600 transition flex items-center justify-center gap-1">
+              <X className="w-4 h-4" /> Cancel
+            </button>
+            <button onClick={handleSave} className="flex-[2] py-2 rounded-lg bg-fusion-primary text-fusion-dark text-sm font-bold hover:bg-lime-400 transition flex items-center justify-center gap-1">
+              <Check className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Weigh-in History */}
+      {recentEntries.length > 0 && (
+        <div className="mt-4 space-y-2 max-h-60 overflow-y-auto scrollbar-hide">
+          {recentEntries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between text-sm border-b border-slate-800/50 pb-2 last:border-0">
+              <div>
+                <p className="text-white font-medium">{entry.weight} kg</p>
+                <p className="text-[10px] text-slate-500">
+                  {new Date(`${entry.date}T00:00`).toLocaleDateString()}{entry.time && ` • ${entry.time}`}
+                  {entry.note && ` • ${entry.note}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => openEditForm(entry)} className="p-1.5 text-slate-500 hover:text-white transition">
+                  <Edit2 className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(entry.id)} className="p-1.5 text-slate-500 hover:text-red-400 transition">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeightLog;
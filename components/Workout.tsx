@@ -1,16 +1,34 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Trash2, CheckCircle, Circle, Dumbbell, Share2, Target, Trophy, Play, Pause, Timer as TimerIcon, Sparkles, Loader2 } from 'lucide-react';
-import { WorkoutSession, Exercise, UserProfile } from '../types';
-import { generateWorkoutPlan } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Trash2, CheckCircle, Circle, Dumbbell, Share2, Target, Trophy, Play, Pause, Timer as TimerIcon, Sparkles, Loader2, X } from 'lucide-react';
+import { AIWorkoutPlan, TrainingProgram as Program, WorkoutSession, Exercise, ExerciseSet, SetType, UserProfile, CatalogExercise, MuscleGroup, Equipment, MovementPattern } from '../types';
+import { generateWorkoutPlan } from '../services/aiService';
+import { createSet, createSets, isExerciseComplete, exerciseVolume, exerciseKey, getExerciseHistory, formatSets, SET_TYPE_LABELS } from '../services/workoutService';
+import { detectPersonalRecords, formatPersonalRecord, PR_LABELS } from '../services/personalRecordService';
+import { estimateWorkoutCalories, CALORIE_METHOD_LABELS } from '../services/energyService';
+import { WEARABLE_ADAPTERS } from '../services/wearableService';
+import {
+  getFullCatalog, getCatalogExercise, searchCatalog, findCatalogMatch, createCustomExercise,
+  MUSCLE_GROUPS, EQUIPMENT, MOVEMENT_PATTERNS,
+} from '../services/exerciseCatalog';
+import TrainingProgram from './TrainingProgram';
 
 interface WorkoutProps {
   onAddWorkout: (workout: WorkoutSession) => void;
   onUpdateWorkout: (workout: WorkoutSession) => void;
   workouts: WorkoutSession[];
   userProfile: UserProfile;
+  customExercises: CatalogExercise[];
+  onAddCustomExercise: (exercise: CatalogExercise) => void;
+  initialPlan?: AIWorkoutPlan | null; // Generated elsewhere (e.g. by the coach) and opened on arrival
+  onPlanStarted?: () => void;
+  programs: Program[];
+  onProgramsChange: React.Dispatch<React.SetStateAction<Program[]>>;
 }
 
-const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workouts, userProfile }) => {
+const Workout: React.FC<WorkoutProps> = ({
+  onAddWorkout, onUpdateWorkout, workouts, userProfile, customExercises, onAddCustomExercise, initialPlan, onPlanStarted,
+  programs, onProgramsChange,
+}) => {
   const [isLogging, setIsLogging] = useState(false);
   const [currentSessionName, setCurrentSessionName] = useState('');
   const [currentGoal, setCurrentGoal] = useState('');
@@ -20,6 +38,8 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
   // AI Generation State
   const [isGenerating, setIsGenerating] = useState(false);
   const [aiStrategy, setAiStrategy] = useState<string | null>(null);
+  // Set while logging a scheduled session of a training program
+  const [programSessionId, setProgramSessionId] = useState<string | undefined>(undefined);
   
   // Timer State
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -30,6 +50,27 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
   const [exSets, setExSets] = useState('');
   const [exReps, setExReps] = useState('');
   const [exWeight, setExWeight] = useState('');
+  const [exCatalogId, setExCatalogId] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  // Custom exercise form state
+  const [isCreatingCustom, setIsCreatingCustom] = useState(false);
+  const [customMuscle, setCustomMuscle] = useState<MuscleGroup>('Chest');
+  const [customEquipment, setCustomEquipment] = useState<Equipment>('Barbell');
+  const [customPattern, setCustomPattern] = useState<MovementPattern>('Isolation');
+
+  const catalog = getFullCatalog(customExercises);
+  const suggestions = showSuggestions && !exCatalogId ? searchCatalog(exName, catalog) : [];
+  const hasExactMatch = !!findCatalogMatch(exName, catalog);
+
+  // Heart-rate samples from a connected wearable while the session is logging
+  const heartRateSamples = useRef<number[]>([]);
+
+  useEffect(() => {
+    const device = WEARABLE_ADAPTERS.find(a => a.isConnected());
+    if (!isLogging || !isTimerRunning || !device) return;
+    return device.streamHeartRate(bpm => heartRateSamples.current.push(bpm));
+  }, [isLogging, isTimerRunning]);
 
   useEffect(() => {
     let interval: any;
@@ -44,35 +85,45 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
   const startLogging = () => {
     setIsLogging(true);
     setElapsedSeconds(0);
+    heartRateSamples.current = [];
     setIsTimerRunning(true);
     setCurrentSessionName('');
     setCurrentGoal('');
     setGoalAchieved(false);
     setCurrentExercises([]);
     setAiStrategy(null);
+    setProgramSessionId(undefined);
+  };
+
+  const startPlan = (plan: AIWorkoutPlan) => {
+    startLogging(); // Switch to view
+
+    setCurrentSessionName(plan.workoutName);
+    setAiStrategy(plan.strategy);
+    setProgramSessionId(plan.programSessionId);
+
+    // Map AI exercises to App Exercise type
+    const mappedExercises: Exercise[] = plan.exercises.map((ex) => ({
+      id: Date.now().toString() + Math.random().toString(),
+      name: ex.name,
+      catalogId: ex.catalogId,
+      sets: createSets(ex.sets, ex.reps, ex.weightSuggestion)
+    }));
+
+    setCurrentExercises(mappedExercises);
   };
 
+  useEffect(() => {
+    if (!initialPlan) return;
+    startPlan(initialPlan);
+    onPlanStarted?.();
+  }, [initialPlan]);
+
   const handleGenerateWorkout = async () => {
     setIsGenerating(true);
     try {
-      const plan = await generateWorkoutPlan(userProfile, workouts);
-      
-      startLogging(); // Switch to view
-      
-      setCurrentSessionName(plan.workoutName);
-      setAiStrategy(plan.strategy);
-      
-      // Map AI exercises to App Exercise type
-      const mappedExercises: Exercise[] = plan.exercises.map((ex) => ({
-        id: Date.now().toString() + Math.random().toString(),
-        name: ex.name,
-        sets: ex.sets,
-        reps: ex.reps,
-        weight: ex.weightSuggestion,
-        completed: false
-      }));
-      
-      setCurrentExercises(mappedExercises);
+      const plan = await generateWorkoutPlan(userProfile, workouts, customExercises);
+      startPlan(plan);
     } catch (error) {
       console.error("Failed to generate plan", error);
       alert("Could not generate plan. Please try again.");
@@ -95,13 +146,14 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
   const addExercise = () => {
     if (!exName || !exSets || !exReps) return;
     
+    // Typed names still link to the catalog when they match a name or alias
+    const catalogEntry = getCatalogExercise(exCatalogId ?? undefined, catalog) ?? findCatalogMatch(exName, catalog);
+
     const newExercise: Exercise = {
       id: Date.now().toString(),
-      name: exName,
-      sets: parseInt(exSets),
-      reps: parseInt(exReps),
-      weight: parseInt(exWeight) || 0,
-      completed: false
+      name: catalogEntry?.name ?? exName.trim(),
+      catalogId: catalogEntry?.id,
+      sets: createSets(Math.max(1, parseInt(exSets)), parseInt(exReps), parseFloat(exWeight) || 0)
     };
 
     setCurrentExercises([...currentExercises, newExercise]);
@@ -109,15 +161,34 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
     setExSets('');
     setExReps('');
     setExWeight('');
+    setExCatalogId(null);
+    setIsCreatingCustom(false);
+  };
+
+  const selectCatalogExercise = (entry: CatalogExercise) => {
+    setExName(entry.name);
+    setExCatalogId(entry.id);
+    setShowSuggestions(false);
+    setIsCreatingCustom(false);
+  };
+
+  const saveCustomExercise = () => {
+    if (!exName.trim()) return;
+    const entry = createCustomExercise(exName, customMuscle, customEquipment, customPattern);
+    onAddCustomExercise(entry);
+    selectCatalogExercise(entry);
   };
 
+  // Most recent logged sets for the same exercise, shown as a target to beat
+  const lastPerformance = (exercise: Exercise) =>
+    getExerciseHistory(workouts, exerciseKey(exercise))[0]?.exercise.sets;
+
   const finishSession = () => {
     if (!currentSessionName || currentExercises.length === 0) return;
 
     // Calculate actual duration, minimum 1 minute
     const durationMinutes = Math.max(1, Math.ceil(elapsedSeconds / 60));
-    // Simple mock calorie calculation based on duration and intensity (exercises count)
-    const calculatedCalories = Math.floor(durationMinutes * 5 + (currentExercises.length * 20));
+    const energy = estimateWorkoutCalories(currentExercises, durationMinutes, userProfile, catalog, heartRateSamples.current);
 
     const newSession: WorkoutSession = {
       id: Date.now().toString(),
@@ -125,10 +196,14 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
       name: currentSessionName,
       exercises: currentExercises,
       durationMinutes: durationMinutes,
-      caloriesBurned: calculatedCalories,
+      caloriesBurned: energy.calories,
+      caloriesMethod: energy.method,
+      averageHeartRate: energy.averageHeartRate,
       goal: currentGoal,
-      goalAchieved: goalAchieved
+      goalAchieved: goalAchieved,
+      programSessionId,
     };
+    newSession.personalRecords = detectPersonalRecords(newSession, workouts);
 
     onAddWorkout(newSession);
     setIsLogging(false);
@@ -138,14 +213,52 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
     setGoalAchieved(false);
     setCurrentExercises([]);
     setAiStrategy(null);
+    setProgramSessionId(undefined);
   };
 
-  const toggleExerciseComplete = (id: string) => {
-    setCurrentExercises(currentExercises.map(e => 
-      e.id === id ? { ...e, completed: !e.completed } : e
+  const updateExerciseSets = (exerciseId: string, update: (sets: ExerciseSet[]) => ExerciseSet[]) => {
+    setCurrentExercises(currentExercises.map(e =>
+      e.id === exerciseId ? { ...e, sets: update(e.sets) } : e
     ));
   };
 
+  const updateSet = (exerciseId: string, setId: string, changes: Partial<ExerciseSet>) => {
+    updateExerciseSets(exerciseId, sets => sets.map(s => s.id === setId ? { ...s, ...changes } : s));
+  };
+
+  // Cycles warm-up -> working -> drop set
+  const cycleSetType = (exerciseId: string, set: ExerciseSet) => {
+    const order: SetType[] = ['warmup', 'working', 'drop'];
+    updateSet(exerciseId, set.id, { type: order[(order.indexOf(set.type) + 1) % order.length] });
+  };
+
+  const addSet = (exercise: Exercise) => {
+    // New sets start from the previous set's numbers
+    const last = exercise.sets[exercise.sets.length - 1];
+    updateExerciseSets(exercise.id, sets => [...sets, createSet(last?.reps || 0, last?.weight || 0, last?.type === 'warmup' ? 'working' : last?.type)]);
+  };
+
+  const removeSet = (exerciseId: string, setId: string) => {
+    updateExerciseSets(exerciseId, sets => sets.filter(s => s.id !== setId));
+  };
+
+  const removeExercise = (exerciseId: string) => {
+    setCurrentExercises(currentExercises.filter(e => e.id !== exerciseId));
+  };
+
+  const toggleExerciseComplete = (exercise: Exercise) => {
+    const completed = !isExerciseComplete(exercise);
+    updateExerciseSets(exercise.id, sets => sets.map(s => ({ ...s, completed })));
+  };
+
+  const parseNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  const topSetWeight = (exercise: Exercise) =>
+    Math.max(0, ...exercise.sets.map(s => s.weight));
+
   const toggleGoalAchieved = (w: WorkoutSession) => {
     onUpdateWorkout({ ...w, goalAchieved: !w.goalAchieved });
   };
@@ -157,6 +270,10 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
       shareText += `\n🎯 Goal: ${w.goal} ${w.goalAchieved ? '✅ (ACHIEVED!)' : ''}`;
     }
     
+    if (w.personalRecords?.length) {
+      shareText += `\n🏆 ${w.personalRecords.length} new personal record${w.personalRecords.length > 1 ? 's' : ''}!`;
+    }
+    
     shareText += `\n\nCan you beat my score? #FitnessFusion`;
     
     try {
@@ -241,17 +358,99 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
           </div>
 
           <div className="space-y-3">
-            {currentExercises.map((ex) => (
-              <div key={ex.id} className="bg-fusion-card p-4 rounded-xl flex items-center justify-between border border-slate-800">
-                <div onClick={() => toggleExerciseComplete(ex.id)} className="cursor-pointer flex items-center space-x-3">
-                  {ex.completed ? <CheckCircle className="text-fusion-primary w-6 h-6" /> : <Circle className="text-slate-600 w-6 h-6" />}
-                  <div>
-                    <p className={`font-semibold ${ex.completed ? 'text-slate-500 line-through' : 'text-white'}`}>{ex.name}</p>
-                    <p className="text-xs text-fusion-muted">{ex.sets} sets x {ex.reps} reps {ex.weight > 0 && `@ ${ex.weight}kg`}</p>
+            {currentExercises.map((ex) => {
+              const isComplete = isExerciseComplete(ex);
+              let workingSetNumber = 0;
+              return (
+                <div key={ex.id} className="bg-fusion-card p-4 rounded-xl border border-slate-800">
+                  <div className="flex items-center justify-between mb-3">
+                    <div onClick={() => toggleExerciseComplete(ex)} className="cursor-pointer flex items-center space-x-3">
+                      {isComplete ? <CheckCircle className="text-fusion-primary w-6 h-6" /> : <Circle className="text-slate-600 w-6 h-6" />}
+                      <div>
+                        <p className={`font-semibold ${isComplete ? 'text-slate-500 line-through' : 'text-white'}`}>{ex.name}</p>
+                        <p className="text-xs text-fusion-muted">
+                          {ex.sets.filter(s => s.completed).length}/{ex.sets.length} sets • {exerciseVolume(ex)}kg volume
+                        </p>
+                        {lastPerformance(ex) && (
+                          <p className="text-[10px] text-slate-500">Last time: {formatSets(lastPerformance(ex)!)}</p>
+                        )}
+                      </div>
+                    </div>
+                    <button onClick={() => removeExercise(ex.id)} className="p-1.5 text-slate-600 hover:text-red-400 transition">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                   </div>
+
+                  {/* Set Rows */}
+                  <div className="grid grid-cols-[2.5rem_1fr_1fr_1fr_2rem_1.5rem] gap-2 items-center text-[10px] text-slate-500 uppercase mb-1 px-1">
+                    <span>Set</span>
+                    <span>kg</span>
+                    <span>Reps</span>
+                    <span>RPE</span>
+                    <span></span>
+                    <span></span>
+                  </div>
+                  <div className="space-y-1.5">
+                    {ex.sets.map((set) => {
+                      if (set.type === 'working') workingSetNumber++;
+                      const setLabel = set.type === 'warmup' ? 'W' : set.type === 'drop' ? 'D' : workingSetNumber.toString();
+                      return (
+                        <div
+                          key={set.id}
+                          className={`grid grid-cols-[2.5rem_1fr_1fr_1fr_2rem_1.5rem] gap-2 items-center rounded-lg px-1 py-0.5 ${set.completed ? 'bg-fusion-primary/10' : ''}`}
+                        >
+                          <button
+                            onClick={() => cycleSetType(ex.id, set)}
+                            title={SET_TYPE_LABELS[set.type]}
+                            className={`h-7 rounded-md text-xs font-bold ${
+                              set.type === 'warmup' ? 'bg-yellow-500/20 text-yellow-400'
+                              : set.type === 'drop' ? 'bg-purple-500/20 text-purple-400'
+                              : 'bg-slate-800 text-slate-300'
+                            }`}
+                          >
+                            {setLabel}
+                          </button>
+                          <input
+                            type="number"
+                            className="bg-slate-900 rounded-md px-2 py-1 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full"
+                            value={set.weight}
+                            onChange={(e) => updateSet(ex.id, set.id, { weight: parseNumber(e.target.value) })}
+                          />
+                          <input
+                            type="number"
+                            className="bg-slate-900 rounded-md px-2 py-1 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full"
+                            value={set.reps}
+                            onChange={(e) => updateSet(ex.id, set.id, { reps: parseNumber(e.target.value) })}
+                          />
+                          <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            step={0.5}
+                            placeholder="-"
+                            className="bg-slate-900 rounded-md px-2 py-1 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none w-full placeholder-slate-600"
+                            value={set.rpe ?? ''}
+                            onChange={(e) => updateSet(ex.id, set.id, { rpe: e.target.value ? Math.min(10, Math.max(1, parseNumber(e.target.value))) : undefined })}
+                          />
+                          <button onClick={() => updateSet(ex.id, set.id, { completed: !set.completed })} className="flex justify-center">
+                            {set.completed ? <CheckCircle className="text-fusion-primary w-5 h-5" /> : <Circle className="text-slate-600 w-5 h-5" />}
+                          </button>
+                          <button onClick={() => removeSet(ex.id, set.id)} className="flex justify-center text-slate-600 hover:text-red-400">
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <button
+                    onClick={() => addSet(ex)}
+                    className="w-full mt-2 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-medium transition flex items-center justify-center gap-1"
+                  >
+                    <Plus className="w-3 h-3" /> Add Set
+                  </button>
                 </div>
-              </div>
-            ))}
+              );
+            })}
             
             {currentExercises.length === 0 && (
               <div className="text-center py-8 text-slate-600 italic text-sm">
@@ -263,14 +462,80 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
           {/* Add Exercise Form */}
           <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 mt-4">
             <p className="text-sm text-white font-semibold mb-3">Add Exercise</p>
-            <div className="grid grid-cols-1 gap-3 mb-3">
+            <div className="relative mb-3">
               <input 
-                className="bg-slate-900 rounded-lg p-3 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none" 
+                className="w-full bg-slate-900 rounded-lg p-3 text-white text-sm border border-slate-700 focus:border-fusion-primary outline-none" 
                 placeholder="Exercise Name"
                 value={exName}
-                onChange={(e) => setExName(e.target.value)}
+                onChange={(e) => {
+                  setExName(e.target.value);
+                  setExCatalogId(null);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
               />
+              {exCatalogId && (
+                <span className="absolute right-3 top-3.5 text-[10px] text-fusion-primary font-bold uppercase">
+                  {getCatalogExercise(exCatalogId, catalog)?.custom ? 'Custom' : 'Catalog'}
+                </span>
+              )}
+
+              {/* Autocomplete */}
+              {showSuggestions && exName.trim() && !exCatalogId && (
+                <div className="absolute left-0 right-0 top-full mt-1 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-20 overflow-hidden">
+                  {suggestions.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => selectCatalogExercise(entry)}
+                      className="w-full text-left px-3 py-2 hover:bg-slate-800 transition border-b border-slate-800 last:border-0"
+                    >
+                      <p className="text-sm text-white">{entry.name}</p>
+                      <p className="text-[10px] text-slate-500">
+                        {entry.primaryMuscles.join(', ')} • {entry.equipment}{entry.custom && ' • Custom'}
+                      </p>
+                    </button>
+                  ))}
+                  {!hasExactMatch && (
+                    <button
+                      onClick={() => {
+                        setIsCreatingCustom(true);
+                        setShowSuggestions(false);
+                      }}
+                      className="w-full text-left px-3 py-2 hover:bg-slate-800 transition text-sm text-fusion-primary flex items-center gap-2"
+                    >
+                      <Plus className="w-3 h-3" /> Create "{exName.trim()}" as custom exercise
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
+
+            {/* Custom Exercise Details */}
+            {isCreatingCustom && (
+              <div className="mb-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700 space-y-2 animate-slide-up">
+                <p className="text-xs text-slate-400">New custom exercise: <span className="text-white font-medium">{exName.trim()}</span></p>
+                <div className="grid grid-cols-3 gap-2">
+                  <select value={customMuscle} onChange={(e) => setCustomMuscle(e.target.value as MuscleGroup)} className="bg-slate-900 rounded-md p-2 text-white text-xs border border-slate-700 outline-none">
+                    {MUSCLE_GROUPS.map(m => <option key={m}>{m}</option>)}
+                  </select>
+                  <select value={customEquipment} onChange={(e) => setCustomEquipment(e.target.value as Equipment)} className="bg-slate-900 rounded-md p-2 text-white text-xs border border-slate-700 outline-none">
+                    {EQUIPMENT.map(eq => <option key={eq}>{eq}</option>)}
+                  </select>
+                  <select value={customPattern} onChange={(e) => setCustomPattern(e.target.value as MovementPattern)} className="bg-slate-900 rounded-md p-2 text-white text-xs border border-slate-700 outline-none">
+                    {MOVEMENT_PATTERNS.map(p => <option key={p}>{p}</option>)}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => setIsCreatingCustom(false)} className="flex-1 py-1.5 rounded-md bg-slate-700 text-white text-xs font-semibold hover:bg-slate-600 transition">
+                    Cancel
+                  </button>
+                  <button onClick={saveCustomExercise} className="flex-[2] py-1.5 rounded-md bg-fusion-primary text-fusion-dark text-xs font-bold hover:bg-lime-400 transition">
+                    Save Exercise
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-3 gap-3 mb-4">
               <input 
                 type="number" 
@@ -371,6 +636,15 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
         </div>
       </div>
 
+      <TrainingProgram
+        userProfile={userProfile}
+        workouts={workouts}
+        customExercises={customExercises}
+        programs={programs}
+        onProgramsChange={onProgramsChange}
+        onStartSession={startPlan}
+      />
+
       {workouts.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-40 text-center p-6 border-2 border-dashed border-slate-800 rounded-3xl">
           <div className="w-12 h-12 bg-slate-800 rounded-full flex items-center justify-center mb-3">
@@ -387,8 +661,15 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
                   <h3 className="text-lg font-bold text-white">{w.name}</h3>
                   <p className="text-xs text-fusion-muted">{new Date(w.date).toLocaleDateString()} • {w.durationMinutes} min</p>
                 </div>
-                <div className="bg-fusion-primary/10 px-3 py-1 rounded-full">
-                  <span className="text-fusion-primary text-xs font-bold">{w.caloriesBurned} kcal</span>
+                <div className="text-right">
+                  <div className="bg-fusion-primary/10 px-3 py-1 rounded-full">
+                    <span className="text-fusion-primary text-xs font-bold">{w.caloriesBurned} kcal</span>
+                  </div>
+                  {w.caloriesMethod && (
+                    <p className="text-[9px] text-slate-500 mt-1">
+                      {CALORIE_METHOD_LABELS[w.caloriesMethod]}{w.averageHeartRate && ` • ${w.averageHeartRate} bpm avg`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -411,12 +692,30 @@ const Workout: React.FC<WorkoutProps> = ({ onAddWorkout, onUpdateWorkout, workou
                 </div>
               )}
               
+              {/* Personal Records */}
+              {w.personalRecords && w.personalRecords.length > 0 && (
+                <div className="mb-4 p-3 rounded-xl bg-gradient-to-r from-yellow-500/15 to-orange-500/10 border border-yellow-500/30">
+                  <p className="text-xs font-bold text-yellow-400 uppercase flex items-center gap-1.5 mb-2">
+                    <Trophy className="w-3.5 h-3.5" />
+                    {w.personalRecords.length} New PR{w.personalRecords.length > 1 ? 's' : ''}!
+                  </p>
+                  <div className="space-y-1">
+                    {w.personalRecords.map(pr => (
+                      <div key={pr.id} className="flex justify-between text-xs">
+                        <span className="text-slate-300">{pr.exerciseName} <span className="text-slate-500">• {PR_LABELS[pr.type]}</span></span>
+                        <span className="text-white font-semibold">{formatPersonalRecord(pr)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Exercises Summary (just first 3) */}
                <div className="space-y-2 mb-4">
                  {w.exercises.slice(0, 3).map((e) => (
                    <div key={e.id} className="flex justify-between text-sm text-slate-400 border-b border-slate-800/50 pb-1 last:border-0">
-                      <span>{e.sets}x {e.name}</span>
-                      <span>{e.weight > 0 ? `${e.weight}kg` : 'BW'}</span>
+                      <span>{e.sets.length}x {e.name}</span>
+                      <span>{topSetWeight(e) > 0 ? `${topSetWeight(e)}kg` : 'BW'}</span>
                    </div>
                  ))}
                  {w.exercises.length > 3 && (
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonResponse } from './aiProvider';
+
+describe('parseJsonResponse', () => {
+  it('reads plain JSON', () => {
+    expect(parseJsonResponse('{"calories": 420}')).toEqual({ calories: 420 });
+  });
+
+  it('unwraps a markdown fence and surrounding prose', () => {
+    const text = 'Here is the plan:\n```json\n{"exercises": [{"name": "Squat"}]}\n```\nEnjoy!';
+    expect(parseJsonResponse(text)).toEqual({ exercises: [{ name: 'Squat' }] });
+  });
+
+  it('reads a top-level array', () => {
+    expect(parseJsonResponse('Sure! [1, 2, 3]')).toEqual([1, 2, 3]);
+  });
+
+  it('fails when there is no JSON', () => {
+    expect(() => parseJsonResponse('Sorry, I cannot help with that.')).toThrow('did not contain JSON');
+  });
+});
@@ -0,0 +1,171 @@
+// AI backends.
+// aiService builds the prompts and talks to whichever provider is active through
+// this interface, so the app can run against Gemini, a self-hosted model or a
+// deterministic mock without changes to the features that use it.
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Provider-neutral subset of JSON Schema used for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface AIImage {
+  data: string; // base64, without the data: URL prefix
+  mimeType: string;
+}
+
+export interface AIChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface AITextRequest {
+  prompt: string;
+  system?: string;
+}
+
+export interface AIStructuredRequest extends AITextRequest {
+  // Identifies the task, e.g. "foodImage"; lets the mock return realistic fixtures
+  task: string;
+  schema: JsonSchema;
+  image?: AIImage;
+}
+
+// A function the chat model may ask the app to run
+export interface AIToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface AIToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface AIChatResult {
+  text: string;
+  toolCalls: AIToolCall[];
+}
+
+export interface AIChatRequest {
+  system: string;
+  history: AIChatTurn[]; // Oldest first, ending with the user's message
+  tools?: AIToolDeclaration[];
+  // Called with the full reply so far each time more of it streams in
+  onText?: (textSoFar: string) => void;
+  // Aborting stops the stream; the call then rejects
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  model: string;
+  generateText: (request: AITextRequest) => Promise<string>;
+  // Resolves to the parsed JSON object matching request.schema
+  generateStructured: <T>(request: AIStructuredRequest) => Promise<T>;
+  // Streams the reply through request.onText and resolves to the complete text,
+  // plus any tool calls the model made. Tools are never run by the provider.
+  chat: (request: AIChatRequest) => Promise<AIChatResult>;
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  // Only used by the OpenAI-compatible provider
+  baseUrl: string;
+  apiKey: string;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, { name: string; defaultModel: string; description: string }> = {
+  gemini: {
+    name: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    description: 'Cloud model. Uses the API key the app was built with.',
+  },
+  'openai-compatible': {
+    name: 'Local (OpenAI-compatible)',
+    defaultModel: 'llama3.2-vision',
+    description: 'Self-hosted server such as Ollama or llama.cpp exposing /v1/chat/completions.',
+  },
+  mock: {
+    name: 'Offline mock',
+    defaultModel: 'mock',
+    description: 'Canned, deterministic responses. Works offline and in tests.',
+  },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: AI_PROVIDERS.gemini.defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+// Settings are per device, like the wearable connection, so they live in
+// localStorage rather than the synced app state and never end up in backups.
+const SETTINGS_KEY = 'fitness-fusion-ai-settings';
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_AI_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...parsed,
+      provider: parsed.provider in AI_PROVIDERS ? parsed.provider : DEFAULT_AI_SETTINGS.provider,
+    };
+  } catch (error) {
+    console.error("Error loading AI settings:", error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const createProvider = (settings: AISettings): AIProvider => {
+  const model = settings.model.trim() || AI_PROVIDERS[settings.provider].defaultModel;
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({ model, baseUrl: settings.baseUrl, apiKey: settings.apiKey });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({ model, apiKey: process.env.API_KEY });
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving AI settings:", error);
+  }
+  activeProvider = createProvider(settings);
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createProvider(loadAISettings());
+  return activeProvider;
+};
+
+// Models often wrap JSON in a markdown fence or add a sentence around it
+export const parseJsonResponse = <T>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[{[]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start === -1 || end < start) throw new Error("Response did not contain JSON");
+  return JSON.parse(body.slice(start, end + 1)) as T;
+};
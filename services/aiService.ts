@@ -0,0 +1,364 @@
+import { AIWorkoutPlan, ChatMessage, MacroNutrients, MealItem, UserProfile, WorkoutSession, MealLog, CatalogExercise, TrainingExperience } from "../types";
+import { findCatalogMatch, getFullCatalog } from "./exerciseCatalog";
+import { sumMealItems } from "./nutritionService";
+import { EXTENDED_NUTRIENT_KEYS, roundNutrients } from "./nutrientService";
+import { AIChatResult, JsonSchema, getAIProvider } from "./aiProvider";
+import { COACH_TOOLS, describeAction } from "./coachToolService";
+import { CoachContextData, buildCoachContext } from "./contextService";
+import { formatDayLabel, todayKey } from "./dateService";
+import { EXPERIENCE_LABELS, ProgramTemplate, defaultTemplate, withStartingLoads } from "./programService";
+
+// Prompts and response handling for each AI feature. The model itself is
+// whichever provider is selected in settings (see aiProvider).
+
+export interface FoodImageAnalysis {
+  name: string;
+  description: string;
+  items: MealItem[];
+  macros: MacroNutrients;
+}
+
+// Shape requested by the schema below, with extended nutrients only where the model could judge them
+type FoodImageItem = { name: string; grams: number } & MacroNutrients;
+
+interface FoodImageResponse {
+  name: string;
+  description: string;
+  items?: FoodImageItem[];
+}
+
+export const analyzeFoodImage = async (base64Image: string, mimeType: string): Promise<FoodImageAnalysis> => {
+  try {
+    const responseSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: "Short name for the whole meal" },
+        description: { type: 'string', description: "Brief nutritional summary regarding healthiness" },
+        items: {
+          type: 'array',
+          description: "Each distinct food visible on the plate, listed separately",
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: "Name of this food item" },
+              grams: { type: 'number', description: "Estimated portion weight in grams" },
+              calories: { type: 'number', description: "Estimated calories for this portion" },
+              protein: { type: 'number', description: "Estimated protein in grams for this portion" },
+              carbs: { type: 'number', description: "Estimated carbohydrates in grams for this portion" },
+              fat: { type: 'number', description: "Estimated fat in grams for this portion" },
+              fiber: { type: 'number', description: "Estimated fiber in grams, if it can be judged" },
+              sugar: { type: 'number', description: "Estimated sugars in grams, if it can be judged" },
+              saturatedFat: { type: 'number', description: "Estimated saturated fat in grams, if it can be judged" },
+              sodium: { type: 'number', description: "Estimated sodium in milligrams, if it can be judged" },
+              potassium: { type: 'number', description: "Estimated potassium in milligrams, if it can be judged" },
+              calcium: { type: 'number', description: "Estimated calcium in milligrams, if it can be judged" },
+              iron: { type: 'number', description: "Estimated iron in milligrams, if it can be judged" },
+              vitaminD: { type: 'number', description: "Estimated vitamin D in micrograms, if it can be judged" },
+            },
+            required: ["name", "grams", "calories", "protein", "carbs", "fat"],
+          },
+        },
+      },
+      required: ["name", "description", "items"],
+    };
+
+    const data = await getAIProvider().generateStructured<FoodImageResponse>({
+      task: "foodImage",
+      image: { data: base64Image, mimeType },
+      prompt: "Analyze this food image. Identify each food item separately, estimate its portion in grams, its macronutrients and, where you can, its fiber, sugar, saturated fat, sodium and key minerals and vitamins, and provide a summary.",
+      system: "You are an expert nutritionist AI. Analyze food images with high accuracy.",
+      schema: responseSchema,
+    });
+    const items: MealItem[] = (data.items || []).map((item, index) => ({
+      id: `${Date.now()}-${index}`,
+      name: item.name,
+      grams: Math.round(item.grams),
+      macros: roundNutrients({
+        calories: item.calories,
+        protein: item.protein,
+        carbs: item.carbs,
+        fat: item.fat,
+        // Omitted fields stay unknown rather than zero
+        ...Object.fromEntries(
+          EXTENDED_NUTRIENT_KEYS.filter(key => typeof item[key] === 'number').map(key => [key, item[key]])
+        ),
+      }),
+    }));
+    return {
+      name: data.name,
+      description: data.description,
+      items,
+      macros: sumMealItems(items),
+    };
+  } catch (error) {
+    console.error("Error analyzing food:", error);
+    throw error;
+  }
+};
+
+// Tells the model which of its earlier proposals were saved, so it doesn't offer them again
+const withActionNotes = (msg: ChatMessage): string =>
+  [msg.text, ...(msg.actions ?? []).map(a => `[Proposed: ${describeAction(a)} - ${a.status}]`)]
+    .filter(Boolean).join('\n');
+
+// Streams the reply through onText. If the signal aborts, the call rejects and
+// the caller keeps whatever text has arrived. `summary` stands in for older
+// messages of a long thread that are no longer sent in full.
+export const getFitnessCoaching = async (
+  history: ChatMessage[],
+  userContext: string,
+  { onText, signal, summary }: { onText?: (textSoFar: string) => void; signal?: AbortSignal; summary?: string } = {}
+): Promise<AIChatResult> => {
+  try {
+    const lastUserMessage = history[history.length - 1];
+    if (!lastUserMessage || lastUserMessage.role !== 'user') return { text: "", toolCalls: [] };
+
+    const { text, toolCalls } = await getAIProvider().chat({
+      system: `You are 'Fuse', an elite personal fitness coach and motivator.
+        
+        User Profile & Context:
+        ${userContext}
+        ${summary ? `
+        Earlier in this conversation (summary):
+        ${summary}
+        ` : ''}
+        Instructions:
+        1. Use the user's name, age, goals, and recent workouts to personalize your advice.
+        2. If recent workouts are missing, gently encourage them to start.
+        3. If they are active, challenge them to beat their personal bests.
+        4. Keep responses concise, motivating, and actionable.
+        5. Use emojis sparingly but effectively to maintain high energy.
+        6. When the user reports a finished workout, a meal or their weight, call the matching tool so they can save it in one tap. Only call a tool for things they actually did or asked for.
+        7. When you recommend a specific workout or meal, call suggest_workout_plan or suggest_meal with the details instead of writing them out; the app shows it as a card. Keep your text to a short intro.
+        8. When they want to train right now and leave the choice to you, call start_generated_workout.
+        9. Format text with short markdown: **bold** for key numbers, bullet lists for steps.`,
+      history: history.map(msg => ({ role: msg.role, text: withActionNotes(msg) })),
+      tools: COACH_TOOLS,
+      onText,
+      signal,
+    });
+    return { text: text || (toolCalls.length > 0 ? "" : "Keep pushing! I'm analyzing your request."), toolCalls };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error in coaching chat:", error);
+    return { text: "I'm having trouble connecting to the fitness server. Let's focus on your breathing for a moment.", toolCalls: [] };
+  }
+};
+
+// Folds older messages into the running summary of a thread. Falls back to the
+// previous summary, so a failed call only delays summarization.
+export const summarizeConversation = async (previousSummary: string | undefined, messages: ChatMessage[]): Promise<string | null> => {
+  try {
+    const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Fuse'}: ${m.text}`).join('\n');
+    const text = await getAIProvider().generateText({
+      system: "You summarize coaching conversations between a user and their fitness coach, Fuse.",
+      prompt: `
+        ${previousSummary ? `Summary so far:\n${previousSummary}\n` : ''}
+        New messages:
+        ${transcript}
+
+        Write an updated summary in under 200 words. Keep goals, injuries, preferences,
+        numbers and any plan or advice the coach gave; drop greetings and small talk.
+      `,
+    });
+    return text.trim() || null;
+  } catch (error) {
+    console.error("Conversation summary error:", error);
+    return null;
+  }
+};
+
+// Token budgets for the user summary sent with each feature's prompt
+const INSIGHT_CONTEXT_TOKENS = 500;
+const PLAN_CONTEXT_TOKENS = 700;
+
+export const generateDashboardInsight = async (
+  data: CoachContextData,
+  stats: { caloriesBurned: number; caloriesConsumed: number; steps: number | null },
+  day: string = todayKey()
+): Promise<string> => {
+  try {
+    const dayLabel = formatDayLabel(day);
+    const context = buildCoachContext(data, {
+      day,
+      maxTokens: INSIGHT_CONTEXT_TOKENS,
+      sections: ['profile', 'today', 'training', 'nutrition', 'weight'],
+    });
+    const prompt = `
+      Analyze this daily snapshot for a user named ${data.user.name}.
+      Stats (${dayLabel}): 
+      - Burned: ${stats.caloriesBurned} kcal
+      - Consumed: ${stats.caloriesConsumed} kcal
+      - Steps: ${stats.steps ?? 'not tracked'}
+
+      Background:
+      ${context}
+      
+      Provide a 1-sentence, high-impact specific observation or tip to help them reach their goal${dayLabel === "Today" ? " today" : ", reflecting on that day"}. 
+      Be direct and motivating.
+    `;
+
+    const text = await getAIProvider().generateText({ prompt });
+    return text || "Stay consistent to see results!";
+  } catch (error) {
+    console.error("Insight error", error);
+    return "Great job logging in today. Let's crush some goals!";
+  }
+};
+
+// Links each planned exercise to its catalog entry, adopting the canonical name
+export const linkPlanToCatalog = (plan: AIWorkoutPlan, catalog: CatalogExercise[]): AIWorkoutPlan => ({
+  ...plan,
+  exercises: plan.exercises.map(ex => {
+    const match = findCatalogMatch(ex.name, catalog);
+    return match ? { ...ex, name: match.name, catalogId: match.id } : ex;
+  }),
+});
+
+export const generateWorkoutPlan = async (
+  user: UserProfile,
+  workouts: WorkoutSession[],
+  customExercises: CatalogExercise[] = [],
+  focus?: string
+): Promise<AIWorkoutPlan> => {
+  const catalog = getFullCatalog(customExercises);
+  try {
+    const context = buildCoachContext({ user, workouts }, {
+      maxTokens: PLAN_CONTEXT_TOKENS,
+      sections: ['profile', 'training', 'recentWorkouts', 'exerciseBests'],
+    });
+
+    const prompt = `
+      Design a workout session for this user:
+      ${context}
+      ${focus ? `Requested focus: ${focus}.` : ''}
+      
+      Create a balanced workout that fits their goal and doesn't overtrain recently used muscle groups.
+      If they have no history, suggest a "Full Body Foundation" workout.
+      Weight suggestions should be estimated in kg from their exercise bests where available, otherwise based on level (e.g. 0 for bodyweight, reasonable start for beginners).
+      Use exercise names exactly as written in this catalog whenever possible:
+      ${catalog.map(e => e.name).join(', ')}.
+    `;
+
+    const responseSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        workoutName: { type: 'string', description: "A catchy name for the session" },
+        strategy: { type: 'string', description: "One sentence explaining why this workout was chosen" },
+        exercises: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              sets: { type: 'integer' },
+              reps: { type: 'integer' },
+              weightSuggestion: { type: 'integer', description: "Weight in kg, 0 for bodyweight" }
+            },
+            required: ["name", "sets", "reps", "weightSuggestion"]
+          }
+        }
+      },
+      required: ["workoutName", "strategy", "exercises"]
+    };
+
+    const plan = await getAIProvider().generateStructured<AIWorkoutPlan>({
+      task: "workoutPlan",
+      prompt,
+      schema: responseSchema,
+    });
+    if (!plan?.exercises?.length) throw new Error("No plan generated");
+
+    return linkPlanToCatalog(plan, catalog);
+
+  } catch (error) {
+    console.error("Workout plan generation error:", error);
+    // Fallback plan
+    return linkPlanToCatalog({
+      workoutName: "Quick HIIT Blast",
+      strategy: "Fallback routine to keep you moving.",
+      exercises: [
+        { name: "Jumping Jacks", sets: 3, reps: 30, weightSuggestion: 0 },
+        { name: "Pushups", sets: 3, reps: 10, weightSuggestion: 0 },
+        { name: "Squats", sets: 3, reps: 15, weightSuggestion: 0 },
+      ]
+    }, catalog);
+  }
+};
+
+// Designs one week of a multi-week program. Periodization (progression, deloads
+// and scheduling) is applied afterwards by buildProgram, so the model only picks
+// the split, exercises and week-one loads.
+export const generateProgramTemplate = async (
+  user: UserProfile,
+  workouts: WorkoutSession[],
+  options: { weeks: number; daysPerWeek: number; experience: TrainingExperience },
+  customExercises: CatalogExercise[] = []
+): Promise<ProgramTemplate> => {
+  const catalog = getFullCatalog(customExercises);
+  try {
+    const context = buildCoachContext({ user, workouts }, {
+      maxTokens: PLAN_CONTEXT_TOKENS,
+      sections: ['profile', 'training', 'exerciseBests'],
+    });
+
+    const prompt = `
+      Design the weekly split for a ${options.weeks}-week training program for this user:
+      ${context}
+      Experience: ${EXPERIENCE_LABELS[options.experience]}. Training days per week: ${options.daysPerWeek}.
+
+      Return exactly ${options.daysPerWeek} sessions, in the order they are trained during the week.
+      Balance muscle groups across the week and suit the split to their goal and experience.
+      Give week-one sets, reps and loads only; weekly progression and deload weeks are added automatically.
+      Loads are in kg: base them on their exercise bests where available, 0 for bodyweight exercises.
+      Use exercise names exactly as written in this catalog whenever possible:
+      ${catalog.map(e => e.name).join(', ')}.
+    `;
+
+    const responseSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: "Program name, e.g. \"8-Week Strength Builder\"" },
+        strategy: { type: 'string', description: "One or two sentences on how the program serves their goal" },
+        days: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: "Session name, e.g. \"Upper A\"" },
+              exercises: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    sets: { type: 'integer' },
+                    reps: { type: 'integer' },
+                    weightSuggestion: { type: 'number', description: "Week-one load in kg, 0 for bodyweight" }
+                  },
+                  required: ["name", "sets", "reps", "weightSuggestion"]
+                }
+              }
+            },
+            required: ["name", "exercises"]
+          }
+        }
+      },
+      required: ["name", "strategy", "days"]
+    };
+
+    const template = await getAIProvider().generateStructured<ProgramTemplate>({
+      task: "programTemplate",
+      prompt,
+      schema: responseSchema,
+    });
+    const days = (template?.days ?? []).filter(d => d.exercises?.length);
+    if (days.length === 0) throw new Error("No program generated");
+
+    return withStartingLoads({ ...template, days }, workouts);
+
+  } catch (error) {
+    console.error("Program generation error:", error);
+    return withStartingLoads(defaultTemplate(options.daysPerWeek), workouts);
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, UserProfile, WorkoutSession } from '../types';
+import { PersistedState } from './storageService';
+import { createBackup, parseBackup } from './backupService';
+
+const profile: UserProfile = {
+  name: 'Sam', gender: 'Female', age: 30, weight: 70, height: 170, goal: 'Keep Fit',
+  activityLevel: ActivityLevel.LIGHT, weightHistory: [{ id: 'w1', date: '2024-01-01', weight: 70 }],
+};
+
+const workout: WorkoutSession = {
+  id: 'a', date: '2024-01-02T10:00:00.000Z', name: 'Push', durationMinutes: 45, caloriesBurned: 300, caloriesMethod: 'met',
+  exercises: [{
+    id: 'e1', name: 'Bench Press', catalogId: 'barbell-bench-press',
+    sets: [{ id: 's1', type: 'working', reps: 5, weight: 100, completed: true }],
+  }],
+};
+
+const state: PersistedState = {
+  userProfile: profile, workouts: [workout], meals: [], chatMessages: [], chatThreads: [],
+  customExercises: [], waterLogs: [], programs: [],
+};
+
+// A current backup with parts of its data replaced
+const backupWith = (changes: Record<string, unknown>) =>
+  JSON.stringify({ ...createBackup(state), data: { ...state, ...changes } });
+
+describe('parseBackup', () => {
+  it('reads back an exported backup', () => {
+    expect(parseBackup(JSON.stringify(createBackup(state))).data).toEqual(state);
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow('not valid JSON');
+    expect(() => parseBackup('{"format": "something-else", "data": {}}')).toThrow('not a Fitness Fusion backup');
+  });
+
+  it('rejects workouts with malformed exercises or sets', () => {
+    const withExercises = (exercises: unknown[]) => backupWith({ workouts: [{ ...workout, exercises }] });
+    expect(() => parseBackup(withExercises([{}]))).toThrow('Invalid workout entry at position 1');
+    expect(() => parseBackup(withExercises([{ id: 'e1', name: 'Squat' }]))).toThrow('Invalid workout entry');
+    expect(() => parseBackup(withExercises([{ id: 'e1', name: 'Squat', sets: [{ reps: 5, weight: 100 }] }]))).toThrow('Invalid workout entry');
+  });
+
+  it('rejects weigh-ins without an id', () => {
+    const userProfile = { ...profile, weightHistory: [{ date: '2024-01-01', weight: 70 }] };
+    expect(() => parseBackup(backupWith({ userProfile }))).toThrow('Invalid weight history entry at position 1');
+  });
+
+  it('accepts older backups in their original shape and upgrades them', () => {
+    const legacy = JSON.stringify({
+      format: 'fitness-fusion-backup',
+      version: 1,
+      exportedAt: '2024-01-03T00:00:00.000Z',
+      data: {
+        userProfile: { ...profile, weightHistory: [{ date: '2024-01-01', weight: 70 }] },
+        workouts: [{ ...workout, exercises: [{ id: 'e1', name: 'Bench Press', sets: 3, reps: 5, weight: 100, completed: true }] }],
+        meals: [],
+        chatMessages: [],
+      },
+    });
+
+    const { data } = parseBackup(legacy);
+
+    expect(data.userProfile?.weightHistory[0].id).toBe('2024-01-01-0');
+    expect(data.workouts[0].exercises[0].sets).toHaveLength(3);
+  });
+});
@@ -0,0 +1,255 @@
+import { ChatMessage, ChatThread, MealLog, WeightEntry, WorkoutSession } from "../types";
+import { PersistedState, SCHEMA_VERSION, upgradeState } from "./storageService";
+import { sortWeightHistory, withWeightHistory } from "./weightService";
+import { exerciseVolume, formatSets } from "./workoutService";
+import { EXTENDED_NUTRIENT_KEYS } from "./nutrientService";
+import { recomputePersonalRecords } from "./personalRecordService";
+
+const BACKUP_FORMAT = "fitness-fusion-backup";
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number; // SCHEMA_VERSION at export time
+  exportedAt: string;
+  data: PersistedState;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface EntityImportSummary {
+  incoming: number;
+  added: number;
+  duplicates: number; // Same id, identical content
+  conflicts: number;  // Same id, different content
+}
+
+export interface ImportReport {
+  backup: BackupFile;
+  profileConflict: boolean;
+  workouts: EntityImportSummary;
+  meals: EntityImportSummary;
+  chatMessages: EntityImportSummary;
+  chatThreads: EntityImportSummary;
+  weightHistory: EntityImportSummary;
+  customExercises: EntityImportSummary;
+  waterLogs: EntityImportSummary;
+  programs: EntityImportSummary;
+}
+
+// --- Export ---
+
+export const createBackup = (state: PersistedState): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: state,
+});
+
+const escapeCsvField = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+// One row per exercise, with the parent session repeated on each row
+// and the individual sets summarized as "100x5, 100x5, 95x6"
+export const workoutsToCsv = (workouts: WorkoutSession[]): string =>
+  toCsv(
+    ['workout_id', 'date', 'workout_name', 'duration_minutes', 'calories_burned', 'calories_method', 'goal', 'goal_achieved', 'exercise_id', 'exercise_name', 'sets', 'completed_sets', 'set_detail', 'volume_kg'],
+    workouts.flatMap(w => w.exercises.map(ex => [
+      w.id, w.date, w.name, w.durationMinutes, w.caloriesBurned, w.caloriesMethod, w.goal, w.goalAchieved,
+      ex.id, ex.name, ex.sets.length, ex.sets.filter(s => s.completed).length, formatSets(ex.sets), exerciseVolume(ex),
+    ]))
+  );
+
+export const mealsToCsv = (meals: MealLog[]): string =>
+  toCsv(
+    [
+      'meal_id', 'timestamp', 'meal_type', 'name', 'calories', 'protein_g', 'carbs_g', 'fat_g',
+      'fiber_g', 'sugar_g', 'saturated_fat_g', 'sodium_mg', 'potassium_mg', 'calcium_mg', 'iron_mg', 'vitamin_d_ug',
+    ],
+    meals.map(m => [
+      m.id, new Date(m.timestamp).toISOString(), m.mealType, m.name,
+      m.macros.calories, m.macros.protein, m.macros.carbs, m.macros.fat,
+      ...EXTENDED_NUTRIENT_KEYS.map(key => m.macros[key]),
+    ])
+  );
+
+export const weightHistoryToCsv = (entries: WeightEntry[]): string =>
+  toCsv(['date', 'time', 'weight_kg', 'note'], sortWeightHistory(entries).map(e => [e.date, e.time, e.weight, e.note]));
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers (notably Safari)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const assertRecords = (value: unknown, label: string, isValid: (record: any) => boolean): void => {
+  if (!Array.isArray(value)) throw new Error(`Backup is missing the ${label} list`);
+  const invalidIndex = value.findIndex(record => !isObject(record) || !isValid(record));
+  if (invalidIndex !== -1) throw new Error(`Invalid ${label} entry at position ${invalidIndex + 1}`);
+};
+
+// Schema versions that introduced record fields the checks below rely on.
+// Older backups don't have them yet; upgradeState fills them in.
+const WEIGHT_ENTRY_ID_VERSION = 2;
+const PER_SET_VERSION = 3;
+
+const isExerciseSet = (s: any) =>
+  isObject(s) && typeof s.reps === 'number' && typeof s.weight === 'number' && typeof s.completed === 'boolean';
+// Before per-set logging an exercise stored its set count as a number
+const isExercise = (version: number) => (ex: any) =>
+  isObject(ex) && typeof ex.name === 'string'
+  && (version < PER_SET_VERSION ? typeof ex.sets === 'number' : Array.isArray(ex.sets) && ex.sets.every(isExerciseSet));
+const isWorkout = (version: number) => (w: any) =>
+  typeof w.id === 'string' && typeof w.date === 'string' && typeof w.name === 'string'
+  && Array.isArray(w.exercises) && w.exercises.every(isExercise(version));
+const isMeal = (m: any) =>
+  typeof m.id === 'string' && typeof m.name === 'string' && typeof m.timestamp === 'number' && isObject(m.macros);
+const isChatMessage = (c: any) =>
+  typeof c.id === 'string' && (c.role === 'user' || c.role === 'model') && typeof c.text === 'string';
+const isChatThread = (t: any) =>
+  typeof t.id === 'string' && typeof t.title === 'string' && typeof t.updatedAt === 'number';
+const isWeightEntry = (version: number) => (e: any) =>
+  typeof e.date === 'string' && typeof e.weight === 'number'
+  && (version < WEIGHT_ENTRY_ID_VERSION || typeof e.id === 'string');
+const isCatalogExercise = (e: any) =>
+  typeof e.id === 'string' && typeof e.name === 'string' && Array.isArray(e.primaryMuscles);
+const isWaterLog = (w: any) =>
+  typeof w.id === 'string' && typeof w.timestamp === 'number' && typeof w.ml === 'number';
+const isProgram = (p: any) =>
+  typeof p.id === 'string' && typeof p.name === 'string' && typeof p.startDate === 'string' && Array.isArray(p.sessions);
+
+// Parses and validates a backup file, upgrading older schema versions to the current one.
+export const parseBackup = (text: string): BackupFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT || !isObject(raw.data)) {
+    throw new Error("File is not a Fitness Fusion backup");
+  }
+  if (typeof raw.version !== 'number' || raw.version > SCHEMA_VERSION) {
+    throw new Error("Backup was created by a newer version of the app");
+  }
+
+  const data = raw.data;
+  if (data.userProfile !== null) {
+    if (!isObject(data.userProfile) || typeof data.userProfile.name !== 'string') {
+      throw new Error("Backup profile is invalid");
+    }
+    assertRecords(data.userProfile.weightHistory, 'weight history', isWeightEntry(raw.version));
+  }
+  assertRecords(data.workouts, 'workout', isWorkout(raw.version));
+  assertRecords(data.meals, 'meal', isMeal);
+  assertRecords(data.chatMessages, 'chat message', isChatMessage);
+  if (data.chatThreads !== undefined) {
+    assertRecords(data.chatThreads, 'chat thread', isChatThread);
+  }
+  if (data.customExercises !== undefined) {
+    assertRecords(data.customExercises, 'custom exercise', isCatalogExercise);
+  }
+  if (data.waterLogs !== undefined) {
+    assertRecords(data.waterLogs, 'water log', isWaterLog);
+  }
+  if (data.programs !== undefined) {
+    assertRecords(data.programs, 'training program', isProgram);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    data: upgradeState(data as PersistedState, raw.version),
+  };
+};
+
+// Key-order independent serialization so identical records compare equal
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const summarize = <T>(existing: T[], incoming: T[], keyOf: (record: T) => string): EntityImportSummary => {
+  const byKey = new Map(existing.map(r => [keyOf(r), stableStringify(r)]));
+  const summary: EntityImportSummary = { incoming: incoming.length, added: 0, duplicates: 0, conflicts: 0 };
+  incoming.forEach(record => {
+    const current = byKey.get(keyOf(record));
+    if (current === undefined) summary.added++;
+    else if (current === stableStringify(record)) summary.duplicates++;
+    else summary.conflicts++;
+  });
+  return summary;
+};
+
+export const analyzeImport = (current: PersistedState, backup: BackupFile): ImportReport => {
+  const incoming = backup.data;
+  const { weightHistory: currentHistory = [], ...currentProfile } = current.userProfile ?? {};
+  const { weightHistory: incomingHistory = [], ...incomingProfile } = incoming.userProfile ?? {};
+
+  return {
+    backup,
+    profileConflict: !!current.userProfile && !!incoming.userProfile
+      && stableStringify(currentProfile) !== stableStringify(incomingProfile),
+    workouts: summarize(current.workouts, incoming.workouts, w => w.id),
+    meals: summarize(current.meals, incoming.meals, m => m.id),
+    chatMessages: summarize(current.chatMessages, incoming.chatMessages, c => c.id),
+    chatThreads: summarize(current.chatThreads, incoming.chatThreads, t => t.id),
+    weightHistory: summarize(currentHistory, incomingHistory, e => e.id),
+    customExercises: summarize(current.customExercises, incoming.customExercises, e => e.id),
+    waterLogs: summarize(current.waterLogs, incoming.waterLogs, w => w.id),
+    programs: summarize(current.programs, incoming.programs, p => p.id),
+  };
+};
+
+// Existing records win on conflict; only records with unseen keys are added
+const mergeRecords = <T>(existing: T[], incoming: T[], keyOf: (record: T) => string): T[] => {
+  const keys = new Set(existing.map(keyOf));
+  return [...existing, ...incoming.filter(r => !keys.has(keyOf(r)))];
+};
+
+export const applyImport = (current: PersistedState, backup: BackupFile, mode: ImportMode): PersistedState => {
+  const incoming = backup.data;
+  if (mode === 'replace') return incoming;
+
+  const profile = current.userProfile ?? incoming.userProfile;
+  const weightHistory = mergeRecords(
+    current.userProfile?.weightHistory ?? [],
+    incoming.userProfile?.weightHistory ?? [],
+    e => e.id
+  );
+
+  return {
+    userProfile: profile ? withWeightHistory(profile, weightHistory) : null,
+    // Imported sessions can predate existing ones, so records are re-derived from the combined history
+    workouts: recomputePersonalRecords(mergeRecords(current.workouts, incoming.workouts, w => w.id))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    meals: mergeRecords(current.meals, incoming.meals, m => m.id)
+      .sort((a, b) => b.timestamp - a.timestamp),
+    chatMessages: mergeRecords<ChatMessage>(current.chatMessages, incoming.chatMessages, c => c.id)
+      .sort((a, b) => a.timestamp - b.timestamp),
+    chatThreads: mergeRecords<ChatThread>(current.chatThreads, incoming.chatThreads, t => t.id),
+    customExercises: mergeRecords(current.customExercises, incoming.customExercises, e => e.id),
+    waterLogs: mergeRecords(current.waterLogs, incoming.waterLogs, w => w.id)
+      .sort((a, b) => b.timestamp - a.timestamp),
+    programs: mergeRecords(current.programs, incoming.programs, p => p.id)
+      .sort((a, b) => b.createdAt - a.createdAt),
+  };
+};
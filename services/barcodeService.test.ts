@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { decodeImageData } from './barcodeService';
+
+// Module widths of each digit in the L set, starting with a space
+const L_WIDTHS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const runs = (widths: number[], startDark: boolean): boolean[] =>
+  widths.flatMap((w, i) => Array<boolean>(w).fill(i % 2 === 0 ? startDark : !startDark));
+
+// Dark/light modules for an EAN-13 or EAN-8 code, including its guards
+const encode = (code: string): boolean[] => {
+  const digits = code.split('').map(Number);
+  const ean13 = digits.length === 13;
+  const left = ean13 ? digits.slice(1, 7) : digits.slice(0, 4);
+  const right = ean13 ? digits.slice(7) : digits.slice(4);
+  const parity = ean13 ? PARITY[digits[0]] : 'LLLL';
+  return [
+    ...runs([1, 1, 1], true),
+    ...left.flatMap((d, i) => runs(parity[i] === 'G' ? [...L_WIDTHS[d]].reverse() : L_WIDTHS[d], false)),
+    ...runs([1, 1, 1, 1, 1], false),
+    ...right.flatMap(d => runs(L_WIDTHS[d], true)),
+    ...runs([1, 1, 1], true),
+  ];
+};
+
+const QUIET_ZONE = 12;
+
+// Draws the modules as full-height bars, `scale` pixels per module
+const toImage = (modules: boolean[], scale = 3, height = 40): ImageData => {
+  const row = [...Array(QUIET_ZONE).fill(false), ...modules, ...Array(QUIET_ZONE).fill(false)]
+    .flatMap(dark => Array<boolean>(scale).fill(dark));
+  const width = row.length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    row.forEach((dark, x) => {
+      const p = (y * width + x) * 4;
+      data.fill(dark ? 20 : 235, p, p + 3);
+      data[p + 3] = 255;
+    });
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+describe('decodeImageData', () => {
+  it('reads an EAN-13 code', () => {
+    expect(decodeImageData(toImage(encode('4006381333931')))).toBe('4006381333931');
+  });
+
+  it('reads an EAN-8 code', () => {
+    expect(decodeImageData(toImage(encode('96385074')))).toBe('96385074');
+  });
+
+  it('reads UPC-A as EAN-13 with a leading zero', () => {
+    expect(decodeImageData(toImage(encode('0036000291452')))).toBe('0036000291452');
+  });
+
+  it('reads a barcode photographed upside down', () => {
+    expect(decodeImageData(toImage(encode('4006381333931').reverse()))).toBe('4006381333931');
+  });
+
+  it('tolerates uneven bar widths', () => {
+    const modules = encode('5901234123457');
+    // Alternate 2 and 4 pixel modules, as in a blurred or unevenly scaled photo
+    const stretched = modules.flatMap((dark, i) => Array<boolean>(i % 2 === 0 ? 1 : 2).fill(dark));
+    expect(decodeImageData(toImage(stretched, 2))).toBe('5901234123457');
+  });
+
+  it('rejects a code with a wrong check digit', () => {
+    expect(decodeImageData(toImage(encode('4006381333932')))).toBeNull();
+  });
+
+  it('returns null for an image without a barcode', () => {
+    expect(decodeImageData(toImage(Array(95).fill(false)))).toBeNull();
+  });
+});
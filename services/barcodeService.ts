@@ -0,0 +1,231 @@
+// In-browser barcode decoding for food labels. Uses the native BarcodeDetector
+// where the browser has one, otherwise a scanline decoder for EAN-13, UPC-A and
+// EAN-8, which covers retail food packaging.
+
+// Minimal typings for the Shape Detection API, which isn't in the DOM lib yet
+interface DetectedBarcode { rawValue: string; }
+interface BarcodeDetectorInstance { detect(source: CanvasImageSource): Promise<DetectedBarcode[]>; }
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+// Module widths of each digit's four runs, in left-hand odd-parity (L) order
+const DIGIT_WIDTHS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+
+// Parity of the six left-hand digits (L = false, G = true) encodes EAN-13's first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL',
+];
+
+// Largest summed deviation, in modules, accepted for a digit match
+const MAX_DIGIT_ERROR = 1.6;
+
+const SCANLINES = 15;
+const MAX_DECODE_WIDTH = 1280;
+
+let nativeDetector: Promise<BarcodeDetectorInstance | null> | null = null;
+
+const getNativeDetector = (): Promise<BarcodeDetectorInstance | null> => {
+  if (!nativeDetector) {
+    const Detector = (window as any).BarcodeDetector as BarcodeDetectorConstructor | undefined;
+    nativeDetector = !Detector
+      ? Promise.resolve(null)
+      : Detector.getSupportedFormats()
+          .then(supported => {
+            const formats = RETAIL_FORMATS.filter(f => supported.includes(f));
+            return formats.length > 0 ? new Detector({ formats }) : null;
+          })
+          .catch(() => null);
+  }
+  return nativeDetector;
+};
+
+const isValidChecksum = (digits: number[]): boolean => {
+  // Weights alternate 3,1 from the digit just before the check digit
+  const body = digits.slice(0, -1).reverse();
+  const sum = body.reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === digits[digits.length - 1];
+};
+
+// Best-matching digit for four run widths; reversed widths give the G (even) set
+const matchDigit = (runs: number[]): { digit: number; even: boolean } | null => {
+  const total = runs.reduce((a, b) => a + b, 0);
+  const scaled = runs.map(r => (r * 7) / total);
+  let best: { digit: number; even: boolean } | null = null;
+  let bestError = MAX_DIGIT_ERROR;
+
+  for (let digit = 0; digit < 10; digit++) {
+    for (const even of [false, true]) {
+      const widths = even ? [...DIGIT_WIDTHS[digit]].reverse() : DIGIT_WIDTHS[digit];
+      const error = widths.reduce((acc, w, i) => acc + Math.abs(w - scaled[i]), 0);
+      if (error <= bestError) {
+        best = { digit, even };
+        bestError = error;
+      }
+    }
+  }
+  return best;
+};
+
+// Guards are 1-module runs; allow generous tolerance against the digits' module size
+const isGuard = (runs: number[], moduleWidth: number) =>
+  runs.every(r => r > moduleWidth * 0.4 && r < moduleWidth * 2);
+
+// Tries to read one symbol whose start guard begins at runs[start] (a bar).
+const decodeAt = (runs: number[], start: number, digitsPerHalf: 4 | 6): string | null => {
+  const needed = 3 + digitsPerHalf * 4 + 5 + digitsPerHalf * 4 + 3;
+  if (start + needed > runs.length) return null;
+
+  const symbolRuns = runs.slice(start, start + needed);
+  const modules = digitsPerHalf === 6 ? 95 : 67;
+  const moduleWidth = symbolRuns.reduce((a, b) => a + b, 0) / modules;
+  const middleStart = 3 + digitsPerHalf * 4;
+  if (!isGuard(symbolRuns.slice(0, 3), moduleWidth)) return null;
+  if (!isGuard(symbolRuns.slice(middleStart, middleStart + 5), moduleWidth)) return null;
+  if (!isGuard(symbolRuns.slice(needed - 3), moduleWidth)) return null;
+
+  const left: { digit: number; even: boolean }[] = [];
+  for (let i = 0; i < digitsPerHalf; i++) {
+    const match = matchDigit(symbolRuns.slice(3 + i * 4, 7 + i * 4));
+    if (!match) return null;
+    left.push(match);
+  }
+  const right: number[] = [];
+  for (let i = 0; i < digitsPerHalf; i++) {
+    const offset = middleStart + 5 + i * 4;
+    const match = matchDigit(symbolRuns.slice(offset, offset + 4));
+    if (!match || match.even) return null;
+    right.push(match.digit);
+  }
+
+  let digits: number[];
+  if (digitsPerHalf === 6) {
+    const parity = left.map(d => (d.even ? 'G' : 'L')).join('');
+    const first = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (first < 0) return null;
+    digits = [first, ...left.map(d => d.digit), ...right];
+  } else {
+    if (left.some(d => d.even)) return null;
+    digits = [...left.map(d => d.digit), ...right];
+  }
+
+  return isValidChecksum(digits) ? digits.join('') : null;
+};
+
+// Run-length encodes one row of luminance values, thresholded at the row's midpoint.
+// Returns widths starting with the first dark run.
+const rowToRuns = (luminance: Uint8ClampedArray | number[], width: number): number[] => {
+  let min = 255, max = 0;
+  for (let x = 0; x < width; x++) {
+    min = Math.min(min, luminance[x]);
+    max = Math.max(max, luminance[x]);
+  }
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+
+  const runs: number[] = [];
+  let dark = luminance[0] < threshold;
+  let length = 0;
+  for (let x = 0; x < width; x++) {
+    const isDark = luminance[x] < threshold;
+    if (isDark === dark) {
+      length++;
+    } else {
+      runs.push(length);
+      dark = isDark;
+      length = 1;
+    }
+  }
+  runs.push(length);
+  // Drop the leading light run so even indices are bars
+  return luminance[0] < threshold ? runs : runs.slice(1);
+};
+
+const decodeRuns = (runs: number[]): string | null => {
+  for (let start = 0; start < runs.length; start += 2) {
+    const code = decodeAt(runs, start, 6) ?? decodeAt(runs, start, 4);
+    if (code) return code;
+  }
+  return null;
+};
+
+export const decodeImageData = (image: ImageData): string | null => {
+  const { width, height, data } = image;
+  const row = new Uint8ClampedArray(width);
+
+  for (let i = 0; i < SCANLINES; i++) {
+    // Start in the middle of the frame, where users aim, and work outwards
+    const offset = Math.ceil(i / 2) * (i % 2 === 0 ? 1 : -1);
+    const y = Math.round(height / 2 + (offset * height) / (SCANLINES + 1));
+    if (y < 0 || y >= height) continue;
+
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      row[x] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+    }
+
+    const runs = rowToRuns(row, width);
+    // Also read right-to-left for barcodes photographed upside down
+    const reversed = rowToRuns([...row].reverse(), width);
+    const code = decodeRuns(runs) ?? decodeRuns(reversed);
+    if (code) return code;
+  }
+  return null;
+};
+
+const toCanvas = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): HTMLCanvasElement => {
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Decodes a barcode from an image element, video frame or canvas. Resolves to null
+// when nothing readable is in view, so callers can keep sampling camera frames.
+export const decodeBarcode = async (
+  source: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement
+): Promise<string | null> => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth
+    : source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight
+    : source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  if (!width || !height) return null;
+
+  const native = await getNativeDetector();
+  if (native) {
+    try {
+      const [barcode] = await native.detect(source);
+      if (barcode) return barcode.rawValue;
+    } catch (error) {
+      console.error("Native barcode detection failed:", error);
+    }
+  }
+
+  const canvas = toCanvas(source, width, height);
+  const image = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  return decodeImageData(image);
+};
+
+export const decodeBarcodeFromFile = (file: File): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      decodeBarcode(image)
+        .then(resolve, reject)
+        .finally(() => URL.revokeObjectURL(url));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read this image."));
+    };
+    image.src = url;
+  });
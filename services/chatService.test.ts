@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatThread } from '../types';
+import {
+  DEFAULT_THREAD_TITLE, LEGACY_THREAD_ID, autoTitle, messagesToSummarize, searchThreads, unsummarizedMessages, withOrphanThreads,
+} from './chatService';
+
+const thread = (changes: Partial<ChatThread> = {}): ChatThread => ({
+  id: 't1', title: DEFAULT_THREAD_TITLE, createdAt: 0, updatedAt: 0, ...changes,
+});
+
+// `count` alternating messages of `length` characters, one second apart
+const conversation = (count: number, length: number, threadId = 't1'): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    threadId,
+    role: i % 2 === 0 ? 'user' : 'model',
+    text: 'x'.repeat(length),
+    timestamp: (i + 1) * 1000,
+  }));
+
+describe('messagesToSummarize', () => {
+  it('leaves a thread alone while it fits the history budget', () => {
+    expect(messagesToSummarize(thread(), conversation(20, 600))).toEqual([]);
+  });
+
+  it('leaves a few long messages alone rather than summarizing them all away', () => {
+    expect(messagesToSummarize(thread(), conversation(8, 5000))).toEqual([]);
+  });
+
+  it('folds all but the 8 most recent messages once over budget', () => {
+    const messages = conversation(30, 500);
+    const toSummarize = messagesToSummarize(thread(), messages);
+    expect(toSummarize).toEqual(messages.slice(0, 22));
+  });
+
+  it('only counts messages the summary does not cover yet', () => {
+    const messages = conversation(30, 500);
+    const summarized = thread({ summary: 'Earlier chat', summarizedThrough: messages[21].timestamp });
+    expect(unsummarizedMessages(summarized, messages)).toEqual(messages.slice(22));
+    expect(messagesToSummarize(summarized, messages)).toEqual([]);
+  });
+});
+
+describe('autoTitle', () => {
+  it('names an untitled thread after the first message', () => {
+    expect(autoTitle(thread(), '  How much   protein?  ').title).toBe('How much protein?');
+  });
+
+  it('shortens long messages', () => {
+    const { title } = autoTitle(thread(), 'What is the best way to structure my training week around work?');
+    expect(title.length).toBeLessThanOrEqual(40);
+    expect(title.endsWith('…')).toBe(true);
+  });
+
+  it('keeps a title the user chose', () => {
+    expect(autoTitle(thread({ title: 'Cutting plan' }), 'Hello').title).toBe('Cutting plan');
+  });
+});
+
+describe('searchThreads', () => {
+  const threads = [thread({ id: 'a', title: 'Leg day' }), thread({ id: 'b', title: 'Meal prep' })];
+  const messages: ChatMessage[] = [{ id: 'm', threadId: 'b', role: 'user', text: 'Chicken and RICE ideas', timestamp: 1 }];
+
+  it('matches titles and message text, ignoring case', () => {
+    expect(searchThreads(threads, messages, 'LEG').map(t => t.id)).toEqual(['a']);
+    expect(searchThreads(threads, messages, 'rice').map(t => t.id)).toEqual(['b']);
+    expect(searchThreads(threads, messages, '  ')).toBe(threads);
+  });
+});
+
+describe('withOrphanThreads', () => {
+  it('creates threads for messages that have none', () => {
+    const messages = [...conversation(3, 10, LEGACY_THREAD_ID), ...conversation(2, 10, 't1')];
+    const threads = withOrphanThreads([thread()], messages);
+    expect(threads).toHaveLength(2);
+    expect(threads[1]).toEqual({ id: LEGACY_THREAD_ID, title: 'Coaching chat', createdAt: 1000, updatedAt: 3000 });
+  });
+});
@@ -0,0 +1,76 @@
+import { ChatMessage, ChatThread } from "../types";
+
+// Conversations from before threads existed are filed under this thread
+export const LEGACY_THREAD_ID = "legacy";
+export const DEFAULT_THREAD_TITLE = "New chat";
+
+// Rough context budget for the unsummarized part of a thread. Beyond it, all
+// but the most recent messages are folded into the thread summary.
+const MAX_HISTORY_CHARS = 12000;
+const KEEP_RECENT_MESSAGES = 8;
+const AUTO_TITLE_LENGTH = 40;
+
+export const createThread = (title: string = DEFAULT_THREAD_TITLE): ChatThread => {
+  const now = Date.now();
+  return { id: `thread-${now}`, title, createdAt: now, updatedAt: now };
+};
+
+export const threadMessages = (messages: ChatMessage[], threadId: string): ChatMessage[] =>
+  messages.filter(m => m.threadId === threadId).sort((a, b) => a.timestamp - b.timestamp);
+
+// Most recently active first
+export const sortThreads = (threads: ChatThread[]): ChatThread[] =>
+  [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+// Names an untitled thread after the first question asked in it
+export const autoTitle = (thread: ChatThread, firstMessage: string): ChatThread => {
+  if (thread.title !== DEFAULT_THREAD_TITLE) return thread;
+  const text = firstMessage.trim().replace(/\s+/g, ' ');
+  const title = text.length > AUTO_TITLE_LENGTH ? `${text.slice(0, AUTO_TITLE_LENGTH - 1).trimEnd()}…` : text;
+  return { ...thread, title: title || DEFAULT_THREAD_TITLE };
+};
+
+// Messages not yet covered by the summary; these are sent to the model verbatim
+export const unsummarizedMessages = (thread: ChatThread, messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(m => thread.summarizedThrough === undefined || m.timestamp > thread.summarizedThrough);
+
+// The older messages to fold into the summary, or an empty list while the thread still fits
+export const messagesToSummarize = (thread: ChatThread, messages: ChatMessage[]): ChatMessage[] => {
+  const pending = unsummarizedMessages(thread, messages);
+  const chars = pending.reduce((acc, m) => acc + m.text.length, 0);
+  if (chars <= MAX_HISTORY_CHARS || pending.length <= KEEP_RECENT_MESSAGES) return [];
+  return pending.slice(0, pending.length - KEEP_RECENT_MESSAGES);
+};
+
+// Case-insensitive match on the title or any message in the thread
+export const searchThreads = (threads: ChatThread[], messages: ChatMessage[], query: string): ChatThread[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return threads;
+  return threads.filter(t =>
+    t.title.toLowerCase().includes(q)
+    || messages.some(m => m.threadId === t.id && m.text.toLowerCase().includes(q))
+  );
+};
+
+// Creates a thread record for any messages whose thread is missing, e.g. the
+// single conversation kept before threads were introduced.
+export const withOrphanThreads = (threads: ChatThread[], messages: ChatMessage[]): ChatThread[] => {
+  const known = new Set(threads.map(t => t.id));
+  const orphans = new Map<string, ChatMessage[]>();
+  messages.forEach(m => {
+    if (known.has(m.threadId)) return;
+    orphans.set(m.threadId, [...(orphans.get(m.threadId) ?? []), m]);
+  });
+  return [
+    ...threads,
+    ...Array.from(orphans, ([id, list]) => {
+      const times = list.map(m => m.timestamp);
+      return {
+        id,
+        title: id === LEGACY_THREAD_ID ? "Coaching chat" : DEFAULT_THREAD_TITLE,
+        createdAt: Math.min(...times),
+        updatedAt: Math.max(...times),
+      };
+    }),
+  ];
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, CoachActionPayload, UserProfile } from '../types';
+import { EXERCISE_CATALOG } from './exerciseCatalog';
+import { actionToMeal, actionToWorkout, createCoachActions, describeAction } from './coachToolService';
+
+const user: UserProfile = {
+  name: 'Sam', gender: 'Male', age: 30, weight: 80, height: 180, goal: 'Build Muscle',
+  activityLevel: ActivityLevel.MODERATE, weightHistory: [],
+};
+
+describe('createCoachActions', () => {
+  it('turns tool calls into pending actions', () => {
+    const actions = createCoachActions([
+      { name: 'log_weight', args: { weightKg: 81.46 } },
+      { name: 'log_meal', args: { name: ' Oatmeal ', calories: '350.4', protein: 12, mealType: 'breakfast' } },
+    ]);
+    expect(actions).toMatchObject([
+      { type: 'logWeight', weight: 81.5, status: 'pending' },
+      { type: 'logMeal', name: 'Oatmeal', mealType: 'breakfast', macros: { calories: 350, protein: 12, carbs: 0, fat: 0 }, status: 'pending' },
+    ]);
+    expect(actions[0].id).not.toBe(actions[1].id);
+  });
+
+  it('cleans up workout arguments and drops exercises without reps', () => {
+    const [action] = createCoachActions([{
+      name: 'log_workout',
+      args: {
+        name: 'Legs',
+        exercises: [
+          { name: 'Squat', sets: 2.6, reps: 5, weightKg: 100 },
+          { name: 'Walking', sets: 1 },
+          'not an exercise',
+          null,
+          ['Lunge', 3, 10],
+        ],
+      },
+    }]);
+    expect(action).toMatchObject({
+      type: 'logWorkout', name: 'Legs', durationMinutes: 8, exercises: [{ name: 'Squat', sets: 3, reps: 5, weight: 100 }],
+    });
+  });
+
+  it('drops calls it cannot make sense of', () => {
+    expect(createCoachActions([
+      { name: 'log_weight', args: { weightKg: 8 } },
+      { name: 'log_meal', args: { name: 'Snack' } },
+      { name: 'log_workout', args: { exercises: [] } },
+      { name: 'delete_everything', args: {} },
+    ])).toEqual([]);
+  });
+});
+
+describe('describeAction', () => {
+  it('summarises a workout for the approval card', () => {
+    const action: CoachActionPayload = {
+      type: 'logWorkout', name: 'Push', durationMinutes: 40,
+      exercises: [{ name: 'Bench Press', sets: 3, reps: 8, weight: 60 }, { name: 'Dip', sets: 3, reps: 10, weight: 0 }],
+    };
+    expect(describeAction(action)).toBe('Workout "Push" (40 min): Bench Press 3x8 @ 60kg, Dip 3x10');
+  });
+});
+
+describe('actionToWorkout', () => {
+  it('links exercises to the catalog and marks every set complete', () => {
+    const workout = actionToWorkout(
+      { type: 'logWorkout', name: 'Push', durationMinutes: 40, exercises: [{ name: 'bench', sets: 3, reps: 8, weight: 60 }] },
+      user, [], EXERCISE_CATALOG,
+    );
+    expect(workout.exercises[0]).toMatchObject({ name: 'Bench Press', catalogId: 'barbell-bench-press' });
+    expect(workout.exercises[0].sets).toHaveLength(3);
+    expect(workout.exercises[0].sets.every(s => s.completed && s.reps === 8 && s.weight === 60)).toBe(true);
+    expect(workout).toMatchObject({ durationMinutes: 40, caloriesMethod: 'met', personalRecords: [] });
+    expect(workout.caloriesBurned).toBeGreaterThan(0);
+  });
+});
+
+describe('suggestions', () => {
+  it('turns a suggested plan into a workout plan card', () => {
+    const [action] = createCoachActions([{
+      name: 'suggest_workout_plan',
+      args: { workoutName: 'Pull Day', strategy: 'Back width', exercises: [{ name: 'Pull-up', sets: 4, reps: 6, weightKg: 0 }] },
+    }]);
+    expect(action).toMatchObject({
+      type: 'workoutPlan',
+      plan: { workoutName: 'Pull Day', strategy: 'Back width', exercises: [{ name: 'Pull-up', sets: 4, reps: 6, weightSuggestion: 0 }] },
+    });
+    expect(describeAction(action)).toBe('Workout plan "Pull Day": Pull-up 4x6');
+  });
+
+  it('logs a suggested meal like any other meal', () => {
+    const [action] = createCoachActions([{
+      name: 'suggest_meal',
+      args: { name: 'Salmon bowl', description: 'Salmon, rice, greens', calories: 620, protein: 40, carbs: 60, fat: 22 },
+    }]);
+    expect(action).toMatchObject({ type: 'mealSuggestion', name: 'Salmon bowl', description: 'Salmon, rice, greens' });
+    if (action.type !== 'mealSuggestion') throw new Error('Expected a meal suggestion');
+    expect(actionToMeal(action)).toMatchObject({ name: 'Salmon bowl', macros: { calories: 620, protein: 40, carbs: 60, fat: 22 } });
+  });
+});
@@ -0,0 +1,258 @@
+import { CatalogExercise, CoachAction, CoachActionPayload, Exercise, MealLog, MealType, UserProfile, WorkoutSession } from "../types";
+import { AIToolCall, AIToolDeclaration } from "./aiProvider";
+import { findCatalogMatch } from "./exerciseCatalog";
+import { createSets } from "./workoutService";
+import { estimateWorkoutCalories } from "./energyService";
+import { detectPersonalRecords } from "./personalRecordService";
+import { MEAL_TYPES, MEAL_TYPE_LABELS, defaultMealType } from "./nutritionService";
+
+// Tools Fuse can call from the chat. Each call becomes a CoachAction that the
+// user approves or dismisses in the conversation; the model never saves anything itself.
+export const COACH_TOOLS: AIToolDeclaration[] = [
+  {
+    name: "log_workout",
+    description: "Record a workout the user says they have already completed.",
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: "Short name for the session, e.g. \"Leg Day\"" },
+        durationMinutes: { type: 'integer', description: "Session length in minutes; estimate if not stated" },
+        exercises: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              sets: { type: 'integer' },
+              reps: { type: 'integer' },
+              weightKg: { type: 'number', description: "Weight per rep in kg, 0 for bodyweight" },
+            },
+            required: ["name", "sets", "reps", "weightKg"],
+          },
+        },
+      },
+      required: ["name", "durationMinutes", "exercises"],
+    },
+  },
+  {
+    name: "log_meal",
+    description: "Record food the user says they ate. Estimate macros if only calories are given.",
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        calories: { type: 'number' },
+        protein: { type: 'number', description: "grams" },
+        carbs: { type: 'number', description: "grams" },
+        fat: { type: 'number', description: "grams" },
+        mealType: { type: 'string', description: `One of: ${MEAL_TYPES.join(', ')}` },
+      },
+      required: ["name", "calories"],
+    },
+  },
+  {
+    name: "log_weight",
+    description: "Record a body-weight measurement the user reports.",
+    parameters: {
+      type: 'object',
+      properties: {
+        weightKg: { type: 'number' },
+      },
+      required: ["weightKg"],
+    },
+  },
+  {
+    name: "suggest_workout_plan",
+    description: "Show a specific workout you recommend as a card the user can start in the workout logger.",
+    parameters: {
+      type: 'object',
+      properties: {
+        workoutName: { type: 'string', description: "A catchy name for the session" },
+        strategy: { type: 'string', description: "One sentence explaining why this workout fits them" },
+        exercises: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              sets: { type: 'integer' },
+              reps: { type: 'integer' },
+              weightKg: { type: 'number', description: "Suggested weight in kg, 0 for bodyweight" },
+            },
+            required: ["name", "sets", "reps", "weightKg"],
+          },
+        },
+      },
+      required: ["workoutName", "strategy", "exercises"],
+    },
+  },
+  {
+    name: "suggest_meal",
+    description: "Show a specific meal you recommend as a card the user can log if they eat it.",
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string', description: "Ingredients and portions in one or two sentences" },
+        calories: { type: 'number' },
+        protein: { type: 'number', description: "grams" },
+        carbs: { type: 'number', description: "grams" },
+        fat: { type: 'number', description: "grams" },
+        mealType: { type: 'string', description: `One of: ${MEAL_TYPES.join(', ')}` },
+      },
+      required: ["name", "calories", "protein", "carbs", "fat"],
+    },
+  },
+  {
+    name: "start_generated_workout",
+    description: "Generate a workout session for the user and open it in the workout logger, when they ask to train now.",
+    parameters: {
+      type: 'object',
+      properties: {
+        focus: { type: 'string', description: "Optional focus, e.g. \"upper body\" or \"20 minute HIIT\"" },
+      },
+    },
+  },
+];
+
+const num = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(n) && n >= 0 ? n : undefined;
+};
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toExercises = (value: unknown) =>
+  (Array.isArray(value) ? value : [])
+    .filter(isRecord)
+    .map(ex => ({
+      name: str(ex.name),
+      sets: Math.max(1, Math.round(num(ex.sets) ?? 1)),
+      reps: Math.round(num(ex.reps) ?? 0),
+      weight: num(ex.weightKg) ?? 0,
+    }))
+    .filter(ex => ex.name && ex.reps > 0);
+
+// Validates the model's arguments; calls that can't be turned into a sensible record are dropped
+const toPayload = ({ name, args }: AIToolCall): CoachActionPayload | null => {
+  switch (name) {
+    case 'log_workout': {
+      const exercises = toExercises(args.exercises);
+      if (exercises.length === 0) return null;
+      return {
+        type: 'logWorkout',
+        name: str(args.name) || 'Workout',
+        durationMinutes: Math.max(1, Math.round(num(args.durationMinutes) ?? exercises.length * 8)),
+        exercises,
+      };
+    }
+    case 'log_meal':
+    case 'suggest_meal': {
+      const calories = num(args.calories);
+      if (!str(args.name) || calories === undefined) return null;
+      const meal = {
+        name: str(args.name),
+        mealType: MEAL_TYPES.includes(args.mealType as MealType) ? args.mealType as MealType : undefined,
+        macros: {
+          calories: Math.round(calories),
+          protein: num(args.protein) ?? 0,
+          carbs: num(args.carbs) ?? 0,
+          fat: num(args.fat) ?? 0,
+        },
+      };
+      return name === 'log_meal'
+        ? { type: 'logMeal', ...meal }
+        : { type: 'mealSuggestion', ...meal, description: str(args.description) || undefined };
+    }
+    case 'suggest_workout_plan': {
+      const exercises = toExercises(args.exercises);
+      if (exercises.length === 0) return null;
+      return {
+        type: 'workoutPlan',
+        plan: {
+          workoutName: str(args.workoutName) || 'Suggested Workout',
+          strategy: str(args.strategy),
+          exercises: exercises.map(ex => ({ name: ex.name, sets: ex.sets, reps: ex.reps, weightSuggestion: ex.weight })),
+        },
+      };
+    }
+    case 'log_weight': {
+      const weight = num(args.weightKg);
+      return weight && weight > 20 && weight < 400 ? { type: 'logWeight', weight: Math.round(weight * 10) / 10 } : null;
+    }
+    case 'start_generated_workout':
+      return { type: 'startWorkout', focus: str(args.focus) || undefined };
+    default:
+      return null;
+  }
+};
+
+export const createCoachActions = (calls: AIToolCall[]): CoachAction[] =>
+  calls.flatMap((call, index) => {
+    const payload = toPayload(call);
+    return payload ? [{ ...payload, id: `action-${Date.now()}-${index}`, status: 'pending' as const }] : [];
+  });
+
+export const describeAction = (action: CoachActionPayload): string => {
+  switch (action.type) {
+    case 'logWorkout':
+      return `Workout "${action.name}" (${action.durationMinutes} min): `
+        + action.exercises.map(ex => `${ex.name} ${ex.sets}x${ex.reps}${ex.weight ? ` @ ${ex.weight}kg` : ''}`).join(', ');
+    case 'logMeal':
+      return `Meal "${action.name}"${action.mealType ? ` (${MEAL_TYPE_LABELS[action.mealType]})` : ''}: `
+        + `${action.macros.calories} kcal, P ${action.macros.protein}g, C ${action.macros.carbs}g, F ${action.macros.fat}g`;
+    case 'logWeight':
+      return `Weigh-in: ${action.weight} kg`;
+    case 'startWorkout':
+      return `Start a generated workout${action.focus ? ` (${action.focus})` : ''}`;
+    case 'workoutPlan':
+      return `Workout plan "${action.plan.workoutName}": `
+        + action.plan.exercises.map(ex => `${ex.name} ${ex.sets}x${ex.reps}${ex.weightSuggestion ? ` @ ${ex.weightSuggestion}kg` : ''}`).join(', ');
+    case 'mealSuggestion':
+      return `Meal idea "${action.name}": ${action.macros.calories} kcal, P ${action.macros.protein}g, C ${action.macros.carbs}g, F ${action.macros.fat}g`;
+  }
+};
+
+export const actionToWorkout = (
+  action: Extract<CoachActionPayload, { type: 'logWorkout' }>,
+  user: UserProfile,
+  workouts: WorkoutSession[],
+  catalog: CatalogExercise[]
+): WorkoutSession => {
+  const exercises: Exercise[] = action.exercises.map((ex, index) => {
+    const match = findCatalogMatch(ex.name, catalog);
+    return {
+      id: `${Date.now()}-${index}`,
+      name: match?.name ?? ex.name,
+      catalogId: match?.id,
+      // Reported as already done, so every set is complete
+      sets: createSets(ex.sets, ex.reps, ex.weight).map(set => ({ ...set, completed: true })),
+    };
+  });
+  const energy = estimateWorkoutCalories(exercises, action.durationMinutes, user, catalog);
+  const session: WorkoutSession = {
+    id: Date.now().toString(),
+    date: new Date().toISOString(),
+    name: action.name,
+    exercises,
+    durationMinutes: action.durationMinutes,
+    caloriesBurned: energy.calories,
+    caloriesMethod: energy.method,
+  };
+  session.personalRecords = detectPersonalRecords(session, workouts);
+  return session;
+};
+
+export const actionToMeal = (action: Extract<CoachActionPayload, { type: 'logMeal' | 'mealSuggestion' }>): MealLog => {
+  const timestamp = Date.now();
+  return {
+    id: timestamp.toString(),
+    name: action.name,
+    timestamp,
+    mealType: action.mealType ?? defaultMealType(timestamp),
+    macros: action.macros,
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, MealLog, UserProfile, WorkoutSession } from '../types';
+import { DEFAULT_SECTIONS, buildCoachContext, estimateTokens } from './contextService';
+import { detectPersonalRecords } from './personalRecordService';
+
+const DAY = '2024-01-10';
+
+const at = (day: number, hour = 12) => new Date(2024, 0, day, hour);
+
+const user: UserProfile = {
+  name: 'Sam', gender: 'Female', age: 30, weight: 70, height: 170, goal: 'Build Muscle',
+  activityLevel: ActivityLevel.MODERATE,
+  weightHistory: [
+    { id: 'w1', date: '2023-12-20', weight: 71 },
+    { id: 'w2', date: '2024-01-09', weight: 70 },
+  ],
+};
+
+const workout = (day: number, weight: number): WorkoutSession => ({
+  id: `s${day}`,
+  date: at(day, 18).toISOString(),
+  name: 'Lower',
+  durationMinutes: 50,
+  caloriesBurned: 320,
+  exercises: [{
+    id: `e${day}`, name: 'Squat', catalogId: 'back-squat',
+    sets: [{ id: `s${day}-1`, type: 'working', reps: 5, weight, completed: true }],
+  }],
+});
+
+// Heavier each day, with records detected as they would be on save
+const workouts = [workout(8, 80), workout(9, 85), workout(10, 90)]
+  .map((w, i, all) => ({ ...w, personalRecords: detectPersonalRecords(w, all.slice(0, i)) }));
+
+const meals = [9, 10].map(day => ({
+  id: `m${day}`, name: 'Lunch', mealType: 'lunch', timestamp: at(day).getTime(),
+  macros: { calories: 650, protein: 45, carbs: 70, fat: 20 },
+})) as MealLog[];
+
+const data = { user, workouts, meals, waterLogs: [] };
+
+// Section titles in the order they appear in the output
+const titles = (context: string) =>
+  context.split('\n\n').map(section => section.split('\n')[0]);
+
+describe('buildCoachContext', () => {
+  it('includes every section with data, in priority order', () => {
+    expect(titles(buildCoachContext(data, { day: DAY, maxTokens: 5000 }))).toEqual([
+      'Profile:', 'Wed, Jan 10:', 'Training:', 'Nutrition (previous 7 days):', 'Weight:',
+      'Recent Workouts:', 'Exercise Bests (most trained first):', 'Recent Personal Records:',
+    ]);
+  });
+
+  it('skips sections without data', () => {
+    const context = buildCoachContext({ user: { ...user, weightHistory: [] }, workouts: [] }, { day: DAY, maxTokens: 5000 });
+    expect(titles(context)).toEqual(['Profile:', 'Wed, Jan 10:', 'Training:', 'Recent Workouts:']);
+    expect(context).toContain('No workouts recorded.');
+  });
+
+  it('drops the lowest priority sections first when over budget', () => {
+    const full = titles(buildCoachContext(data, { day: DAY, maxTokens: 5000 }));
+    let previous = full.length;
+    for (let budget = 400; budget >= 20; budget -= 10) {
+      const kept = titles(buildCoachContext(data, { day: DAY, maxTokens: budget }));
+      expect(kept).toEqual(full.slice(0, kept.length));
+      expect(kept.length).toBeLessThanOrEqual(previous);
+      previous = kept.length;
+    }
+    expect(previous).toBeLessThan(3);
+  });
+
+  it('stays within the token budget, separators included', () => {
+    for (let budget = 5; budget <= 600; budget += 7) {
+      const context = buildCoachContext(data, { day: DAY, maxTokens: budget });
+      expect(estimateTokens(context)).toBeLessThanOrEqual(budget);
+    }
+  });
+
+  it('follows a custom section order', () => {
+    const context = buildCoachContext(data, { day: DAY, maxTokens: 5000, sections: ['weight', 'profile'] });
+    expect(titles(context)).toEqual(['Weight:', 'Profile:']);
+  });
+
+  it('is empty without any budget', () => {
+    expect(buildCoachContext(data, { day: DAY, maxTokens: 0 })).toBe('');
+    expect(DEFAULT_SECTIONS[0]).toBe('profile');
+  });
+});
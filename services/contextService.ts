@@ -0,0 +1,209 @@
+import { MealLog, UserProfile, WaterLog, WorkoutSession } from "../types";
+import { addDays, filterByDay, formatDayLabel, toDayKey, todayKey } from "./dateService";
+import { getMacroTargets, sumMacros } from "./nutritionService";
+import { computeWeightTrend, sortWeightHistory } from "./weightService";
+import { calculateStreak } from "./workoutService";
+import { formatPersonalRecord, getExerciseBests, getPersonalRecordHistory } from "./personalRecordService";
+import { formatWater, getWaterGoal, waterOnDay } from "./hydrationService";
+
+// Builds the plain-text summary of the user's data that AI features send along
+// with their prompts. Sections are added in priority order until the token
+// budget is spent, so the most useful facts survive when data is plentiful.
+
+export interface CoachContextData {
+  user: UserProfile;
+  workouts: WorkoutSession[];
+  meals?: MealLog[];
+  waterLogs?: WaterLog[];
+}
+
+export type ContextSection = 'profile' | 'today' | 'nutrition' | 'weight' | 'training' | 'recentWorkouts' | 'exerciseBests' | 'records';
+
+export interface ContextOptions {
+  maxTokens?: number;
+  day?: string; // Day the summary is written for; defaults to today
+  sections?: ContextSection[]; // Which sections to include, in priority order
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 1200;
+
+export const DEFAULT_SECTIONS: ContextSection[] = [
+  'profile', 'today', 'training', 'nutrition', 'weight', 'recentWorkouts', 'exerciseBests', 'records',
+];
+
+const NUTRITION_WINDOW_DAYS = 7;
+const TRAINING_WINDOW_DAYS = 28;
+const MAX_LIST_ITEMS = 10;
+
+// Close enough to real tokenizers for English text, and errs on the high side for numbers
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+interface Section {
+  title: string;
+  lines: string[];
+}
+
+const round = (value: number) => Math.round(value);
+
+const profileSection = ({ user }: CoachContextData): Section => ({
+  title: "Profile",
+  lines: [
+    `Name: ${user.name}, ${user.age}y, ${user.gender}`,
+    `Height: ${user.height}cm, Weight: ${user.weight}kg`,
+    `Primary Goal: ${user.goal}`,
+    `Activity Level: ${user.activityLevel}`,
+  ],
+});
+
+const todaySection = ({ user, workouts, meals, waterLogs }: CoachContextData, day: string): Section => {
+  const targets = getMacroTargets(user);
+  const lines: string[] = [];
+  if (meals) {
+    const dayMeals = filterByDay(meals, day, m => m.timestamp);
+    const eaten = sumMacros(dayMeals);
+    lines.push(
+      `Eaten: ${round(eaten.calories)}/${targets.calories} kcal, protein ${round(eaten.protein)}/${targets.protein}g, `
+      + `carbs ${round(eaten.carbs)}/${targets.carbs}g, fat ${round(eaten.fat)}/${targets.fat}g (${dayMeals.length} meals logged)`
+    );
+  }
+  const dayWorkouts = filterByDay(workouts, day, w => w.date);
+  lines.push(dayWorkouts.length > 0
+    ? `Trained: ${dayWorkouts.map(w => `${w.name} (${w.durationMinutes} min, ${w.caloriesBurned} kcal)`).join(', ')}`
+    : "Trained: no workouts");
+  if (waterLogs) {
+    lines.push(`Water: ${formatWater(waterOnDay(waterLogs, day))} of ${formatWater(getWaterGoal(user, workouts, day))}`);
+  }
+  return { title: formatDayLabel(day), lines };
+};
+
+// Daily averages over the days that have any meals, so unlogged days don't read as fasting
+const nutritionSection = ({ user, meals }: CoachContextData, day: string): Section | null => {
+  if (!meals) return null;
+  const days = Array.from({ length: NUTRITION_WINDOW_DAYS }, (_, i) => addDays(day, -i - 1));
+  const logged = days.map(d => filterByDay(meals, d, m => m.timestamp)).filter(list => list.length > 0);
+  if (logged.length === 0) {
+    return { title: `Nutrition (previous ${NUTRITION_WINDOW_DAYS} days)`, lines: ["No meals logged."] };
+  }
+  const targets = getMacroTargets(user);
+  const totals = logged.map(sumMacros);
+  const avg = (key: 'calories' | 'protein') => round(totals.reduce((acc, t) => acc + t[key], 0) / totals.length);
+  const proteinDays = totals.filter(t => t.protein >= targets.protein * 0.9).length;
+  const calorieDays = totals.filter(t => Math.abs(t.calories - targets.calories) <= targets.calories * 0.1).length;
+  return {
+    title: `Nutrition (previous ${NUTRITION_WINDOW_DAYS} days)`,
+    lines: [
+      `Logged on ${logged.length} of ${NUTRITION_WINDOW_DAYS} days`,
+      `Average: ${avg('calories')} kcal (target ${targets.calories}), protein ${avg('protein')}g (target ${targets.protein}g)`,
+      `Of those days: within 10% of calorie target on ${calorieDays}, hit protein on ${proteinDays}`,
+    ],
+  };
+};
+
+const weightSection = ({ user }: CoachContextData): Section | null => {
+  const history = sortWeightHistory(user.weightHistory || []);
+  if (history.length === 0) return null;
+  const trend = computeWeightTrend(history);
+  const latest = history[history.length - 1];
+  const lines = [`Latest weigh-in: ${latest.weight}kg on ${latest.date} (${history.length} entries)`];
+  if (trend.weeklyRate !== null) lines.push(`Trend: ${trend.weeklyRate > 0 ? '+' : ''}${trend.weeklyRate}kg/week`);
+  if (trend.totalChange !== null) lines.push(`Change since first weigh-in (${history[0].date}): ${trend.totalChange > 0 ? '+' : ''}${trend.totalChange}kg`);
+  return { title: "Weight", lines };
+};
+
+const trainingSection = ({ workouts }: CoachContextData, day: string): Section => {
+  const windowStart = addDays(day, -TRAINING_WINDOW_DAYS + 1);
+  const recent = workouts.filter(w => toDayKey(w.date) >= windowStart && toDayKey(w.date) <= day);
+  const withGoal = recent.filter(w => w.goal);
+  const lines = [
+    `Current streak: ${calculateStreak(workouts, day)} days`,
+    `Workouts in last ${TRAINING_WINDOW_DAYS} days: ${recent.length} (${round(recent.reduce((acc, w) => acc + w.durationMinutes, 0))} min total)`,
+    `Total workouts logged: ${workouts.length}`,
+  ];
+  if (withGoal.length > 0) {
+    const achieved = withGoal.filter(w => w.goalAchieved).length;
+    lines.push(`Session goals achieved: ${achieved}/${withGoal.length} (${round((achieved / withGoal.length) * 100)}%)`);
+  }
+  return { title: "Training", lines };
+};
+
+const recentWorkoutsSection = ({ workouts }: CoachContextData, day: string): Section => {
+  const recent = [...workouts]
+    .filter(w => toDayKey(w.date) <= day)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_LIST_ITEMS);
+  return {
+    title: "Recent Workouts",
+    lines: recent.length > 0
+      ? recent.map(w =>
+          `${toDayKey(w.date)}: ${w.name}, ${w.durationMinutes} min, ${w.caloriesBurned} kcal`
+          + (w.exercises.length ? `; ${w.exercises.map(e => e.name).join(', ')}` : '')
+          + (w.goal ? `; goal "${w.goal}" ${w.goalAchieved ? 'achieved' : 'missed'}` : ''))
+      : ["No workouts recorded."],
+  };
+};
+
+const exerciseBestsSection = ({ workouts }: CoachContextData): Section | null => {
+  const bests = getExerciseBests(workouts).filter(b => b.heaviestWeight > 0).slice(0, MAX_LIST_ITEMS);
+  if (bests.length === 0) return null;
+  return {
+    title: "Exercise Bests (most trained first)",
+    lines: bests.map(b =>
+      `${b.exerciseName}: top ${b.heaviestWeight}kg`
+      + (b.estimatedOneRepMax ? `, e1RM ${b.estimatedOneRepMax}kg` : '')
+      + `, ${b.sessions} sessions, last ${toDayKey(b.lastDate)}`),
+  };
+};
+
+const recordsSection = ({ workouts }: CoachContextData): Section | null => {
+  const records = getPersonalRecordHistory(workouts).reverse().slice(0, MAX_LIST_ITEMS);
+  if (records.length === 0) return null;
+  return {
+    title: "Recent Personal Records",
+    lines: records.map(r => `${toDayKey(r.date)}: ${r.exerciseName} ${formatPersonalRecord(r)}`),
+  };
+};
+
+const buildSection = (id: ContextSection, data: CoachContextData, day: string): Section | null => {
+  switch (id) {
+    case 'profile': return profileSection(data);
+    case 'today': return todaySection(data, day);
+    case 'nutrition': return nutritionSection(data, day);
+    case 'weight': return weightSection(data);
+    case 'training': return trainingSection(data, day);
+    case 'recentWorkouts': return recentWorkoutsSection(data, day);
+    case 'exerciseBests': return exerciseBestsSection(data);
+    case 'records': return recordsSection(data);
+  }
+};
+
+export const buildCoachContext = (data: CoachContextData, options: ContextOptions = {}): string => {
+  const { maxTokens = DEFAULT_CONTEXT_TOKENS, day = todayKey(), sections = DEFAULT_SECTIONS } = options;
+  const output: string[] = [];
+  let used = 0;
+
+  for (const id of sections) {
+    const section = buildSection(id, data, day);
+    if (!section || section.lines.length === 0) continue;
+
+    const heading = `${section.title}:`;
+    // Each piece is costed with the newlines that join it to what came before
+    const headingTokens = estimateTokens(output.length > 0 ? `\n\n${heading}` : heading);
+    if (used + headingTokens > maxTokens) break;
+    // Lists are ordered most relevant first, so a section that doesn't fit keeps its head
+    const lines: string[] = [];
+    let sectionTokens = headingTokens;
+    for (const line of section.lines) {
+      const cost = estimateTokens(`\n- ${line}`);
+      if (used + sectionTokens + cost > maxTokens) break;
+      lines.push(`- ${line}`);
+      sectionTokens += cost;
+    }
+    if (lines.length === 0) break;
+    output.push([heading, ...lines].join('\n'));
+    used += sectionTokens;
+    // A cut-short section means the budget is spent; lower priorities don't get its leftovers
+    if (lines.length < section.lines.length) break;
+  }
+
+  return output.join('\n\n');
+};
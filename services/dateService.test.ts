@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addDays, dayKeyToDate, filterByDay, formatDayLabel, moveToDay, toDayKey } from './dateService';
+
+describe('toDayKey', () => {
+  it('uses the local calendar day', () => {
+    expect(toDayKey(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05');
+    expect(toDayKey(new Date(2024, 0, 6, 0, 15).getTime())).toBe('2024-01-06');
+  });
+
+  it('round-trips through dayKeyToDate', () => {
+    const date = dayKeyToDate('2024-03-09');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 2, 9, 0]);
+    expect(toDayKey(date)).toBe('2024-03-09');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
+
+describe('moveToDay', () => {
+  it('keeps the time of day', () => {
+    const moved = moveToDay(new Date(2024, 0, 5, 23, 45, 10).getTime(), '2024-02-01');
+    expect(moved).toBe(new Date(2024, 1, 1, 23, 45, 10).getTime());
+  });
+});
+
+describe('filterByDay', () => {
+  it('keeps items from that local day only', () => {
+    const items = [
+      { id: 'late', at: new Date(2024, 0, 5, 23, 0).getTime() },
+      { id: 'next', at: new Date(2024, 0, 6, 7, 0).getTime() },
+    ];
+    expect(filterByDay(items, '2024-01-05', i => i.at).map(i => i.id)).toEqual(['late']);
+  });
+});
+
+describe('formatDayLabel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 10, 12, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('names nearby days and dates the rest', () => {
+    expect(formatDayLabel('2024-01-10')).toBe('Today');
+    expect(formatDayLabel('2024-01-09')).toBe('Yesterday');
+    expect(formatDayLabel('2024-01-11')).toBe('Tomorrow');
+    expect(formatDayLabel('2024-01-05')).toBe('Fri, Jan 5');
+  });
+});
@@ -0,0 +1,45 @@
+// Calendar-day helpers. Day keys are YYYY-MM-DD in the user's local timezone,
+// so a meal logged at 11pm counts toward that evening rather than the next UTC day.
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toDayKey = (value: Date | number | string): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const todayKey = (): string => toDayKey(new Date());
+
+// Local midnight at the start of the day
+export const dayKeyToDate = (dayKey: string): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (dayKey: string, days: number): string => {
+  const date = dayKeyToDate(dayKey);
+  date.setDate(date.getDate() + days);
+  return toDayKey(date);
+};
+
+// Same time of day, moved to another calendar day
+export const moveToDay = (timestamp: number, dayKey: string): number => {
+  const source = new Date(timestamp);
+  const target = dayKeyToDate(dayKey);
+  target.setHours(source.getHours(), source.getMinutes(), source.getSeconds(), source.getMilliseconds());
+  return target.getTime();
+};
+
+export const isOnDay = (value: Date | number | string, dayKey: string): boolean =>
+  toDayKey(value) === dayKey;
+
+export const filterByDay = <T>(items: T[], dayKey: string, getDate: (item: T) => Date | number | string): T[] =>
+  items.filter(item => isOnDay(getDate(item), dayKey));
+
+export const formatDayLabel = (dayKey: string): string => {
+  const today = todayKey();
+  if (dayKey === today) return 'Today';
+  if (dayKey === addDays(today, -1)) return 'Yesterday';
+  if (dayKey === addDays(today, 1)) return 'Tomorrow';
+  return dayKeyToDate(dayKey).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
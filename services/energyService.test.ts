@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, Exercise, UserProfile } from '../types';
+import { EXERCISE_CATALOG } from './exerciseCatalog';
+import { estimateWorkoutCalories, exerciseMet } from './energyService';
+
+const user: UserProfile = {
+  name: 'Sam', gender: 'Male', age: 30, weight: 80, height: 180, goal: 'Keep Fit',
+  activityLevel: ActivityLevel.MODERATE, weightHistory: [],
+};
+
+const exercise = (catalogId: string | undefined, setCount: number, rpe?: number): Exercise => ({
+  id: catalogId ?? 'custom',
+  name: catalogId ?? 'Something new',
+  catalogId,
+  sets: Array.from({ length: setCount }, (_, i) => ({ id: `${i}`, type: 'working' as const, reps: 8, weight: 50, rpe, completed: true })),
+});
+
+describe('exerciseMet', () => {
+  it('uses the movement pattern, or a specific value where the catalog has one', () => {
+    expect(exerciseMet(exercise('back-squat', 3), EXERCISE_CATALOG)).toBe(6);
+    expect(exerciseMet(exercise('lateral-raise', 3), EXERCISE_CATALOG)).toBe(3.5);
+    expect(exerciseMet(exercise('running', 1), EXERCISE_CATALOG)).toBe(9.8);
+  });
+
+  it('scales strength work by the logged effort', () => {
+    expect(exerciseMet(exercise('back-squat', 3, 6), EXERCISE_CATALOG)).toBe(3.5);
+    expect(exerciseMet(exercise('lateral-raise', 3, 9), EXERCISE_CATALOG)).toBe(6);
+  });
+
+  it('treats unlinked exercises as general resistance training', () => {
+    expect(exerciseMet(exercise(undefined, 3), EXERCISE_CATALOG)).toBe(5);
+  });
+});
+
+describe('estimateWorkoutCalories', () => {
+  const exercises = [exercise('back-squat', 3), exercise('lateral-raise', 1)];
+
+  it('weights the MET estimate by sets per exercise', () => {
+    // (6 * 3 + 3.5 * 1) / 4 sets = 5.375 MET, for an hour at 80kg
+    expect(estimateWorkoutCalories(exercises, 60, user, EXERCISE_CATALOG)).toEqual({ calories: 430, method: 'met', met: 5.4 });
+  });
+
+  it('uses heart rate when the average is high enough', () => {
+    expect(estimateWorkoutCalories(exercises, 30, user, EXERCISE_CATALOG, [130, 150])).toEqual({
+      calories: 396, method: 'heartRate', averageHeartRate: 140,
+    });
+  });
+
+  it('falls back to MET when the heart rate is too low to be reliable', () => {
+    expect(estimateWorkoutCalories(exercises, 60, user, EXERCISE_CATALOG, [70, 80]).method).toBe('met');
+  });
+});
@@ -0,0 +1,111 @@
+import { CatalogExercise, Exercise, MovementPattern, UserProfile, CalorieEstimateMethod } from "../types";
+import { getCatalogExercise } from "./exerciseCatalog";
+
+// MET values follow the 2011 Compendium of Physical Activities.
+// Strength work is scaled by effort (RPE) when it was logged.
+const STRENGTH_MET = { light: 3.5, moderate: 5.0, vigorous: 6.0 };
+
+const MET_BY_PATTERN: Record<MovementPattern, number> = {
+  'Horizontal Push': STRENGTH_MET.moderate,
+  'Vertical Push': STRENGTH_MET.moderate,
+  'Horizontal Pull': STRENGTH_MET.moderate,
+  'Vertical Pull': STRENGTH_MET.moderate,
+  'Squat': STRENGTH_MET.vigorous,
+  'Hinge': STRENGTH_MET.vigorous,
+  'Lunge': STRENGTH_MET.moderate,
+  'Carry': STRENGTH_MET.vigorous,
+  'Core': 3.8,
+  'Isolation': STRENGTH_MET.light,
+  'Cardio': 8.0,
+};
+
+// Catalog entries whose cost differs noticeably from their movement pattern
+const MET_BY_CATALOG_ID: Record<string, number> = {
+  'running': 9.8,
+  'cycling': 7.5,
+  'rowing-machine': 7.0,
+  'jump-rope': 11.8,
+  'burpee': 8.0,
+  'jumping-jack': 7.7,
+  'mountain-climber': 8.0,
+  'kettlebell-swing': 9.8,
+  'plank': 3.8,
+};
+
+// Exercises that aren't linked to the catalog count as general resistance training
+const DEFAULT_MET = STRENGTH_MET.moderate;
+
+// Below this average the Keytel equation isn't reliable, so MET is used instead
+const MIN_HEART_RATE_FOR_ESTIMATE = 90;
+
+export const exerciseMet = (exercise: Exercise, catalog: CatalogExercise[]): number => {
+  const entry = getCatalogExercise(exercise.catalogId, catalog);
+  if (!entry) return DEFAULT_MET;
+  if (MET_BY_CATALOG_ID[entry.id]) return MET_BY_CATALOG_ID[entry.id];
+
+  const base = MET_BY_PATTERN[entry.pattern];
+  if (entry.pattern === 'Cardio' || entry.pattern === 'Core') return base;
+
+  const rpes = exercise.sets.map(s => s.rpe).filter((r): r is number => r !== undefined);
+  if (rpes.length === 0) return base;
+  const avgRpe = rpes.reduce((a, b) => a + b, 0) / rpes.length;
+  if (avgRpe >= 8) return STRENGTH_MET.vigorous;
+  if (avgRpe <= 6) return STRENGTH_MET.light;
+  return STRENGTH_MET.moderate;
+};
+
+// Time is split across exercises in proportion to their logged sets
+export const sessionMet = (exercises: Exercise[], catalog: CatalogExercise[]): number => {
+  const weighted = exercises.map(ex => ({ met: exerciseMet(ex, catalog), weight: Math.max(1, ex.sets.length) }));
+  const totalWeight = weighted.reduce((acc, w) => acc + w.weight, 0);
+  if (totalWeight === 0) return DEFAULT_MET;
+  return weighted.reduce((acc, w) => acc + w.met * w.weight, 0) / totalWeight;
+};
+
+// Keytel et al. (2005), kcal per minute from average heart rate, weight and age
+const keytelKcalPerMinute = (heartRate: number, user: UserProfile): number => {
+  const male = (-55.0969 + 0.6309 * heartRate + 0.1988 * user.weight + 0.2017 * user.age) / 4.184;
+  const female = (-20.4022 + 0.4472 * heartRate - 0.1263 * user.weight + 0.074 * user.age) / 4.184;
+  if (user.gender === 'Male') return male;
+  if (user.gender === 'Female') return female;
+  return (male + female) / 2;
+};
+
+export interface EnergyEstimate {
+  calories: number;
+  method: CalorieEstimateMethod;
+  met?: number;
+  averageHeartRate?: number;
+}
+
+export const estimateWorkoutCalories = (
+  exercises: Exercise[],
+  activeMinutes: number,
+  user: UserProfile,
+  catalog: CatalogExercise[],
+  heartRateSamples: number[] = []
+): EnergyEstimate => {
+  if (heartRateSamples.length > 0) {
+    const averageHeartRate = Math.round(heartRateSamples.reduce((a, b) => a + b, 0) / heartRateSamples.length);
+    if (averageHeartRate >= MIN_HEART_RATE_FOR_ESTIMATE) {
+      return {
+        calories: Math.max(0, Math.round(keytelKcalPerMinute(averageHeartRate, user) * activeMinutes)),
+        method: 'heartRate',
+        averageHeartRate,
+      };
+    }
+  }
+
+  const met = sessionMet(exercises, catalog);
+  return {
+    calories: Math.round(met * user.weight * (activeMinutes / 60)),
+    method: 'met',
+    met: Math.round(met * 10) / 10,
+  };
+};
+
+export const CALORIE_METHOD_LABELS: Record<CalorieEstimateMethod, string> = {
+  heartRate: 'Heart rate',
+  met: 'MET estimate',
+  legacy: 'Legacy estimate',
+};
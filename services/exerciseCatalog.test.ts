@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogExercise } from '../types';
+import { EXERCISE_CATALOG, createCustomExercise, findCatalogMatch, getFullCatalog, normalizeExerciseName, searchCatalog } from './exerciseCatalog';
+
+describe('EXERCISE_CATALOG', () => {
+  it('has unique IDs', () => {
+    expect(new Set(EXERCISE_CATALOG.map(e => e.id)).size).toBe(EXERCISE_CATALOG.length);
+  });
+});
+
+describe('normalizeExerciseName', () => {
+  it('ignores case, punctuation and plurals', () => {
+    expect(normalizeExerciseName('Lateral Raises')).toBe(normalizeExerciseName('lateral-raise'));
+    expect(normalizeExerciseName('Pull-Ups')).toBe('pullup');
+  });
+});
+
+describe('findCatalogMatch', () => {
+  it('matches canonical names and aliases', () => {
+    expect(findCatalogMatch('bench press', EXERCISE_CATALOG)?.id).toBe('barbell-bench-press');
+    expect(findCatalogMatch('OHP', EXERCISE_CATALOG)?.id).toBe('overhead-press');
+    expect(findCatalogMatch('Chin-ups', EXERCISE_CATALOG)?.id).toBe('pull-up');
+  });
+
+  it('finds nothing for unknown or empty names', () => {
+    expect(findCatalogMatch('Underwater Basket Weaving', EXERCISE_CATALOG)).toBeUndefined();
+    expect(findCatalogMatch('  ', EXERCISE_CATALOG)).toBeUndefined();
+  });
+});
+
+describe('searchCatalog', () => {
+  it('ranks prefix matches ahead of substring matches', () => {
+    const names = searchCatalog('bench', EXERCISE_CATALOG).map(e => e.name);
+    expect(names[0]).toBe('Bench Press');
+    expect(names).toContain('Incline Bench Press');
+  });
+
+  it('falls back to primary muscles', () => {
+    expect(searchCatalog('triceps', EXERCISE_CATALOG).some(e => e.primaryMuscles.includes('Triceps'))).toBe(true);
+  });
+
+  it('respects the limit and ignores blank queries', () => {
+    expect(searchCatalog('e', EXERCISE_CATALOG, 3)).toHaveLength(3);
+    expect(searchCatalog(' ', EXERCISE_CATALOG)).toEqual([]);
+  });
+});
+
+describe('custom exercises', () => {
+  it('are searchable alongside the bundled catalog', () => {
+    const custom: CatalogExercise = createCustomExercise('  Landmine Press ', 'Shoulders', 'Barbell', 'Vertical Push');
+    expect(custom).toMatchObject({ name: 'Landmine Press', primaryMuscles: ['Shoulders'], custom: true });
+    expect(custom.id.startsWith('custom-')).toBe(true);
+    expect(findCatalogMatch('landmine press', getFullCatalog([custom]))).toBe(custom);
+  });
+});
@@ -0,0 +1,137 @@
+import { CatalogExercise, Equipment, MovementPattern, MuscleGroup } from "../types";
+
+// Bundled exercise catalog. IDs are canonical and must never change once
+// shipped, since logged exercises and personal records refer to them.
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  // Chest
+  { id: 'barbell-bench-press', name: 'Bench Press', aliases: ['Bench', 'Barbell Bench Press', 'Flat Bench'], primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders'], equipment: 'Barbell', pattern: 'Horizontal Push' },
+  { id: 'incline-bench-press', name: 'Incline Bench Press', aliases: ['Incline Bench'], primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders', 'Triceps'], equipment: 'Barbell', pattern: 'Horizontal Push' },
+  { id: 'dumbbell-bench-press', name: 'Dumbbell Bench Press', aliases: ['DB Bench'], primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders'], equipment: 'Dumbbell', pattern: 'Horizontal Push' },
+  { id: 'dumbbell-fly', name: 'Dumbbell Fly', aliases: ['Chest Fly', 'Flyes'], primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders'], equipment: 'Dumbbell', pattern: 'Isolation' },
+  { id: 'cable-crossover', name: 'Cable Crossover', aliases: ['Cable Fly'], primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders'], equipment: 'Cable', pattern: 'Isolation' },
+  { id: 'push-up', name: 'Push-up', aliases: ['Pushups', 'Press-up'], primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders', 'Core'], equipment: 'Bodyweight', pattern: 'Horizontal Push' },
+  { id: 'dip', name: 'Dip', aliases: ['Dips', 'Parallel Bar Dip'], primaryMuscles: ['Chest', 'Triceps'], secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', pattern: 'Vertical Push' },
+
+  // Back
+  { id: 'deadlift', name: 'Deadlift', aliases: ['Conventional Deadlift', 'Barbell Deadlift'], primaryMuscles: ['Hamstrings', 'Glutes', 'Back'], secondaryMuscles: ['Traps', 'Forearms', 'Core'], equipment: 'Barbell', pattern: 'Hinge' },
+  { id: 'barbell-row', name: 'Barbell Row', aliases: ['Bent Over Row', 'BB Row'], primaryMuscles: ['Back', 'Lats'], secondaryMuscles: ['Biceps', 'Forearms'], equipment: 'Barbell', pattern: 'Horizontal Pull' },
+  { id: 'dumbbell-row', name: 'Dumbbell Row', aliases: ['One Arm Row', 'DB Row'], primaryMuscles: ['Back', 'Lats'], secondaryMuscles: ['Biceps'], equipment: 'Dumbbell', pattern: 'Horizontal Pull' },
+  { id: 'pull-up', name: 'Pull-up', aliases: ['Pullups', 'Chin-up', 'Chinups'], primaryMuscles: ['Lats'], secondaryMuscles: ['Biceps', 'Back'], equipment: 'Bodyweight', pattern: 'Vertical Pull' },
+  { id: 'lat-pulldown', name: 'Lat Pulldown', aliases: ['Pulldown'], primaryMuscles: ['Lats'], secondaryMuscles: ['Biceps', 'Back'], equipment: 'Cable', pattern: 'Vertical Pull' },
+  { id: 'seated-cable-row', name: 'Seated Cable Row', aliases: ['Cable Row'], primaryMuscles: ['Back'], secondaryMuscles: ['Lats', 'Biceps'], equipment: 'Cable', pattern: 'Horizontal Pull' },
+  { id: 'face-pull', name: 'Face Pull', primaryMuscles: ['Shoulders', 'Traps'], secondaryMuscles: ['Back'], equipment: 'Cable', pattern: 'Horizontal Pull' },
+  { id: 'shrug', name: 'Shrug', aliases: ['Shrugs', 'Barbell Shrug'], primaryMuscles: ['Traps'], secondaryMuscles: ['Forearms'], equipment: 'Barbell', pattern: 'Isolation' },
+
+  // Shoulders
+  { id: 'overhead-press', name: 'Overhead Press', aliases: ['OHP', 'Military Press', 'Shoulder Press'], primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps', 'Core'], equipment: 'Barbell', pattern: 'Vertical Push' },
+  { id: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', aliases: ['DB Shoulder Press', 'Seated Dumbbell Press'], primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps'], equipment: 'Dumbbell', pattern: 'Vertical Push' },
+  { id: 'lateral-raise', name: 'Lateral Raise', aliases: ['Side Raise', 'Lateral Raises'], primaryMuscles: ['Shoulders'], secondaryMuscles: [], equipment: 'Dumbbell', pattern: 'Isolation' },
+
+  // Arms
+  { id: 'barbell-curl', name: 'Barbell Curl', aliases: ['Curl', 'Bicep Curl'], primaryMuscles: ['Biceps'], secondaryMuscles: ['Forearms'], equipment: 'Barbell', pattern: 'Isolation' },
+  { id: 'dumbbell-curl', name: 'Dumbbell Curl', aliases: ['DB Curl'], primaryMuscles: ['Biceps'], secondaryMuscles: ['Forearms'], equipment: 'Dumbbell', pattern: 'Isolation' },
+  { id: 'hammer-curl', name: 'Hammer Curl', primaryMuscles: ['Biceps', 'Forearms'], secondaryMuscles: [], equipment: 'Dumbbell', pattern: 'Isolation' },
+  { id: 'tricep-pushdown', name: 'Tricep Pushdown', aliases: ['Triceps Pushdown', 'Cable Pushdown'], primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'Cable', pattern: 'Isolation' },
+  { id: 'skull-crusher', name: 'Skull Crusher', aliases: ['Lying Tricep Extension'], primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'Barbell', pattern: 'Isolation' },
+  { id: 'overhead-tricep-extension', name: 'Overhead Tricep Extension', primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'Dumbbell', pattern: 'Isolation' },
+
+  // Legs
+  { id: 'back-squat', name: 'Squat', aliases: ['Back Squat', 'Barbell Squat'], primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings', 'Core'], equipment: 'Barbell', pattern: 'Squat' },
+  { id: 'front-squat', name: 'Front Squat', primaryMuscles: ['Quads'], secondaryMuscles: ['Glutes', 'Core'], equipment: 'Barbell', pattern: 'Squat' },
+  { id: 'goblet-squat', name: 'Goblet Squat', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Core'], equipment: 'Kettlebell', pattern: 'Squat' },
+  { id: 'bodyweight-squat', name: 'Bodyweight Squat', aliases: ['Air Squat'], primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: [], equipment: 'Bodyweight', pattern: 'Squat' },
+  { id: 'leg-press', name: 'Leg Press', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'Machine', pattern: 'Squat' },
+  { id: 'romanian-deadlift', name: 'Romanian Deadlift', aliases: ['RDL'], primaryMuscles: ['Hamstrings', 'Glutes'], secondaryMuscles: ['Back'], equipment: 'Barbell', pattern: 'Hinge' },
+  { id: 'hip-thrust', name: 'Hip Thrust', aliases: ['Barbell Hip Thrust', 'Glute Bridge'], primaryMuscles: ['Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'Barbell', pattern: 'Hinge' },
+  { id: 'kettlebell-swing', name: 'Kettlebell Swing', aliases: ['KB Swing'], primaryMuscles: ['Glutes', 'Hamstrings'], secondaryMuscles: ['Core', 'Shoulders'], equipment: 'Kettlebell', pattern: 'Hinge' },
+  { id: 'walking-lunge', name: 'Lunge', aliases: ['Lunges', 'Walking Lunge'], primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'Dumbbell', pattern: 'Lunge' },
+  { id: 'bulgarian-split-squat', name: 'Bulgarian Split Squat', aliases: ['Split Squat'], primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'Dumbbell', pattern: 'Lunge' },
+  { id: 'leg-extension', name: 'Leg Extension', primaryMuscles: ['Quads'], secondaryMuscles: [], equipment: 'Machine', pattern: 'Isolation' },
+  { id: 'leg-curl', name: 'Leg Curl', aliases: ['Hamstring Curl'], primaryMuscles: ['Hamstrings'], secondaryMuscles: [], equipment: 'Machine', pattern: 'Isolation' },
+  { id: 'calf-raise', name: 'Calf Raise', aliases: ['Calf Raises'], primaryMuscles: ['Calves'], secondaryMuscles: [], equipment: 'Machine', pattern: 'Isolation' },
+
+  // Core & Carries
+  { id: 'plank', name: 'Plank', primaryMuscles: ['Core'], secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', pattern: 'Core' },
+  { id: 'crunch', name: 'Crunch', aliases: ['Crunches', 'Sit-up'], primaryMuscles: ['Core'], secondaryMuscles: [], equipment: 'Bodyweight', pattern: 'Core' },
+  { id: 'hanging-leg-raise', name: 'Hanging Leg Raise', aliases: ['Leg Raise'], primaryMuscles: ['Core'], secondaryMuscles: ['Forearms'], equipment: 'Bodyweight', pattern: 'Core' },
+  { id: 'russian-twist', name: 'Russian Twist', primaryMuscles: ['Core'], secondaryMuscles: [], equipment: 'Bodyweight', pattern: 'Core' },
+  { id: 'farmers-walk', name: "Farmer's Walk", aliases: ['Farmers Carry', 'Farmer Carry'], primaryMuscles: ['Forearms', 'Traps'], secondaryMuscles: ['Core'], equipment: 'Dumbbell', pattern: 'Carry' },
+
+  // Conditioning
+  { id: 'burpee', name: 'Burpee', aliases: ['Burpees'], primaryMuscles: ['Full Body'], secondaryMuscles: ['Cardio'], equipment: 'Bodyweight', pattern: 'Cardio' },
+  { id: 'jumping-jack', name: 'Jumping Jack', aliases: ['Jumping Jacks', 'Star Jump'], primaryMuscles: ['Cardio'], secondaryMuscles: ['Calves'], equipment: 'Bodyweight', pattern: 'Cardio' },
+  { id: 'mountain-climber', name: 'Mountain Climber', aliases: ['Mountain Climbers'], primaryMuscles: ['Core', 'Cardio'], secondaryMuscles: ['Shoulders'], equipment: 'Bodyweight', pattern: 'Cardio' },
+  { id: 'running', name: 'Running', aliases: ['Run', 'Treadmill', 'Jog'], primaryMuscles: ['Cardio'], secondaryMuscles: ['Quads', 'Calves'], equipment: 'Cardio Machine', pattern: 'Cardio' },
+  { id: 'cycling', name: 'Cycling', aliases: ['Bike', 'Stationary Bike', 'Spin'], primaryMuscles: ['Cardio'], secondaryMuscles: ['Quads'], equipment: 'Cardio Machine', pattern: 'Cardio' },
+  { id: 'rowing-machine', name: 'Rowing Machine', aliases: ['Rower', 'Erg'], primaryMuscles: ['Cardio', 'Back'], secondaryMuscles: ['Quads', 'Biceps'], equipment: 'Cardio Machine', pattern: 'Cardio' },
+  { id: 'jump-rope', name: 'Jump Rope', aliases: ['Skipping'], primaryMuscles: ['Cardio'], secondaryMuscles: ['Calves'], equipment: 'Other', pattern: 'Cardio' },
+];
+
+export const MUSCLE_GROUPS: MuscleGroup[] = [
+  'Chest', 'Back', 'Lats', 'Traps', 'Shoulders', 'Biceps', 'Triceps', 'Forearms',
+  'Quads', 'Hamstrings', 'Glutes', 'Calves', 'Core', 'Full Body', 'Cardio',
+];
+
+export const EQUIPMENT: Equipment[] = ['Barbell', 'Dumbbell', 'Kettlebell', 'Machine', 'Cable', 'Bodyweight', 'Band', 'Cardio Machine', 'Other'];
+
+export const MOVEMENT_PATTERNS: MovementPattern[] = [
+  'Horizontal Push', 'Vertical Push', 'Horizontal Pull', 'Vertical Pull',
+  'Squat', 'Hinge', 'Lunge', 'Carry', 'Core', 'Isolation', 'Cardio',
+];
+
+// "Bench press", "bench-press" and "Bench Presses" all reduce to the same key
+export const normalizeExerciseName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/(?<!s)s$/, '');
+
+const namesOf = (entry: CatalogExercise) => [entry.name, ...(entry.aliases || [])];
+
+export const getFullCatalog = (customExercises: CatalogExercise[] = []): CatalogExercise[] =>
+  [...EXERCISE_CATALOG, ...customExercises];
+
+export const getCatalogExercise = (id: string | undefined, catalog: CatalogExercise[]): CatalogExercise | undefined =>
+  id ? catalog.find(e => e.id === id) : undefined;
+
+// Exact match on the canonical name or any alias, ignoring case, spacing and plurals
+export const findCatalogMatch = (name: string, catalog: CatalogExercise[]): CatalogExercise | undefined => {
+  const key = normalizeExerciseName(name);
+  if (!key) return undefined;
+  return catalog.find(entry => namesOf(entry).some(n => normalizeExerciseName(n) === key));
+};
+
+// Ranked autocomplete: prefix matches first, then substring matches on names, aliases and muscles
+export const searchCatalog = (query: string, catalog: CatalogExercise[], limit = 6): CatalogExercise[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const score = (entry: CatalogExercise): number => {
+    const names = namesOf(entry).map(n => n.toLowerCase());
+    if (names.some(n => n === q)) return 0;
+    if (names.some(n => n.startsWith(q))) return 1;
+    if (names.some(n => n.split(/\s+/).some(word => word.startsWith(q)))) return 2;
+    if (names.some(n => n.includes(q))) return 3;
+    if (entry.primaryMuscles.some(m => m.toLowerCase().startsWith(q))) return 4;
+    return -1;
+  };
+
+  return catalog
+    .map(entry => ({ entry, rank: score(entry) }))
+    .filter(r => r.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(r => r.entry);
+};
+
+export const createCustomExercise = (
+  name: string,
+  primaryMuscle: MuscleGroup,
+  equipment: Equipment,
+  pattern: MovementPattern
+): CatalogExercise => ({
+  id: `custom-${Date.now().toString()}`,
+  name: name.trim(),
+  primaryMuscles: [primaryMuscle],
+  secondaryMuscles: [],
+  equipment,
+  pattern,
+  custom: true,
+});
@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The food store lives in IndexedDB, so each test starts from an empty database
+// and a fresh module with no cached connection
+let foods: typeof import('./foodService');
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  foods = await import('./foodService');
+});
+
+describe('fromOpenFoodFacts', () => {
+  it('maps nutrients to the units the app stores', () => {
+    const food = foods.fromOpenFoodFacts({
+      code: '3017620422003',
+      product_name: 'Hazelnut spread',
+      brands: 'Nutella, Ferrero',
+      serving_quantity: '15',
+      nutriments: { 'energy-kcal_100g': 539, proteins_100g: 6.3, carbohydrates_100g: 57.5, fat_100g: 30.9, salt_100g: 0.1 },
+    });
+    expect(food).toMatchObject({
+      id: 'off-3017620422003',
+      name: 'Hazelnut spread',
+      brand: 'Nutella',
+      servingGrams: 15,
+      per100g: { calories: 539, protein: 6.3, carbs: 57.5, fat: 30.9 },
+    });
+    expect(food?.per100g.sodium).toBe(40);
+  });
+
+  it('falls back to kilojoules and skips products without energy', () => {
+    expect(foods.fromOpenFoodFacts({ product_name: 'Oats', energy_100g: '1548' })?.per100g.calories).toBe(370);
+    expect(foods.fromOpenFoodFacts({ product_name: 'Water' })).toBeNull();
+    expect(foods.fromOpenFoodFacts({ nutriments: { 'energy-kcal_100g': 100 } })).toBeNull();
+  });
+});
+
+describe('importFoodFile', () => {
+  it('reads a tab-separated export, including quoted fields that span lines', async () => {
+    const file = new File([
+      'code\tproduct_name\tenergy-kcal_100g\tproteins_100g\r\n',
+      '111\tSkyr\t63\t11\r\n',
+      '222\t"Granola\nwith ""nuts"""\t450\t9\r\n',
+      '333\tNo energy\t\t1\r\n',
+    ], 'products.csv');
+    expect(await foods.importFoodFile(file)).toBe(2);
+    expect((await foods.lookupBarcode('111'))?.name).toBe('Skyr');
+    expect((await foods.lookupBarcode('222'))?.name).toBe('Granola\nwith "nuts"');
+  });
+
+  it('reads JSON Lines split across chunks', async () => {
+    const lines = [
+      JSON.stringify({ code: '111', product_name: 'Skyr', nutriments: { 'energy-kcal_100g': 63 } }),
+      JSON.stringify({ code: '222', product_name: 'Granola', nutriments: { 'energy-kcal_100g': 450 } }),
+    ].join('\n');
+    const middle = Math.floor(lines.length / 2);
+    const file = new File([lines.slice(0, middle), lines.slice(middle)], 'products.jsonl');
+    expect(await foods.importFoodFile(file)).toBe(2);
+    expect((await foods.searchFoods('granola')).map(f => f.name)).toEqual(['Granola']);
+  });
+
+  it('reads a single JSON document such as an API response', async () => {
+    const file = new File([JSON.stringify({
+      products: [{ code: '111', product_name: 'Skyr', nutriments: { 'energy-kcal_100g': 63 } }],
+    }, null, 2)], 'search.json');
+    expect(await foods.importFoodFile(file)).toBe(1);
+  });
+
+  it('keeps the last of several rows for the same product', async () => {
+    const file = new File(['code,product_name,energy-kcal_100g\n111,Skyr,60\n111,Skyr,63\n'], 'products.csv');
+    expect(await foods.importFoodFile(file)).toBe(1);
+    expect((await foods.lookupBarcode('111'))?.per100g.calories).toBe(63);
+  });
+
+  it('rejects a file without usable foods', async () => {
+    const file = new File(['code,product_name\n111,Skyr\n'], 'products.csv');
+    await expect(foods.importFoodFile(file)).rejects.toThrow('No foods');
+  });
+});
@@ -0,0 +1,300 @@
+import { FoodItem, MacroNutrients, MealLog, MealType } from "../types";
+import { getFoodsByBarcode, putFoods, scanFoods } from "./storageService";
+import { defaultMealType } from "./nutritionService";
+import { ExtendedNutrient, roundNutrients, scaleNutrients } from "./nutrientService";
+
+const KJ_PER_KCAL = 4.184;
+const SALT_PER_SODIUM = 2.5;
+
+// Open Food Facts reports every nutrient in grams per 100 g; these convert to
+// the units MacroNutrients stores.
+const OFF_EXTENDED_FIELDS: { key: ExtendedNutrient; field: string; factor: number }[] = [
+  { key: 'fiber', field: 'fiber_100g', factor: 1 },
+  { key: 'sugar', field: 'sugars_100g', factor: 1 },
+  { key: 'saturatedFat', field: 'saturated-fat_100g', factor: 1 },
+  { key: 'sodium', field: 'sodium_100g', factor: 1000 },
+  { key: 'potassium', field: 'potassium_100g', factor: 1000 },
+  { key: 'calcium', field: 'calcium_100g', factor: 1000 },
+  { key: 'iron', field: 'iron_100g', factor: 1000 },
+  { key: 'vitaminD', field: 'vitamin-d_100g', factor: 1e6 },
+];
+
+// Matches gathered before ranking; keeps search fast on large databases
+const SEARCH_SCAN_LIMIT = 200;
+
+// Foods collected from an import before they are written to the store
+const IMPORT_BATCH_SIZE = 5000;
+
+// One product as Open Food Facts publishes it: the API and JSON export nest nutrients
+// under `nutriments`, while CSV rows carry the same column names at the top level.
+// Values arrive as numbers or strings depending on the source, so they stay unknown.
+export interface OpenFoodFactsProduct {
+  code?: unknown;
+  barcode?: unknown;
+  product_name?: unknown;
+  name?: unknown;
+  brands?: unknown;
+  brand?: unknown;
+  serving_quantity?: unknown;
+  serving_size?: unknown;
+  nutriments?: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+  return isFinite(n) && n >= 0 ? n : undefined;
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Maps one Open Food Facts product (API/JSON export shape, or a CSV row with the
+// same column names) to a FoodItem. Products without a name or energy are skipped.
+export const fromOpenFoodFacts = (product: OpenFoodFactsProduct): FoodItem | null => {
+  const nutriments = product.nutriments ?? product;
+  const name = String(product.product_name ?? product.name ?? '').trim();
+  const kj = toNumber(nutriments['energy_100g']) ?? toNumber(nutriments['energy-kj_100g']);
+  const calories = toNumber(nutriments['energy-kcal_100g']) ?? (kj !== undefined ? kj / KJ_PER_KCAL : undefined);
+  if (!name || calories === undefined) return null;
+
+  const barcode = String(product.code ?? product.barcode ?? '').replace(/\D/g, '') || undefined;
+  const brand = String(product.brands ?? product.brand ?? '').split(',')[0].trim() || undefined;
+  const servingGrams = toNumber(product.serving_quantity);
+
+  const per100g: MacroNutrients = {
+    calories,
+    protein: toNumber(nutriments['proteins_100g']) ?? 0,
+    carbs: toNumber(nutriments['carbohydrates_100g']) ?? 0,
+    fat: toNumber(nutriments['fat_100g']) ?? 0,
+  };
+  OFF_EXTENDED_FIELDS.forEach(({ key, field, factor }) => {
+    const value = toNumber(nutriments[field]);
+    if (value !== undefined) per100g[key] = value * factor;
+  });
+  // Many labels only list salt
+  const salt = toNumber(nutriments['salt_100g']);
+  if (per100g.sodium === undefined && salt !== undefined) per100g.sodium = (salt / SALT_PER_SODIUM) * 1000;
+
+  return {
+    id: barcode ? `off-${barcode}` : `food-${normalize(`${brand ?? ''} ${name}`).replace(/ /g, '-')}`,
+    name,
+    brand,
+    barcode,
+    per100g: roundNutrients(per100g),
+    servingGrams: servingGrams && servingGrams > 0 ? servingGrams : undefined,
+    servingLabel: product.serving_size ? String(product.serving_size).trim() : undefined,
+  };
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and embedded newlines
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Calls onLine for each line of the file, decoding it chunk by chunk so a
+// multi-gigabyte dump is never held in memory whole
+const forEachLine = async (file: Blob, onLine: (line: string) => Promise<void>): Promise<void> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) await onLine(line.replace(/\r$/, ''));
+    if (done) break;
+  }
+};
+
+const detectDelimiter = (headerLine: string): string =>
+  // The official Open Food Facts CSV export is tab-separated
+  headerLine.includes('\t') ? '\t' : headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+
+// Turns lines into products one at a time. CSV rows with quoted newlines span several
+// lines, so lines are joined until their quotes balance. JSON Lines (the Open Food Facts
+// JSONL dump) is read line by line; any other JSON is a single document, such as an API
+// response, and is parsed once the file ends.
+const createProductReader = (fileName: string) => {
+  let format: 'csv' | 'jsonl' | 'json' | undefined;
+  let delimiter = ',';
+  let columns: string[] | undefined;
+  let pending = '';
+
+  const readLine = (line: string): OpenFoodFactsProduct[] => {
+    if (!format) {
+      const first = line.trim();
+      if (!first) return [];
+      if (/\.jsonl$/i.test(fileName) || (first.startsWith('{') && isJsonObject(first))) {
+        format = 'jsonl';
+      } else if (/\.json$/i.test(fileName) || /^[[{]/.test(first)) {
+        format = 'json';
+      } else {
+        format = 'csv';
+        delimiter = detectDelimiter(line);
+      }
+    }
+
+    if (format === 'jsonl') return line.trim() ? [JSON.parse(line)] : [];
+    if (format === 'json') {
+      pending += `${line}\n`;
+      return [];
+    }
+
+    pending = pending ? `${pending}\n${line}` : line;
+    return (pending.match(/"/g)?.length ?? 0) % 2 === 0 ? readRow() : [];
+  };
+
+  const readRow = (): OpenFoodFactsProduct[] => {
+    const [cells] = parseDelimited(pending, delimiter);
+    pending = '';
+    if (!cells) return [];
+    if (!columns) {
+      columns = cells.map(h => h.trim());
+      return [];
+    }
+    return [Object.fromEntries(columns.map((column, i) => [column, cells[i]]))];
+  };
+
+  // Whatever is still buffered once the file ends, such as a row with an unclosed quote
+  const finish = (): OpenFoodFactsProduct[] => {
+    if (!pending.trim()) return [];
+    if (format === 'csv') return readRow();
+    const data = JSON.parse(pending);
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data.products)) return data.products;
+    if (data.product) return [data.product];
+    return [data];
+  };
+
+  return { readLine, finish };
+};
+
+const isJsonObject = (text: string): boolean => {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+};
+
+// Saves foods in batches as the file is read. Later duplicates replace earlier ones,
+// matching how the store treats re-imports. Returns the number of foods saved.
+export const importFoodFile = async (file: File): Promise<number> => {
+  const reader = createProductReader(file.name);
+  let batch = new Map<string, FoodItem>();
+  let imported = 0;
+
+  const add = async (products: OpenFoodFactsProduct[]) => {
+    products.forEach(product => {
+      const food = fromOpenFoodFacts(product);
+      if (food) batch.set(food.id, food);
+    });
+    if (batch.size < IMPORT_BATCH_SIZE) return;
+    await flush();
+  };
+  const flush = async () => {
+    if (batch.size === 0) return;
+    await putFoods([...batch.values()]);
+    imported += batch.size;
+    batch = new Map();
+  };
+
+  await forEachLine(file, line => add(reader.readLine(line)));
+  await add(reader.finish());
+  await flush();
+
+  if (imported === 0) {
+    throw new Error("No foods with a name and energy value were found in this file.");
+  }
+  return imported;
+};
+
+// Every query word must appear in the name or brand. Name-prefix matches rank first,
+// then shorter names, so "milk" finds "Milk" before "Milk chocolate with hazelnuts".
+export const searchFoods = async (query: string, limit = 20): Promise<FoodItem[]> => {
+  const terms = normalize(query).split(' ').filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const matches = await scanFoods(food => {
+    const text = normalize(`${food.name} ${food.brand ?? ''}`);
+    return terms.every(term => text.includes(term));
+  }, SEARCH_SCAN_LIMIT);
+
+  const phrase = terms.join(' ');
+  return matches
+    .map(food => ({ food, name: normalize(food.name) }))
+    .sort((a, b) =>
+      Number(b.name.startsWith(phrase)) - Number(a.name.startsWith(phrase)) ||
+      a.name.length - b.name.length)
+    .slice(0, limit)
+    .map(m => m.food);
+};
+
+// UPC-A codes are often stored as EAN-13 with a leading zero, and vice versa
+const barcodeVariants = (code: string): string[] => {
+  const digits = code.replace(/\D/g, '');
+  const variants = [digits];
+  if (digits.length === 12) variants.push(`0${digits}`);
+  if (digits.length === 13 && digits.startsWith('0')) variants.push(digits.slice(1));
+  return variants;
+};
+
+export const lookupBarcode = async (code: string): Promise<FoodItem | null> => {
+  for (const variant of barcodeVariants(code)) {
+    const [food] = await getFoodsByBarcode(variant);
+    if (food) return food;
+  }
+  return null;
+};
+
+export const macrosForPortion = (food: FoodItem, grams: number): MacroNutrients =>
+  scaleNutrients(food.per100g, grams / 100);
+
+export const createMealFromFood = (food: FoodItem, grams: number, mealType: MealType = defaultMealType(Date.now())): MealLog => ({
+  id: Date.now().toString(),
+  name: food.brand ? `${food.name} (${food.brand})` : food.name,
+  timestamp: Date.now(),
+  mealType,
+  macros: macrosForPortion(food, grams),
+  foodId: food.id,
+  grams,
+});
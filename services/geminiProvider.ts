@@ -0,0 +1,98 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { AIProvider, AIStructuredRequest, AIToolCall, JsonSchema } from "./aiProvider";
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+});
+
+export const createGeminiProvider = ({ model, apiKey }: { model: string; apiKey?: string }): AIProvider => {
+  // Created on first use so a missing key only fails the calls that need it
+  let client: GoogleGenAI | null = null;
+  const ai = () => {
+    if (!apiKey) throw new Error("No Gemini API key configured");
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    model,
+
+    generateText: async ({ prompt, system }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: prompt,
+        config: system ? { systemInstruction: system } : undefined,
+      });
+      return response.text || "";
+    },
+
+    generateStructured: async <T>({ prompt, system, schema, image }: AIStructuredRequest): Promise<T> => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: image
+          ? { parts: [{ inlineData: { data: image.data, mimeType: image.mimeType } }, { text: prompt }] }
+          : prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          systemInstruction: system,
+        },
+      });
+      const text = response.text;
+      if (!text) throw new Error("No response from AI");
+      return JSON.parse(text) as T;
+    },
+
+    chat: async ({ system, history, tools, onText, signal }) => {
+      const last = history[history.length - 1];
+      if (!last || last.role !== 'user') return { text: "", toolCalls: [] };
+      const chat = ai().chats.create({
+        model,
+        config: {
+          systemInstruction: system,
+          tools: tools?.length
+            ? [{
+                functionDeclarations: tools.map(tool => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: toGeminiSchema(tool.parameters),
+                })),
+              }]
+            : undefined,
+        },
+        history: history.slice(0, -1).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      });
+      const stream = await chat.sendMessageStream({ message: last.text, config: { abortSignal: signal } });
+      let text = "";
+      const toolCalls: AIToolCall[] = [];
+      for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        (chunk.functionCalls ?? []).forEach(call => {
+          if (call.name) toolCalls.push({ name: call.name, args: call.args ?? {} });
+        });
+        if (chunk.text) {
+          text += chunk.text;
+          onText?.(text);
+        }
+      }
+      return { text, toolCalls };
+    },
+  };
+};
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActivityLevel, UserProfile, WaterLog, WorkoutSession } from '../types';
+import { toDayKey } from './dateService';
+import { calculateWaterGoal, createWaterLog, formatWater, getWaterGoal, waterOnDay } from './hydrationService';
+
+const user: UserProfile = {
+  name: 'Sam', gender: 'Female', age: 30, weight: 70, height: 170, goal: 'Keep Fit',
+  activityLevel: ActivityLevel.LIGHT, weightHistory: [],
+};
+
+const at = (day: number, hour = 12) => new Date(2024, 0, day, hour).getTime();
+
+describe('calculateWaterGoal', () => {
+  it('scales with body weight and adds about a litre per hour of training', () => {
+    expect(calculateWaterGoal(user, 0)).toBe(2450);
+    expect(calculateWaterGoal(user, 60)).toBe(3450);
+  });
+
+  it('rounds to the nearest 50 ml', () => {
+    expect(calculateWaterGoal(user, 20)).toBe(2800);
+  });
+});
+
+describe('getWaterGoal', () => {
+  it('only counts workouts logged that day', () => {
+    const workouts = [
+      { id: 'a', date: new Date(at(10, 7)).toISOString(), durationMinutes: 30 },
+      { id: 'b', date: new Date(at(10, 18)).toISOString(), durationMinutes: 30 },
+      { id: 'c', date: new Date(at(9)).toISOString(), durationMinutes: 90 },
+    ] as WorkoutSession[];
+    expect(getWaterGoal(user, workouts, '2024-01-10')).toBe(3450);
+  });
+});
+
+describe('waterOnDay', () => {
+  it('sums the entries on that local day', () => {
+    const logs: WaterLog[] = [
+      { id: '1', timestamp: at(10, 8), ml: 250 },
+      { id: '2', timestamp: at(10, 23), ml: 500 },
+      { id: '3', timestamp: at(11, 1), ml: 750 },
+    ];
+    expect(waterOnDay(logs, '2024-01-10')).toBe(750);
+  });
+});
+
+describe('createWaterLog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 10, 14, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('logs now for today and keeps the time of day for past days', () => {
+    expect(createWaterLog(250).timestamp).toBe(Date.now());
+    const past = createWaterLog(250, '2024-01-08');
+    expect(toDayKey(past.timestamp)).toBe('2024-01-08');
+    expect(new Date(past.timestamp).getHours()).toBe(14);
+  });
+});
+
+describe('formatWater', () => {
+  it('switches to litres from 1000 ml', () => {
+    expect(formatWater(750)).toBe('750 ml');
+    expect(formatWater(1250)).toBe('1.25 L');
+    expect(formatWater(2000)).toBe('2 L');
+  });
+});
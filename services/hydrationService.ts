@@ -0,0 +1,39 @@
+import { UserProfile, WaterLog, WorkoutSession } from "../types";
+import { filterByDay, moveToDay, todayKey } from "./dateService";
+
+export const QUICK_ADD_ML = [150, 250, 500, 750];
+
+// Baseline fluid need per kg of body weight, plus extra to replace sweat losses
+// during training (roughly 1 L per hour of exercise).
+const ML_PER_KG = 35;
+const ML_PER_WORKOUT_MINUTE = 1000 / 60;
+const GOAL_STEP_ML = 50;
+
+export const calculateWaterGoal = (user: UserProfile, workoutMinutes: number): number => {
+  const ml = user.weight * ML_PER_KG + workoutMinutes * ML_PER_WORKOUT_MINUTE;
+  return Math.round(ml / GOAL_STEP_ML) * GOAL_STEP_ML;
+};
+
+// The goal for a calendar day, including the workouts logged on it
+export const getWaterGoal = (user: UserProfile, workouts: WorkoutSession[], dayKey: string): number => {
+  const minutes = filterByDay(workouts, dayKey, w => w.date).reduce((acc, w) => acc + w.durationMinutes, 0);
+  return calculateWaterGoal(user, minutes);
+};
+
+export const sumWater = (logs: WaterLog[]): number => logs.reduce((acc, log) => acc + log.ml, 0);
+
+export const waterOnDay = (logs: WaterLog[], dayKey: string): number =>
+  sumWater(filterByDay(logs, dayKey, w => w.timestamp));
+
+// Entries for past days keep the current time of day so they sort sensibly
+export const createWaterLog = (ml: number, dayKey: string = todayKey()): WaterLog => {
+  const now = Date.now();
+  return {
+    id: now.toString(),
+    timestamp: dayKey === todayKey() ? now : moveToDay(now, dayKey),
+    ml,
+  };
+};
+
+export const formatWater = (ml: number): string =>
+  ml >= 1000 ? `${parseFloat((ml / 1000).toFixed(2))} L` : `${ml} ml`;
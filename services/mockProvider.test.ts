@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { COACH_TOOLS, createCoachActions } from './coachToolService';
+
+const provider = createMockProvider();
+
+// Runs a chat request to completion with the stream delays fast-forwarded
+const chat = async (text: string, extra: { onText?: (text: string) => void; signal?: AbortSignal } = {}) => {
+  const reply = provider.chat({ system: 'Coach', history: [{ role: 'user', text }], tools: COACH_TOOLS, ...extra });
+  await vi.runAllTimersAsync();
+  return reply;
+};
+
+describe('createMockProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers the same prompt the same way', async () => {
+    const prompt = 'Give me one tip for today';
+    expect(await provider.generateText({ prompt })).toBe(await provider.generateText({ prompt }));
+  });
+
+  it('returns fixtures for known structured tasks and fills others from the schema', async () => {
+    const plan = await provider.generateStructured<{ workoutName: string }>({
+      task: 'workoutPlan', prompt: 'Plan a workout', schema: { type: 'object' },
+    });
+    expect(plan.workoutName).toBe('Full Body Foundation');
+
+    const sample = await provider.generateStructured({
+      task: 'unknownTask',
+      prompt: 'Anything',
+      schema: { type: 'object', properties: { name: { type: 'string' }, count: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } } },
+    });
+    expect(sample).toEqual({ name: 'Sample name', count: 1, tags: ['Sample tags'] });
+  });
+
+  it('streams the reply word by word', async () => {
+    const onText = vi.fn();
+    const { text, toolCalls } = await chat('How am I doing?', { onText });
+    expect(toolCalls).toEqual([]);
+    expect(text).toMatch(/^\(Offline mock\) You said: "How am I doing\?"/);
+    expect(onText).toHaveBeenCalledTimes(text.split(' ').length);
+    expect(onText).toHaveBeenLastCalledWith(text);
+  });
+
+  it('turns recognized phrasings into valid coach tool calls', async () => {
+    const { toolCalls } = await chat('I weigh 81.5 kg, ate oatmeal, 350 kcal and did 3x10 squat at 60kg');
+    expect(toolCalls.map(c => c.name)).toEqual(['log_weight', 'log_meal', 'log_workout']);
+
+    const actions = createCoachActions(toolCalls);
+    expect(actions.map(a => a.type)).toEqual(['logWeight', 'logMeal', 'logWorkout']);
+    expect(actions[2]).toMatchObject({ exercises: [{ name: 'squat', sets: 3, reps: 10, weight: 60 }] });
+  });
+
+  it('offers plan and meal suggestions as cards', async () => {
+    const { toolCalls } = await chat('Can you suggest a workout? And what should I eat after?');
+    expect(createCoachActions(toolCalls).map(a => a.type)).toEqual(['workoutPlan', 'mealSuggestion']);
+  });
+
+  it('only calls tools the request offers', async () => {
+    const reply = provider.chat({ system: 'Coach', history: [{ role: 'user', text: 'I weigh 80 kg' }] });
+    await vi.runAllTimersAsync();
+    expect((await reply).toolCalls).toEqual([]);
+  });
+
+  it('rejects when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const reply = provider.chat({
+      system: 'Coach',
+      history: [{ role: 'user', text: 'How am I doing?' }],
+      signal: controller.signal,
+      onText: () => controller.abort(),
+    });
+    const assertion = expect(reply).rejects.toBeDefined();
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+});
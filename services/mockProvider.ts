@@ -0,0 +1,164 @@
+import { AIProvider, AIToolCall, JsonSchema } from "./aiProvider";
+
+// Deterministic stand-in for a real model: the same request always produces the
+// same response, with no network access.
+
+const FIXTURES: Record<string, unknown> = {
+  foodImage: {
+    name: "Grilled Chicken Bowl",
+    description: "A balanced plate with lean protein, whole grains and vegetables.",
+    items: [
+      { name: "Grilled chicken breast", grams: 150, calories: 248, protein: 46.5, carbs: 0, fat: 5.4, sodium: 110 },
+      { name: "Brown rice", grams: 150, calories: 168, protein: 3.9, carbs: 34.5, fat: 1.4, fiber: 2.7 },
+      { name: "Steamed broccoli", grams: 80, calories: 28, protein: 1.9, carbs: 5.6, fat: 0.3, fiber: 2.6 },
+    ],
+  },
+  workoutPlan: {
+    workoutName: "Full Body Foundation",
+    strategy: "A balanced session that trains every major muscle group without overloading any one of them.",
+    exercises: [
+      { name: "Squat", sets: 3, reps: 10, weightSuggestion: 40 },
+      { name: "Bench Press", sets: 3, reps: 10, weightSuggestion: 30 },
+      { name: "Barbell Row", sets: 3, reps: 10, weightSuggestion: 30 },
+      { name: "Plank", sets: 3, reps: 30, weightSuggestion: 0 },
+    ],
+  },
+  programTemplate: {
+    name: "Strength Foundations",
+    strategy: "Three full-body sessions a week on the main lifts, adding load each week and backing off every fourth.",
+    days: [
+      {
+        name: "Full Body A",
+        exercises: [
+          { name: "Squat", sets: 3, reps: 5, weightSuggestion: 60 },
+          { name: "Bench Press", sets: 3, reps: 5, weightSuggestion: 45 },
+          { name: "Barbell Row", sets: 3, reps: 8, weightSuggestion: 40 },
+        ],
+      },
+      {
+        name: "Full Body B",
+        exercises: [
+          { name: "Deadlift", sets: 3, reps: 5, weightSuggestion: 80 },
+          { name: "Overhead Press", sets: 3, reps: 5, weightSuggestion: 30 },
+          { name: "Pull-up", sets: 3, reps: 6, weightSuggestion: 0 },
+        ],
+      },
+      {
+        name: "Full Body C",
+        exercises: [
+          { name: "Front Squat", sets: 3, reps: 6, weightSuggestion: 45 },
+          { name: "Incline Bench Press", sets: 3, reps: 8, weightSuggestion: 35 },
+          { name: "Romanian Deadlift", sets: 3, reps: 8, weightSuggestion: 50 },
+        ],
+      },
+    ],
+  },
+};
+
+const TIPS = [
+  "Hit your protein target first; the rest of the day's meals get easier to plan.",
+  "A 10-minute walk after your biggest meal is an easy win for recovery and digestion.",
+  "Consistency beats intensity: log today, even if it wasn't perfect.",
+  "Keep a water bottle in sight; most people under-drink on training days.",
+];
+
+// Stable string hash, so varied prompts pick varied but repeatable responses
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const STREAM_DELAY_MS = 30;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Fills a schema with placeholder values for tasks without a fixture
+const sampleFromSchema = (schema: JsonSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, s]) => [k, sampleFromSchema(s, k)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, key)] : [];
+    case 'string':
+      return `Sample ${key}`;
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+  }
+};
+
+// Recognizes a few fixed phrasings so the coach's tools can be exercised offline,
+// e.g. "I weigh 80 kg", "ate oatmeal, 350 kcal", "did 3x10 squat at 60kg", "start a workout",
+// "suggest a workout", "what should I eat"
+const mockToolCalls = (text: string, available: Set<string>): AIToolCall[] => {
+  const calls: AIToolCall[] = [];
+  const weight = text.match(/weigh(?:ed)?(?: in at)?\s+(\d+(?:\.\d+)?)\s*kg/i);
+  if (weight) calls.push({ name: 'log_weight', args: { weightKg: parseFloat(weight[1]) } });
+  const meal = text.match(/(?:ate|had)\s+([^,.\d]+?)[,\s]+(\d+)\s*kcal/i);
+  if (meal) calls.push({ name: 'log_meal', args: { name: meal[1].trim(), calories: parseInt(meal[2], 10) } });
+  const sets = [...text.matchAll(/(\d+)\s*x\s*(\d+)\s+([a-z][a-z -]*?)(?:\s+(?:at|@)\s*(\d+(?:\.\d+)?)\s*kg)?(?=[,.]|\s+and\b|$)/gi)];
+  if (sets.length > 0) {
+    calls.push({
+      name: 'log_workout',
+      args: {
+        name: "Logged Workout",
+        durationMinutes: sets.length * 10,
+        exercises: sets.map(m => ({ name: m[3].trim(), sets: +m[1], reps: +m[2], weightKg: m[4] ? +m[4] : 0 })),
+      },
+    });
+  }
+  if (/\b(start|generate)\b.*\bworkout\b/i.test(text)) calls.push({ name: 'start_generated_workout', args: {} });
+  if (/\b(suggest|recommend)\b.*\bworkout\b/i.test(text)) {
+    const plan = FIXTURES.workoutPlan as { workoutName: string; strategy: string; exercises: { name: string; sets: number; reps: number; weightSuggestion: number }[] };
+    calls.push({
+      name: 'suggest_workout_plan',
+      args: { ...plan, exercises: plan.exercises.map(({ weightSuggestion, ...ex }) => ({ ...ex, weightKg: weightSuggestion })) },
+    });
+  }
+  if (/\bwhat (should|can) i eat\b|\bmeal idea\b/i.test(text)) {
+    calls.push({
+      name: 'suggest_meal',
+      args: { name: "Greek Yogurt Bowl", description: "250 g Greek yogurt, 40 g oats and a handful of berries.", calories: 420, protein: 32, carbs: 48, fat: 10, mealType: 'breakfast' },
+    });
+  }
+  return calls.filter(call => available.has(call.name));
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  name: 'Offline mock',
+  model: 'mock',
+
+  generateText: async ({ prompt }) => TIPS[hash(prompt) % TIPS.length],
+
+  generateStructured: async <T>({ task, schema }: { task: string; schema: JsonSchema }): Promise<T> =>
+    structuredClone(FIXTURES[task] ?? sampleFromSchema(schema)) as T,
+
+  // Streams word by word so the UI behaves as it does with a real model
+  chat: async ({ history, tools, onText, signal }) => {
+    const last = history[history.length - 1]?.text ?? '';
+    const toolCalls = mockToolCalls(last, new Set((tools ?? []).map(t => t.name)));
+    const reply = toolCalls.length > 0
+      ? "(Offline mock) Here's what I can record for you. Approve it below."
+      : `(Offline mock) You said: "${last.slice(0, 120)}". ${TIPS[hash(last) % TIPS.length]}`;
+    const words = reply.split(' ');
+    for (let i = 1; i <= words.length; i++) {
+      await wait(STREAM_DELAY_MS, signal);
+      onText?.(words.slice(0, i).join(' '));
+    }
+    return { text: reply, toolCalls };
+  },
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, MealLog, UserProfile } from '../types';
+import { addNutrients, getReferenceIntakes, nutrientCoverage, roundNutrients, scaleNutrients } from './nutrientService';
+
+const user = (gender: UserProfile['gender'], age: number): UserProfile => ({
+  name: 'Sam', gender, age, weight: 70, height: 170, goal: 'Keep Fit', activityLevel: ActivityLevel.LIGHT, weightHistory: [],
+});
+
+describe('addNutrients', () => {
+  it('only reports extended nutrients that either side measured', () => {
+    const sum = addNutrients(
+      { calories: 200, protein: 10, carbs: 20, fat: 5, fiber: 3 },
+      { calories: 100, protein: 5, carbs: 10, fat: 2, sodium: 400 },
+    );
+    expect(sum).toEqual({ calories: 300, protein: 15, carbs: 30, fat: 7, fiber: 3, sodium: 400 });
+    expect(sum).not.toHaveProperty('sugar');
+  });
+});
+
+describe('scaleNutrients', () => {
+  it('scales and rounds each nutrient to its display precision', () => {
+    expect(scaleNutrients({ calories: 155, protein: 13, carbs: 1.1, fat: 11, sodium: 124, iron: 1.75 }, 0.5)).toEqual({
+      calories: 78, protein: 6.5, carbs: 0.6, fat: 5.5, sodium: 62, iron: 0.9,
+    });
+  });
+
+  it('leaves missing nutrients missing', () => {
+    expect(roundNutrients({ calories: 10.4, protein: 1.04, carbs: 0, fat: 0 })).toEqual({ calories: 10, protein: 1, carbs: 0, fat: 0 });
+  });
+});
+
+describe('getReferenceIntakes', () => {
+  it('uses the band for age and sex, with limits tied to the calorie goal', () => {
+    expect(getReferenceIntakes(user('Female', 30), 2000)).toEqual({
+      fiber: 25, sugar: 50, saturatedFat: 22, sodium: 2300, potassium: 2600, calcium: 1000, iron: 18, vitaminD: 15,
+    });
+    expect(getReferenceIntakes(user('Male', 75), 2400)).toMatchObject({ fiber: 30, iron: 8, calcium: 1200, vitaminD: 20 });
+  });
+
+  it('takes the midpoint of both bands for other genders', () => {
+    expect(getReferenceIntakes(user('Other', 30), 2000)).toMatchObject({ fiber: 32, iron: 13, potassium: 3000 });
+  });
+});
+
+describe('nutrientCoverage', () => {
+  it('counts the meals that reported each nutrient', () => {
+    const meals = [
+      { macros: { calories: 1, protein: 0, carbs: 0, fat: 0, fiber: 2 } },
+      { macros: { calories: 1, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 5 } },
+      { macros: { calories: 1, protein: 0, carbs: 0, fat: 0 } },
+    ] as MealLog[];
+    expect(nutrientCoverage(meals)).toMatchObject({ fiber: 2, sodium: 1, iron: 0 });
+  });
+});
@@ -0,0 +1,134 @@
+import { MacroNutrients, MealLog, UserProfile } from "../types";
+
+export type CoreNutrient = 'calories' | 'protein' | 'carbs' | 'fat';
+export type ExtendedNutrient = Exclude<keyof MacroNutrients, CoreNutrient>;
+
+interface NutrientInfo {
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  // Limits should stay under the reference value; minimums should reach it
+  kind: 'limit' | 'minimum';
+  decimals: number;
+}
+
+export const EXTENDED_NUTRIENTS: Record<ExtendedNutrient, NutrientInfo> = {
+  fiber: { label: 'Fiber', unit: 'g', kind: 'minimum', decimals: 1 },
+  sugar: { label: 'Sugar', unit: 'g', kind: 'limit', decimals: 1 },
+  saturatedFat: { label: 'Saturated Fat', unit: 'g', kind: 'limit', decimals: 1 },
+  sodium: { label: 'Sodium', unit: 'mg', kind: 'limit', decimals: 0 },
+  potassium: { label: 'Potassium', unit: 'mg', kind: 'minimum', decimals: 0 },
+  calcium: { label: 'Calcium', unit: 'mg', kind: 'minimum', decimals: 0 },
+  iron: { label: 'Iron', unit: 'mg', kind: 'minimum', decimals: 1 },
+  vitaminD: { label: 'Vitamin D', unit: 'µg', kind: 'minimum', decimals: 1 },
+};
+
+export const EXTENDED_NUTRIENT_KEYS = Object.keys(EXTENDED_NUTRIENTS) as ExtendedNutrient[];
+
+const CORE_DECIMALS: Record<CoreNutrient, number> = { calories: 0, protein: 1, carbs: 1, fat: 1 };
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Extended nutrients stay undefined unless at least one side reported them,
+// so "not measured" is never shown as zero.
+export const addNutrients = (a: MacroNutrients, b: MacroNutrients): MacroNutrients => {
+  const sum: MacroNutrients = {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+  };
+  EXTENDED_NUTRIENT_KEYS.forEach(key => {
+    if (a[key] !== undefined || b[key] !== undefined) sum[key] = (a[key] ?? 0) + (b[key] ?? 0);
+  });
+  return sum;
+};
+
+export const roundNutrients = (n: MacroNutrients): MacroNutrients => {
+  const rounded: MacroNutrients = {
+    calories: roundTo(n.calories, CORE_DECIMALS.calories),
+    protein: roundTo(n.protein, CORE_DECIMALS.protein),
+    carbs: roundTo(n.carbs, CORE_DECIMALS.carbs),
+    fat: roundTo(n.fat, CORE_DECIMALS.fat),
+  };
+  EXTENDED_NUTRIENT_KEYS.forEach(key => {
+    const value = n[key];
+    if (value !== undefined) rounded[key] = roundTo(value, EXTENDED_NUTRIENTS[key].decimals);
+  });
+  return rounded;
+};
+
+export const scaleNutrients = (n: MacroNutrients, factor: number): MacroNutrients => {
+  const scaled: MacroNutrients = {
+    calories: n.calories * factor,
+    protein: n.protein * factor,
+    carbs: n.carbs * factor,
+    fat: n.fat * factor,
+  };
+  EXTENDED_NUTRIENT_KEYS.forEach(key => {
+    const value = n[key];
+    if (value !== undefined) scaled[key] = value * factor;
+  });
+  return roundNutrients(scaled);
+};
+
+export type ReferenceIntakes = Record<ExtendedNutrient, number>;
+
+interface IntakeBand {
+  fiber: number;
+  iron: number;
+  calcium: number;
+  potassium: number;
+  vitaminD: number;
+}
+
+// Dietary Reference Intakes (US National Academies): AI for fiber and potassium,
+// RDA for iron, calcium and vitamin D.
+const intakeBand = (age: number, male: boolean): IntakeBand => {
+  if (age < 19) {
+    return male
+      ? { fiber: 38, iron: 11, calcium: 1300, potassium: 3000, vitaminD: 15 }
+      : { fiber: 26, iron: 15, calcium: 1300, potassium: 2300, vitaminD: 15 };
+  }
+  if (age <= 50) {
+    return male
+      ? { fiber: 38, iron: 8, calcium: 1000, potassium: 3400, vitaminD: 15 }
+      : { fiber: 25, iron: 18, calcium: 1000, potassium: 2600, vitaminD: 15 };
+  }
+  return {
+    fiber: male ? 30 : 21,
+    iron: 8,
+    calcium: male && age <= 70 ? 1000 : 1200,
+    potassium: male ? 3400 : 2600,
+    vitaminD: age > 70 ? 20 : 15,
+  };
+};
+
+// Sodium follows the chronic-disease risk reduction intake; sugar and saturated fat
+// are capped at 10% of the day's calories, per WHO and the Dietary Guidelines.
+export const getReferenceIntakes = (user: UserProfile, calorieGoal: number): ReferenceIntakes => {
+  const male = intakeBand(user.age, true);
+  const female = intakeBand(user.age, false);
+  // Profiles that aren't male or female get the midpoint of both bands
+  const pick = (key: keyof IntakeBand) =>
+    user.gender === 'Male' ? male[key] : user.gender === 'Female' ? female[key] : Math.round((male[key] + female[key]) / 2);
+
+  return {
+    fiber: pick('fiber'),
+    sugar: Math.round((calorieGoal * 0.1) / 4),
+    saturatedFat: Math.round((calorieGoal * 0.1) / 9),
+    sodium: 2300,
+    potassium: pick('potassium'),
+    calcium: pick('calcium'),
+    iron: pick('iron'),
+    vitaminD: pick('vitaminD'),
+  };
+};
+
+// How many of the meals reported each nutrient, so partial totals can be flagged
+export const nutrientCoverage = (meals: MealLog[]): Record<ExtendedNutrient, number> =>
+  Object.fromEntries(
+    EXTENDED_NUTRIENT_KEYS.map(key => [key, meals.filter(m => m.macros[key] !== undefined).length])
+  ) as Record<ExtendedNutrient, number>;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, MacroNutrients, MealItem, MealLog, MealType, UserProfile } from '../types';
+import { toDayKey } from './dateService';
+import {
+  calculateMacroTargets, copyMealTo, defaultMealType, getMacroTargets, groupMealsByType, moveMealTo, scaleMealItem, sumMealItems,
+} from './nutritionService';
+
+const item = (id: string, grams: number, calories: number, protein: number, carbs: number, fat: number): MealItem => ({
+  id, name: id, grams, macros: { calories, protein, carbs, fat },
+});
+
+describe('sumMealItems', () => {
+  it('adds up the items, rounding grams to one decimal', () => {
+    const total = sumMealItems([item('rice', 150, 195.4, 4.05, 42.3, 0.45), item('chicken', 120, 198, 37.2, 0, 4.33)]);
+    expect(total).toEqual({ calories: 393, protein: 41.3, carbs: 42.3, fat: 4.8 });
+  });
+
+  it('is zero for an empty meal', () => {
+    expect(sumMealItems([])).toEqual({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+  });
+});
+
+describe('scaleMealItem', () => {
+  const rice = item('rice', 150, 195, 4.1, 42.3, 0.5);
+
+  it('scales macros with the portion', () => {
+    expect(scaleMealItem(rice, 300)).toEqual({ ...rice, grams: 300, macros: { calories: 390, protein: 8.2, carbs: 84.6, fat: 1 } });
+    expect(scaleMealItem(rice, 50).macros).toEqual({ calories: 65, protein: 1.4, carbs: 14.1, fat: 0.2 });
+  });
+
+  it('leaves the item alone for an empty portion', () => {
+    expect(scaleMealItem(rice, 0)).toBe(rice);
+    expect(scaleMealItem({ ...rice, grams: 0 }, 100).grams).toBe(0);
+  });
+});
+
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 0, day, hour, minute).getTime();
+
+const meal = (id: string, mealType: MealType, timestamp: number, calories = 400): MealLog => ({
+  id, name: id, mealType, timestamp, macros: { calories, protein: 20, carbs: 40, fat: 10 },
+});
+
+describe('defaultMealType', () => {
+  it('guesses from the time of day, never a workout meal', () => {
+    expect([6, 12, 16, 19, 23].map(hour => defaultMealType(at(10, hour)))).toEqual(['breakfast', 'lunch', 'snack', 'dinner', 'snack']);
+  });
+});
+
+describe('groupMealsByType', () => {
+  it('lists every meal type in diary order with its meals in time order', () => {
+    const groups = groupMealsByType([meal('late lunch', 'lunch', at(10, 14)), meal('oats', 'breakfast', at(10, 7)), meal('early lunch', 'lunch', at(10, 12))]);
+    expect(groups.map(g => g.type)).toEqual(['breakfast', 'preWorkout', 'lunch', 'postWorkout', 'dinner', 'snack']);
+    expect(groups[2].meals.map(m => m.id)).toEqual(['early lunch', 'late lunch']);
+    expect(groups[2].totals.calories).toBe(800);
+    expect(groups[1]).toMatchObject({ meals: [], totals: { calories: 0 } });
+  });
+});
+
+describe('copyMealTo and moveMealTo', () => {
+  const oats = meal('oats', 'breakfast', at(9, 7, 30));
+
+  it('copies to another day at the same time under a new id', () => {
+    const copy = copyMealTo(oats, '2024-01-10', 'snack');
+    expect(copy.id).not.toBe(oats.id);
+    expect(copy).toMatchObject({ name: 'oats', mealType: 'snack', timestamp: at(10, 7, 30), macros: oats.macros });
+  });
+
+  it('moves the same entry', () => {
+    const moved = moveMealTo(oats, '2024-01-11', 'postWorkout');
+    expect(moved).toEqual({ ...oats, mealType: 'postWorkout', timestamp: at(11, 7, 30) });
+    expect(toDayKey(moved.timestamp)).toBe('2024-01-11');
+  });
+});
+
+const user = (macroOverrides?: Partial<MacroNutrients>): UserProfile => ({
+  name: 'Sam',
+  gender: 'Male',
+  age: 30,
+  weight: 80,
+  height: 180,
+  goal: 'Keep Fit',
+  activityLevel: ActivityLevel.MODERATE,
+  weightHistory: [],
+  macroOverrides,
+});
+
+const macroCalories = ({ protein, carbs, fat }: MacroNutrients) => protein * 4 + carbs * 4 + fat * 9;
+
+describe('getMacroTargets', () => {
+  it('uses the calculated targets without overrides', () => {
+    expect(getMacroTargets(user())).toEqual(calculateMacroTargets(user()));
+  });
+
+  it('rebalances carbs when protein or fat are overridden', () => {
+    const targets = getMacroTargets(user({ calories: 2500, protein: 200, fat: 60 }));
+    expect(targets).toMatchObject({ calories: 2500, protein: 200, fat: 60 });
+    expect(Math.abs(macroCalories(targets) - 2500)).toBeLessThanOrEqual(2);
+  });
+
+  it('keeps overridden carbs as they are', () => {
+    expect(getMacroTargets(user({ protein: 200, carbs: 150 })).carbs).toBe(150);
+  });
+
+  it('never goes below zero carbs', () => {
+    expect(getMacroTargets(user({ calories: 1200, protein: 250, fat: 80 })).carbs).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { ActivityLevel, MacroNutrients, MealItem, MealLog, MealType, UserProfile } from "../types";
+import { moveToDay } from "./dateService";
+import { CoreNutrient, addNutrients, roundNutrients, scaleNutrients } from "./nutrientService";
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+export const MACRO_KEYS: CoreNutrient[] = ['calories', 'protein', 'carbs', 'fat'];
+
+export const MACRO_LABELS: Record<CoreNutrient, string> = {
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+};
+
+// Diary order
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  preWorkout: 'Pre-workout',
+  lunch: 'Lunch',
+  postWorkout: 'Post-workout',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+export const MEAL_TYPES = Object.keys(MEAL_TYPE_LABELS) as MealType[];
+
+// Workout meals are never guessed from the clock; the user picks those explicitly
+export const defaultMealType = (timestamp: number): MealType => {
+  const hour = new Date(timestamp).getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+export const groupMealsByType = (meals: MealLog[]): { type: MealType; meals: MealLog[]; totals: MacroNutrients }[] =>
+  MEAL_TYPES.map(type => {
+    const group = meals.filter(m => m.mealType === type).sort((a, b) => a.timestamp - b.timestamp);
+    return { type, meals: group, totals: sumMacros(group) };
+  });
+
+// A copy keeps the time of day and gets a fresh id so both entries can be edited independently
+export const copyMealTo = (meal: MealLog, dayKey: string, mealType: MealType): MealLog => ({
+  ...meal,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: moveToDay(meal.timestamp, dayKey),
+  mealType,
+});
+
+export const moveMealTo = (meal: MealLog, dayKey: string, mealType: MealType): MealLog => ({
+  ...meal,
+  timestamp: moveToDay(meal.timestamp, dayKey),
+  mealType,
+});
+
+const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  [ActivityLevel.SEDENTARY]: 1.2,
+  [ActivityLevel.LIGHT]: 1.375,
+  [ActivityLevel.MODERATE]: 1.55,
+  [ActivityLevel.VERY]: 1.725,
+};
+
+// Protein in g/kg body weight. Higher in a deficit to protect lean mass.
+const PROTEIN_PER_KG: Record<string, number> = {
+  'Lose Weight': 2.2,
+  'Build Muscle': 2.0,
+  'Improve Stamina': 1.6,
+  'Keep Fit': 1.6,
+};
+
+// Share of calories from fat, never below the g/kg floor
+const FAT_SHARE = 0.25;
+const MIN_FAT_PER_KG = 0.6;
+
+// BMR Calculation (Mifflin-St Jeor)
+// Men: 10W + 6.25H - 5A + 5
+// Women: 10W + 6.25H - 5A - 161
+export const calculateTdee = (user: UserProfile): number => {
+  let bmr = (10 * user.weight) + (6.25 * user.height) - (5 * user.age);
+  bmr += user.gender === 'Male' ? 5 : -161;
+  return bmr * ACTIVITY_MULTIPLIERS[user.activityLevel];
+};
+
+export const calculateCalorieGoal = (user: UserProfile): number => {
+  let goal = calculateTdee(user);
+  if (user.goal === 'Lose Weight') goal -= 500;
+  if (user.goal === 'Build Muscle') goal += 300;
+  return Math.round(goal);
+};
+
+// Targets derived from the profile alone, ignoring overrides. Fat and carbs fill
+// whatever calories remain, so an overridden calorie goal still splits sensibly.
+export const calculateMacroTargets = (user: UserProfile, calories = calculateCalorieGoal(user)): MacroNutrients => {
+  let proteinPerKg = PROTEIN_PER_KG[user.goal] ?? 1.6;
+  if (user.activityLevel === ActivityLevel.VERY) proteinPerKg += 0.2;
+  const protein = Math.round(user.weight * proteinPerKg);
+  const fat = Math.round(Math.max(user.weight * MIN_FAT_PER_KG, (calories * FAT_SHARE) / KCAL_PER_GRAM.fat));
+  const carbs = Math.max(0, Math.round((calories - protein * KCAL_PER_GRAM.protein - fat * KCAL_PER_GRAM.fat) / KCAL_PER_GRAM.carbs));
+  return { calories, protein, carbs, fat };
+};
+
+// The targets actually in effect: calculated values with the user's overrides applied.
+// Carbs absorb overridden protein or fat so the macros still add up to the calorie
+// target, unless carbs are overridden as well.
+export const getMacroTargets = (user: UserProfile): MacroNutrients => {
+  const overrides = user.macroOverrides || {};
+  const targets = { ...calculateMacroTargets(user, overrides.calories ?? calculateCalorieGoal(user)), ...overrides };
+  if (overrides.carbs === undefined) {
+    const remaining = targets.calories - targets.protein * KCAL_PER_GRAM.protein - targets.fat * KCAL_PER_GRAM.fat;
+    targets.carbs = Math.max(0, Math.round(remaining / KCAL_PER_GRAM.carbs));
+  }
+  return targets;
+};
+
+const EMPTY_MACROS: MacroNutrients = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+export const sumMacros = (meals: MealLog[]): MacroNutrients =>
+  meals.reduce((acc, m) => addNutrients(acc, m.macros), EMPTY_MACROS);
+
+export const sumMealItems = (items: MealItem[]): MacroNutrients =>
+  roundNutrients(items.reduce((acc, item) => addNutrients(acc, item.macros), EMPTY_MACROS));
+
+// Nutrients scale linearly with portion size, keeping the item's estimated density
+export const scaleMealItem = (item: MealItem, grams: number): MealItem => {
+  if (item.grams <= 0 || grams <= 0) return item;
+  return { ...item, grams, macros: scaleNutrients(item.macros, grams / item.grams) };
+};
+
+// Negative values mean the target has been exceeded
+export const remainingMacros = (targets: MacroNutrients, consumed: MacroNutrients): MacroNutrients => ({
+  calories: Math.round(targets.calories - consumed.calories),
+  protein: Math.round(targets.protein - consumed.protein),
+  carbs: Math.round(targets.carbs - consumed.carbs),
+  fat: Math.round(targets.fat - consumed.fat),
+});
+
+// Percent of each daily target a single meal covers
+export const mealShareOfTargets = (macros: MacroNutrients, targets: MacroNutrients): MacroNutrients => ({
+  calories: targets.calories > 0 ? Math.round((macros.calories / targets.calories) * 100) : 0,
+  protein: targets.protein > 0 ? Math.round((macros.protein / targets.protein) * 100) : 0,
+  carbs: targets.carbs > 0 ? Math.round((macros.carbs / targets.carbs) * 100) : 0,
+  fat: targets.fat > 0 ? Math.round((macros.fat / targets.fat) * 100) : 0,
+});
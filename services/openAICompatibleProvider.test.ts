@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const streamResponse = (lines: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      lines.forEach(line => controller.enqueue(encoder.encode(`${line}\n`)));
+      controller.close();
+    },
+  }));
+};
+
+const chunk = (delta: Record<string, unknown>) => `data: ${JSON.stringify({ choices: [{ delta }] })}`;
+
+const provider = createOpenAICompatibleProvider({ model: 'test', baseUrl: 'http://localhost:11434/v1/' });
+
+describe('openAICompatibleProvider chat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('streams text and assembles tool call fragments', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(streamResponse([
+      chunk({ content: 'Logged ' }),
+      chunk({ content: 'it.' }),
+      chunk({ tool_calls: [{ index: 0, function: { name: 'log_weight', arguments: '{"weight' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: 'Kg": 80}' } }] }),
+      'data: [DONE]',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const onText = vi.fn();
+
+    const result = await provider.chat({ system: 'Coach', history: [{ role: 'user', text: 'I weigh 80kg' }], onText });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(result).toEqual({ text: 'Logged it.', toolCalls: [{ name: 'log_weight', args: { weightKg: 80 } }] });
+    expect(onText).toHaveBeenLastCalledWith('Logged it.');
+  });
+
+  it('skips malformed lines instead of failing the reply', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      chunk({ content: 'Keep ' }),
+      'data: {"choices": [',
+      chunk({ content: 'going!' }),
+    ])));
+
+    const result = await provider.chat({ system: 'Coach', history: [{ role: 'user', text: 'Hi' }] });
+
+    expect(result.text).toBe('Keep going!');
+  });
+
+  it('fails rather than re-requesting when the response has no body', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(provider.chat({ system: 'Coach', history: [{ role: 'user', text: 'Hi' }] })).rejects.toThrow('empty response');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores fields of an unexpected type', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+      chunk({ content: 42 }),
+      chunk({ content: 'Done.', tool_calls: [null, { index: 1, function: { name: { not: 'a string' }, arguments: '{}' } }] }),
+    ])));
+
+    const result = await provider.chat({ system: 'Coach', history: [{ role: 'user', text: 'Hi' }] });
+
+    expect(result.text).toBe('Done.');
+    expect(result.toolCalls).toEqual([]);
+  });
+});
+
+describe('openAICompatibleProvider generateText', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the message content, or nothing when the server sends none', async () => {
+    const reply = (body: unknown) => vi.fn().mockResolvedValue(new Response(JSON.stringify(body)));
+
+    vi.stubGlobal('fetch', reply({ choices: [{ message: { content: 'Drink water.' } }] }));
+    expect(await provider.generateText({ prompt: 'Tip?' })).toBe('Drink water.');
+
+    vi.stubGlobal('fetch', reply({ choices: [{ message: { content: null } }] }));
+    expect(await provider.generateText({ prompt: 'Tip?' })).toBe('');
+  });
+});
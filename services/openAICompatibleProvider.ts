@@ -0,0 +1,169 @@
+import { AIChatResult, AIProvider, AIStructuredRequest, AIToolDeclaration, parseJsonResponse } from "./aiProvider";
+
+// Works with any server exposing the OpenAI chat completions API, e.g. Ollama
+// (http://localhost:11434/v1) or llama.cpp's server (http://localhost:8080/v1).
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: MessageContent;
+}
+
+// Response bodies as the server sends them. Servers differ in what they include,
+// so every field is optional and values are checked before use.
+interface CompletionResponse {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+interface ToolCallFragment {
+  index?: unknown;
+  function?: { name?: unknown; arguments?: unknown };
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: unknown; tool_calls?: (ToolCallFragment | null)[] } }[];
+}
+
+// One chunk of a streamed reply. Fragments of a tool call share the call's index.
+interface StreamDelta {
+  content: string;
+  toolCalls: { index?: number; name: string; args: string }[];
+}
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Reads one "data:" payload; returns null for lines that aren't valid JSON so one bad
+// line doesn't cost the whole reply
+const parseDelta = (payload: string): StreamDelta | null => {
+  let data: CompletionChunk | null;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    console.warn("Skipping malformed line in AI response stream");
+    return null;
+  }
+  const delta = data?.choices?.[0]?.delta;
+  const fragments = Array.isArray(delta?.tool_calls) ? delta.tool_calls : [];
+  return {
+    content: str(delta?.content),
+    toolCalls: fragments.map(call => ({
+      index: typeof call?.index === 'number' ? call.index : undefined,
+      name: str(call?.function?.name),
+      args: str(call?.function?.arguments),
+    })),
+  };
+};
+
+export const createOpenAICompatibleProvider = (
+  { model, baseUrl, apiKey }: { model: string; baseUrl: string; apiKey?: string }
+): AIProvider => {
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`AI server responded with ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const complete = async (messages: CompletionMessage[], extra: Record<string, unknown> = {}): Promise<string> => {
+    const data: CompletionResponse | null = await (await post({ messages, ...extra })).json();
+    return str(data?.choices?.[0]?.message?.content);
+  };
+
+  // Reads the server-sent event stream: one "data: {json}" line per delta, ending with "data: [DONE]".
+  // Tool call arguments arrive as JSON fragments, keyed by the call's index.
+  const stream = async (
+    messages: CompletionMessage[],
+    tools: AIToolDeclaration[] | undefined,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIChatResult> => {
+    const response = await post({
+      messages,
+      stream: true,
+      tools: tools?.length
+        ? tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }))
+        : undefined,
+    }, signal);
+    if (!response.body) throw new Error("AI server returned an empty response");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const calls: { name: string; args: string }[] = [];
+    let buffer = "";
+    let text = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+        const delta = parseDelta(payload);
+        if (!delta) continue;
+        if (delta.content) {
+          text += delta.content;
+          onText?.(text);
+        }
+        delta.toolCalls.forEach(call => {
+          const index = call.index ?? calls.length;
+          calls[index] ??= { name: '', args: '' };
+          calls[index].name += call.name;
+          calls[index].args += call.args;
+        });
+      }
+    }
+    // A call needs a name to be dispatched; the server may leave gaps in the indices
+    const toolCalls = calls.filter(call => call?.name).flatMap(call => {
+      try {
+        return [{ name: call.name, args: call.args ? JSON.parse(call.args) : {} }];
+      } catch {
+        console.warn(`Ignoring tool call ${call.name} with malformed arguments`);
+        return [];
+      }
+    });
+    return { text, toolCalls };
+  };
+
+  const withSystem = (system: string | undefined, messages: CompletionMessage[]): CompletionMessage[] =>
+    system ? [{ role: 'system', content: system }, ...messages] : messages;
+
+  return {
+    id: 'openai-compatible',
+    name: 'Local (OpenAI-compatible)',
+    model,
+
+    generateText: ({ prompt, system }) => complete(withSystem(system, [{ role: 'user', content: prompt }])),
+
+    generateStructured: async <T>({ prompt, system, schema, image, task }: AIStructuredRequest): Promise<T> => {
+      // Not every server enforces response_format, so the schema is also spelled out in the prompt
+      const instructions = `${prompt}\n\nRespond with only a JSON object matching this JSON Schema:\n${JSON.stringify(schema)}`;
+      const content: MessageContent = image
+        ? [
+            { type: 'text', text: instructions },
+            { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+          ]
+        : instructions;
+      const text = await complete(withSystem(system, [{ role: 'user', content }]), {
+        response_format: { type: 'json_schema', json_schema: { name: task, schema } },
+      });
+      return parseJsonResponse<T>(text);
+    },
+
+    chat: ({ system, history, tools, onText, signal }) =>
+      stream(withSystem(system, history.map(turn => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.text,
+      }))), tools, onText, signal),
+  };
+};
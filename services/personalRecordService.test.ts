@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { WorkoutSession } from '../types';
+import { detectPersonalRecords, estimateOneRepMax, getExerciseBests, recomputePersonalRecords } from './personalRecordService';
+
+const session = (id: string, date: string, weight: number, reps: number, sets = 3): WorkoutSession => ({
+  id,
+  date,
+  name: 'Strength',
+  durationMinutes: 45,
+  caloriesBurned: 250,
+  exercises: [{
+    id: `${id}-bench`,
+    name: 'Bench Press',
+    catalogId: 'bench-press',
+    sets: Array.from({ length: sets }, (_, i) => ({ id: `${id}-${i}`, type: 'working' as const, reps, weight, completed: true })),
+  }],
+});
+
+describe('estimateOneRepMax', () => {
+  it('returns the weight itself for a single', () => {
+    expect(estimateOneRepMax(140, 1)).toBe(140);
+  });
+
+  it('averages Epley and Brzycki up to 10 reps', () => {
+    // Epley 116.67, Brzycki 112.5
+    expect(estimateOneRepMax(100, 5)).toBe(114.6);
+  });
+
+  it('uses Epley alone above 10 reps', () => {
+    expect(estimateOneRepMax(60, 12)).toBe(84);
+  });
+
+  it('is 0 without reps or weight', () => {
+    expect(estimateOneRepMax(0, 5)).toBe(0);
+    expect(estimateOneRepMax(100, 0)).toBe(0);
+  });
+});
+
+describe('detectPersonalRecords', () => {
+  it('only sets a baseline the first time an exercise is logged', () => {
+    expect(detectPersonalRecords(session('a', '2024-01-01T10:00:00Z', 100, 5), [])).toEqual([]);
+  });
+
+  it('reports heavier lifts against earlier sessions', () => {
+    const earlier = session('a', '2024-01-01T10:00:00Z', 100, 5);
+    const records = detectPersonalRecords(session('b', '2024-01-08T10:00:00Z', 105, 5), [earlier]);
+    const types = records.map(r => r.type);
+    expect(types).toContain('heaviestWeight');
+    expect(types).toContain('estimatedOneRepMax');
+    expect(records.find(r => r.type === 'heaviestWeight')).toMatchObject({ value: 105, previousValue: 100, reps: 5 });
+  });
+
+  it('ignores incomplete and warm-up sets', () => {
+    const earlier = session('a', '2024-01-01T10:00:00Z', 100, 5);
+    const next = session('b', '2024-01-08T10:00:00Z', 120, 5);
+    next.exercises[0].sets = next.exercises[0].sets.map((s, i) => i === 0 ? { ...s, type: 'warmup' } : { ...s, completed: false });
+    expect(detectPersonalRecords(next, [earlier])).toEqual([]);
+  });
+});
+
+describe('recomputePersonalRecords', () => {
+  it('re-derives records when an older session is merged into history', () => {
+    const newest = session('c', '2024-01-15T10:00:00Z', 110, 5);
+    newest.personalRecords = detectPersonalRecords(newest, [session('a', '2024-01-01T10:00:00Z', 100, 5)]);
+    const imported = session('b', '2024-01-08T10:00:00Z', 115, 5);
+
+    const workouts = recomputePersonalRecords([newest, session('a', '2024-01-01T10:00:00Z', 100, 5), imported]);
+
+    expect(workouts.map(w => w.id)).toEqual(['c', 'a', 'b']);
+    expect(workouts[0].personalRecords).toEqual([]);
+    expect(workouts[1].personalRecords).toEqual([]);
+    expect(workouts[2].personalRecords?.find(r => r.type === 'heaviestWeight')?.previousValue).toBe(100);
+  });
+});
+
+describe('getExerciseBests', () => {
+  it('summarises each exercise across sessions', () => {
+    const [best] = getExerciseBests([
+      session('a', '2024-01-01T10:00:00Z', 100, 5),
+      session('b', '2024-01-08T10:00:00Z', 90, 10),
+    ]);
+    expect(best).toMatchObject({
+      exerciseKey: 'bench-press',
+      sessions: 2,
+      heaviestWeight: 100,
+      estimatedOneRepMax: 120,
+      lastDate: '2024-01-08T10:00:00Z',
+    });
+  });
+});
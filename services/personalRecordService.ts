@@ -0,0 +1,165 @@
+import { Exercise, ExerciseSet, PersonalRecord, PersonalRecordType, WorkoutSession } from "../types";
+import { countsTowardVolume, exerciseKey, exerciseVolume } from "./workoutService";
+
+// Rep counts above this make 1RM estimates unreliable, so those sets are ignored for e1RM
+const MAX_REPS_FOR_ESTIMATE = 12;
+
+export const PR_LABELS: Record<PersonalRecordType, string> = {
+  heaviestWeight: 'Heaviest Weight',
+  repsAtWeight: 'Most Reps',
+  estimatedOneRepMax: 'Est. 1RM',
+  sessionVolume: 'Session Volume',
+};
+
+export const epley = (weight: number, reps: number) => weight * (1 + reps / 30);
+export const brzycki = (weight: number, reps: number) => weight * 36 / (37 - reps);
+
+// Mean of Epley and Brzycki up to 10 reps, where they agree closely; Epley alone above that
+export const estimateOneRepMax = (weight: number, reps: number): number => {
+  if (reps <= 0 || weight <= 0) return 0;
+  if (reps === 1) return weight;
+  const estimate = reps <= 10 ? (epley(weight, reps) + brzycki(weight, reps)) / 2 : epley(weight, reps);
+  return Math.round(estimate * 10) / 10;
+};
+
+const recordSets = (exercise: Exercise): ExerciseSet[] => exercise.sets.filter(countsTowardVolume);
+
+interface ExerciseBests {
+  heaviestWeight: number;
+  estimatedOneRepMax: number;
+  sessionVolume: number;
+  sets: ExerciseSet[];
+}
+
+const computeBests = (exercises: Exercise[]): ExerciseBests => {
+  const sets = exercises.flatMap(recordSets);
+  return {
+    heaviestWeight: Math.max(0, ...sets.map(s => s.weight)),
+    estimatedOneRepMax: Math.max(0, ...sets.filter(s => s.reps <= MAX_REPS_FOR_ESTIMATE).map(s => estimateOneRepMax(s.weight, s.reps))),
+    sessionVolume: Math.max(0, ...exercises.map(exerciseVolume)),
+    sets,
+  };
+};
+
+// Most reps ever done at this weight or heavier
+const bestRepsAtOrAbove = (sets: ExerciseSet[], weight: number): number =>
+  Math.max(0, ...sets.filter(s => s.weight >= weight).map(s => s.reps));
+
+// Compares a finished session against all earlier sessions. Exercises with no
+// history only establish a baseline; records are reported from the second time on.
+export const detectPersonalRecords = (session: WorkoutSession, previousWorkouts: WorkoutSession[]): PersonalRecord[] => {
+  const records: PersonalRecord[] = [];
+
+  session.exercises.forEach(exercise => {
+    const key = exerciseKey(exercise);
+    const history = previousWorkouts.flatMap(w => w.exercises.filter(ex => exerciseKey(ex) === key));
+    const sets = recordSets(exercise);
+    if (history.length === 0 || sets.length === 0) return;
+
+    const previous = computeBests(history);
+    const current = computeBests([exercise]);
+    const add = (type: PersonalRecordType, value: number, previousValue: number, set?: ExerciseSet) => {
+      records.push({
+        id: `${session.id}-${exercise.id}-${type}`,
+        exerciseKey: key,
+        exerciseName: exercise.name,
+        type,
+        value,
+        previousValue,
+        weight: set?.weight,
+        reps: set?.reps,
+        workoutId: session.id,
+        date: session.date,
+      });
+    };
+
+    if (current.heaviestWeight > previous.heaviestWeight) {
+      add('heaviestWeight', current.heaviestWeight, previous.heaviestWeight, sets.find(s => s.weight === current.heaviestWeight));
+    }
+
+    if (current.estimatedOneRepMax > previous.estimatedOneRepMax) {
+      const best = sets.find(s => s.reps <= MAX_REPS_FOR_ESTIMATE && estimateOneRepMax(s.weight, s.reps) === current.estimatedOneRepMax);
+      add('estimatedOneRepMax', current.estimatedOneRepMax, previous.estimatedOneRepMax, best);
+    }
+
+    // Report only the biggest rep improvement so one session doesn't produce a record per set
+    const repRecord = sets
+      .map(s => ({ set: s, previousReps: bestRepsAtOrAbove(previous.sets, s.weight) }))
+      .filter(r => r.previousReps > 0 && r.set.reps > r.previousReps)
+      .sort((a, b) => (b.set.reps - b.previousReps) - (a.set.reps - a.previousReps) || b.set.weight - a.set.weight)[0];
+    if (repRecord) {
+      add('repsAtWeight', repRecord.set.reps, repRecord.previousReps, repRecord.set);
+    }
+
+    if (current.sessionVolume > previous.sessionVolume && previous.sessionVolume > 0) {
+      add('sessionVolume', current.sessionVolume, previous.sessionVolume);
+    }
+  });
+
+  return records;
+};
+
+// Re-derives every session's records from the sessions dated before it. Used when
+// history changes after the fact (an edited session or a merged import), since
+// records stored at save time only reflect the history known back then.
+export const recomputePersonalRecords = (workouts: WorkoutSession[]): WorkoutSession[] => {
+  const chronological = [...workouts].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const records = new Map(chronological.map((session, index) =>
+    [session.id, detectPersonalRecords(session, chronological.slice(0, index))]
+  ));
+  return workouts.map(w => ({ ...w, personalRecords: records.get(w.id) }));
+};
+
+export interface ExerciseBestSummary {
+  exerciseKey: string;
+  exerciseName: string;
+  sessions: number;
+  heaviestWeight: number;
+  estimatedOneRepMax: number;
+  lastDate: string;
+}
+
+// All-time bests per exercise, most frequently trained first
+export const getExerciseBests = (workouts: WorkoutSession[]): ExerciseBestSummary[] => {
+  const byKey = new Map<string, { name: string; exercises: Exercise[]; lastDate: string }>();
+  workouts.forEach(w => w.exercises.forEach(ex => {
+    const key = exerciseKey(ex);
+    const entry = byKey.get(key);
+    if (!entry) {
+      byKey.set(key, { name: ex.name, exercises: [ex], lastDate: w.date });
+    } else {
+      entry.exercises.push(ex);
+      if (w.date > entry.lastDate) entry.lastDate = w.date;
+    }
+  }));
+  return Array.from(byKey, ([key, { name, exercises, lastDate }]) => {
+    const bests = computeBests(exercises);
+    return {
+      exerciseKey: key,
+      exerciseName: name,
+      sessions: exercises.length,
+      heaviestWeight: bests.heaviestWeight,
+      estimatedOneRepMax: bests.estimatedOneRepMax,
+      lastDate,
+    };
+  }).sort((a, b) => b.sessions - a.sessions || b.lastDate.localeCompare(a.lastDate));
+};
+
+// All records ever set, oldest first
+export const getPersonalRecordHistory = (workouts: WorkoutSession[]): PersonalRecord[] =>
+  workouts
+    .flatMap(w => w.personalRecords || [])
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+export const formatPersonalRecord = (record: PersonalRecord): string => {
+  switch (record.type) {
+    case 'heaviestWeight':
+      return `${record.value}kg${record.reps ? ` x${record.reps}` : ''}`;
+    case 'repsAtWeight':
+      return `${record.value} reps @ ${record.weight ? `${record.weight}kg` : 'BW'}`;
+    case 'estimatedOneRepMax':
+      return `${record.value}kg e1RM`;
+    case 'sessionVolume':
+      return `${record.value.toLocaleString()}kg volume`;
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { WorkoutSession } from '../types';
+import { EXERCISE_CATALOG } from './exerciseCatalog';
+import { ProgramOptions, ProgramTemplate, buildProgram, getProgramAdherence, getSessionStatus, isDeloadWeek } from './programService';
+
+const TEMPLATE: ProgramTemplate = {
+  name: 'Test Split',
+  strategy: 'Test strategy',
+  days: [
+    {
+      name: 'Day A',
+      exercises: [
+        { name: 'Squat', sets: 3, reps: 5, weightSuggestion: 60 },
+        { name: 'Pull-up', sets: 3, reps: 6, weightSuggestion: 0 },
+        { name: 'Leg Curl', sets: 3, reps: 12, weightSuggestion: 0 },
+      ],
+    },
+    {
+      name: 'Day B',
+      exercises: [{ name: 'Bench Press', sets: 3, reps: 8, weightSuggestion: 50 }],
+    },
+  ],
+};
+
+// Unsorted and with a duplicate on purpose; normalises to Mon, Wed and Fri.
+// Starts on Wednesday 3 January 2024, so the first week is cut short.
+const OPTIONS: ProgramOptions = {
+  weeks: 8,
+  trainingDays: [4, 0, 2, 2],
+  experience: 'intermediate',
+  startDate: '2024-01-03',
+  goal: 'Build Muscle',
+};
+
+const program = buildProgram(TEMPLATE, OPTIONS, EXERCISE_CATALOG);
+
+const firstOfWeek = (week: number) => program.sessions.find(s => s.week === week && s.name.startsWith('Day A'))!;
+
+const workout = (date: string, programSessionId?: string): WorkoutSession => ({
+  id: `w-${date}`, date: `${date}T18:00:00`, name: 'Session', exercises: [], durationMinutes: 60, caloriesBurned: 400, programSessionId,
+});
+
+describe('buildProgram', () => {
+  it('schedules sessions on the chosen weekdays from the start date on', () => {
+    expect(program.trainingDays).toEqual([0, 2, 4]);
+    expect(program.sessions.filter(s => s.week === 1).map(s => [s.date, s.name])).toEqual([
+      ['2024-01-03', 'Day A'],
+      ['2024-01-05', 'Day B'],
+    ]);
+    expect(program.sessions.filter(s => s.week === 2).map(s => s.date)).toEqual(['2024-01-08', '2024-01-10', '2024-01-12']);
+    expect(program.sessions).toHaveLength(2 + 7 * 3);
+    expect(program.sessions[program.sessions.length - 1].date).toBe('2024-02-23');
+  });
+
+  it('links exercises to the catalog', () => {
+    expect(firstOfWeek(1).exercises.map(e => e.catalogId)).toEqual(['back-squat', 'pull-up', 'leg-curl']);
+  });
+
+  it('adds load each loading week, rounded to 2.5kg', () => {
+    expect([1, 2, 3, 5].map(week => firstOfWeek(week).exercises[0].weight)).toEqual([60, 62.5, 62.5, 65]);
+  });
+
+  it('progresses bodyweight movements by reps and leaves other unloaded exercises as set', () => {
+    expect([1, 2, 3, 5].map(week => firstOfWeek(week).exercises[1].reps)).toEqual([6, 7, 8, 9]);
+    expect([1, 2, 3, 5].map(week => firstOfWeek(week).exercises[2])).toEqual(
+      Array(4).fill({ name: 'Leg Curl', catalogId: 'leg-curl', sets: 3, reps: 12, weight: 0 })
+    );
+  });
+
+  it('adds a set to the first two exercises in the last loading week of a block', () => {
+    expect(firstOfWeek(3).exercises.map(e => e.sets)).toEqual([4, 4, 3]);
+    expect(firstOfWeek(7).exercises.map(e => e.sets)).toEqual([4, 4, 3]);
+  });
+
+  it('ends each block with a lighter deload week', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 8].filter(week => isDeloadWeek(week, 'intermediate'))).toEqual([4, 8]);
+    const deload = firstOfWeek(4);
+    expect(deload.deload).toBe(true);
+    expect(deload.name).toBe('Day A (Deload)');
+    expect(deload.exercises[0]).toMatchObject({ sets: 2, weight: 57.5 });
+  });
+
+  it('deloads less often for beginners', () => {
+    expect([1, 2, 3, 4, 5, 6].filter(week => isDeloadWeek(week, 'beginner'))).toEqual([6]);
+  });
+});
+
+describe('getProgramAdherence', () => {
+  const [first, second, third, fourth] = program.sessions;
+
+  it('counts sessions started from the program and other workouts on the day', () => {
+    const workouts = [workout(first.date, first.id), workout(second.date)];
+    expect(getSessionStatus(first, workouts, fourth.date)).toBe('completed');
+    expect(getSessionStatus(second, workouts, fourth.date)).toBe('completed');
+    expect(getSessionStatus(third, workouts, fourth.date)).toBe('missed');
+    expect(getSessionStatus(fourth, workouts, fourth.date)).toBe('today');
+
+    expect(getProgramAdherence(program, workouts, fourth.date)).toEqual({
+      due: 3, completed: 2, missed: 1, rate: 67, nextSession: fourth,
+    });
+  });
+
+  it("doesn't credit a session with a workout from another program session", () => {
+    expect(getSessionStatus(second, [workout(second.date, 'other-program-session')], fourth.date)).toBe('missed');
+  });
+
+  it('has no rate before anything is due', () => {
+    expect(getProgramAdherence(program, [], '2024-01-01')).toMatchObject({ due: 0, rate: null, nextSession: first });
+  });
+});
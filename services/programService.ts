@@ -0,0 +1,240 @@
+import { AIWorkoutPlan, ActivityLevel, CatalogExercise, ProgramSession, TrainingExperience, TrainingProgram, WorkoutSession } from "../types";
+import { addDays, dayKeyToDate, toDayKey } from "./dateService";
+import { findCatalogMatch, normalizeExerciseName } from "./exerciseCatalog";
+import { getExerciseBests } from "./personalRecordService";
+
+export const EXPERIENCE_LABELS: Record<TrainingExperience, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const MIN_PROGRAM_WEEKS = 4;
+export const MAX_PROGRAM_WEEKS = 12;
+export const MIN_TRAINING_DAYS = 2;
+export const MAX_TRAINING_DAYS = 6;
+
+// One week of the split as designed by the generator, before periodization
+export interface ProgramTemplate {
+  name: string;
+  strategy: string;
+  days: {
+    name: string;
+    exercises: { name: string; sets: number; reps: number; weightSuggestion: number }[];
+  }[];
+}
+
+export interface ProgramOptions {
+  weeks: number;
+  trainingDays: number[];
+  experience: TrainingExperience;
+  startDate: string;
+  goal: string;
+}
+
+// Loading weeks build on each other and every block ends with a deload week.
+// Newer lifters progress faster and need deloads less often.
+const PROGRESSION: Record<TrainingExperience, { weeklyIncrease: number; blockWeeks: number }> = {
+  beginner: { weeklyIncrease: 0.05, blockWeeks: 6 },
+  intermediate: { weeklyIncrease: 0.025, blockWeeks: 4 },
+  advanced: { weeklyIncrease: 0.015, blockWeeks: 4 },
+};
+
+const DELOAD_SET_FACTOR = 0.6;
+const DELOAD_WEIGHT_FACTOR = 0.9;
+const MAX_SETS = 6;
+const WEIGHT_STEP_KG = 2.5;
+
+const roundToStep = (kg: number) => Math.round(kg / WEIGHT_STEP_KG) * WEIGHT_STEP_KG;
+
+type TemplateDay = ProgramTemplate['days'][number];
+
+// Splits used when the generator is unavailable. Loads start at 0; see withStartingLoads.
+const templateDay = (name: string, exercises: [string, number, number][]): TemplateDay => ({
+  name,
+  exercises: exercises.map(([exercise, sets, reps]) => ({ name: exercise, sets, reps, weightSuggestion: 0 })),
+});
+
+const FULL_BODY_A = templateDay('Full Body A', [['Squat', 3, 8], ['Bench Press', 3, 8], ['Barbell Row', 3, 8], ['Plank', 3, 30]]);
+const FULL_BODY_B = templateDay('Full Body B', [['Deadlift', 3, 5], ['Overhead Press', 3, 8], ['Lat Pulldown', 3, 10], ['Lunge', 3, 10]]);
+const UPPER = templateDay('Upper', [['Bench Press', 4, 6], ['Barbell Row', 4, 8], ['Overhead Press', 3, 8], ['Lat Pulldown', 3, 10], ['Dumbbell Curl', 2, 12]]);
+const LOWER = templateDay('Lower', [['Squat', 4, 6], ['Romanian Deadlift', 3, 8], ['Leg Press', 3, 10], ['Leg Curl', 3, 12], ['Calf Raise', 3, 15]]);
+const PUSH = templateDay('Push', [['Bench Press', 4, 6], ['Overhead Press', 3, 8], ['Incline Bench Press', 3, 10], ['Lateral Raise', 3, 15], ['Tricep Pushdown', 3, 12]]);
+const PULL = templateDay('Pull', [['Deadlift', 3, 5], ['Pull-up', 3, 8], ['Seated Cable Row', 3, 10], ['Face Pull', 3, 15], ['Barbell Curl', 3, 12]]);
+const LEGS = templateDay('Legs', [['Squat', 4, 6], ['Romanian Deadlift', 3, 8], ['Bulgarian Split Squat', 3, 10], ['Leg Extension', 3, 12], ['Calf Raise', 3, 15]]);
+
+const DEFAULT_SPLITS: Record<number, { name: string; days: TemplateDay[] }> = {
+  2: { name: 'Full Body Foundation', days: [FULL_BODY_A, FULL_BODY_B] },
+  3: { name: 'Full Body Foundation', days: [FULL_BODY_A, FULL_BODY_B, FULL_BODY_A] },
+  4: { name: 'Upper/Lower Split', days: [UPPER, LOWER, UPPER, LOWER] },
+  5: { name: 'Upper/Lower + Push/Pull/Legs', days: [UPPER, LOWER, PUSH, PULL, LEGS] },
+  6: { name: 'Push/Pull/Legs', days: [PUSH, PULL, LEGS, PUSH, PULL, LEGS] },
+};
+
+export const defaultTemplate = (dayCount: number): ProgramTemplate => {
+  const split = DEFAULT_SPLITS[Math.min(MAX_TRAINING_DAYS, Math.max(MIN_TRAINING_DAYS, dayCount))];
+  return {
+    name: split.name,
+    strategy: "A proven split for your training days, with steady overload and regular deloads.",
+    days: split.days,
+  };
+};
+
+// Fills unset loads from the lifter's bests: the Epley weight for the planned
+// reps, less a margin so the first week leaves a couple of reps in reserve.
+const STARTING_LOAD_FACTOR = 0.85;
+
+export const withStartingLoads = (template: ProgramTemplate, workouts: WorkoutSession[]): ProgramTemplate => {
+  const bests = getExerciseBests(workouts);
+  return {
+    ...template,
+    days: template.days.map(d => ({
+      ...d,
+      exercises: d.exercises.map(ex => {
+        if (ex.weightSuggestion > 0) return ex;
+        const best = bests.find(b => normalizeExerciseName(b.exerciseName) === normalizeExerciseName(ex.name));
+        if (!best?.estimatedOneRepMax) return ex;
+        return { ...ex, weightSuggestion: roundToStep((best.estimatedOneRepMax / (1 + ex.reps / 30)) * STARTING_LOAD_FACTOR) };
+      }),
+    })),
+  };
+};
+
+// Best guess from the profile; the user can change it before generating
+export const suggestExperience = (activityLevel: ActivityLevel, workoutCount: number): TrainingExperience => {
+  if (workoutCount >= 100 && activityLevel === ActivityLevel.VERY) return 'advanced';
+  if (workoutCount >= 20 || activityLevel === ActivityLevel.VERY || activityLevel === ActivityLevel.MODERATE) return 'intermediate';
+  return 'beginner';
+};
+
+// 0 = Monday
+export const weekdayIndex = (dayKey: string): number => (dayKeyToDate(dayKey).getDay() + 6) % 7;
+
+export const startOfWeek = (dayKey: string): string => addDays(dayKey, -weekdayIndex(dayKey));
+
+export const isDeloadWeek = (week: number, experience: TrainingExperience): boolean =>
+  week % PROGRESSION[experience].blockWeeks === 0;
+
+// Number of loading weeks completed before this one, which sets how far loads have progressed.
+// Deload weeks don't count, so a new block resumes where the previous one peaked.
+const loadingWeeksBefore = (week: number, experience: TrainingExperience): number => {
+  const { blockWeeks } = PROGRESSION[experience];
+  const deloadsBefore = Math.floor((week - 1) / blockWeeks);
+  return week - 1 - deloadsBefore;
+};
+
+// Expands one templated week into dated sessions for the whole program. Each week's
+// training days take the template's sessions in order, cycling if there are fewer
+// of them; a first week cut short by the start date begins with the first session.
+export const buildProgram = (template: ProgramTemplate, options: ProgramOptions, catalog: CatalogExercise[]): TrainingProgram => {
+  const { weeks, experience, startDate, goal } = options;
+  const trainingDays = [...new Set(options.trainingDays)].sort((a, b) => a - b);
+  const { weeklyIncrease, blockWeeks } = PROGRESSION[experience];
+  const firstMonday = startOfWeek(startDate);
+  const id = `program-${Date.now()}`;
+  const sessions: ProgramSession[] = [];
+
+  for (let week = 1; week <= weeks; week++) {
+    const deload = isDeloadWeek(week, experience);
+    // Deloads back off from the previous week's loads rather than progressing
+    const progressed = Math.max(0, loadingWeeksBefore(week, experience) - (deload ? 1 : 0));
+    // The last loading week of each block adds a set to the main lifts for an overreach
+    const peakWeek = !deload && week % blockWeeks === blockWeeks - 1;
+
+    const dates = trainingDays
+      .map(weekday => addDays(firstMonday, (week - 1) * 7 + weekday))
+      .filter(date => date >= startDate);
+    dates.forEach((date, index) => {
+      const day = template.days[index % template.days.length];
+      sessions.push({
+        id: `${id}-${date}`,
+        date,
+        week,
+        name: deload ? `${day.name} (Deload)` : day.name,
+        deload,
+        exercises: day.exercises.map((ex, exIndex) => {
+          const match = findCatalogMatch(ex.name, catalog);
+          const weight = ex.weightSuggestion * (1 + weeklyIncrease * progressed);
+          // Bodyweight movements progress by reps instead of load; other unloaded
+          // exercises have no known starting weight, so they're left for the lifter to set
+          const reps = ex.weightSuggestion === 0 && match?.equipment === 'Bodyweight' ? ex.reps + progressed : ex.reps;
+          const sets = Math.min(MAX_SETS, ex.sets + (peakWeek && exIndex < 2 ? 1 : 0));
+          return {
+            name: match?.name ?? ex.name,
+            catalogId: match?.id,
+            sets: deload ? Math.max(1, Math.round(sets * DELOAD_SET_FACTOR)) : sets,
+            reps,
+            weight: ex.weightSuggestion > 0 ? roundToStep(deload ? weight * DELOAD_WEIGHT_FACTOR : weight) : 0,
+          };
+        }),
+      });
+    });
+  }
+
+  return {
+    id,
+    name: template.name,
+    strategy: template.strategy,
+    goal,
+    experience,
+    weeks,
+    trainingDays,
+    startDate,
+    createdAt: Date.now(),
+    sessions,
+  };
+};
+
+// The program being followed: the newest one that hasn't been ended
+export const getActiveProgram = (programs: TrainingProgram[]): TrainingProgram | null =>
+  [...programs].sort((a, b) => b.createdAt - a.createdAt).find(p => !p.endedAt) ?? null;
+
+export const sessionToPlan = (session: ProgramSession, program: TrainingProgram): AIWorkoutPlan => ({
+  workoutName: session.name,
+  strategy: `${program.name}, week ${session.week} of ${program.weeks}${session.deload ? ': deload week, keep it light' : ''}`,
+  exercises: session.exercises.map(ex => ({
+    name: ex.name,
+    catalogId: ex.catalogId,
+    sets: ex.sets,
+    reps: ex.reps,
+    weightSuggestion: ex.weight,
+  })),
+  programSessionId: session.id,
+});
+
+export type SessionStatus = 'completed' | 'missed' | 'today' | 'upcoming';
+
+// A session counts as done when a workout was started from it, or when any
+// other workout not tied to a program session was logged on its day.
+export const getSessionStatus = (session: ProgramSession, workouts: WorkoutSession[], today: string): SessionStatus => {
+  const done = workouts.some(w =>
+    w.programSessionId === session.id || (!w.programSessionId && toDayKey(w.date) === session.date)
+  );
+  if (done) return 'completed';
+  if (session.date < today) return 'missed';
+  return session.date === today ? 'today' : 'upcoming';
+};
+
+export interface ProgramAdherence {
+  due: number; // Sessions from past days, plus today's once it's done
+  completed: number;
+  missed: number;
+  rate: number | null; // Share of due sessions completed
+  nextSession: ProgramSession | null;
+}
+
+export const getProgramAdherence = (program: TrainingProgram, workouts: WorkoutSession[], today: string): ProgramAdherence => {
+  const statuses = program.sessions.map(session => ({ session, status: getSessionStatus(session, workouts, today) }));
+  const completed = statuses.filter(s => s.status === 'completed' && s.session.date <= today).length;
+  const missed = statuses.filter(s => s.status === 'missed').length;
+  const due = completed + missed;
+  return {
+    due,
+    completed,
+    missed,
+    rate: due > 0 ? Math.round((completed / due) * 100) : null,
+    nextSession: statuses.find(s => s.status === 'today' || s.status === 'upcoming')?.session ?? null,
+  };
+};
@@ -0,0 +1,162 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage, MealLog, UserProfile, WorkoutSession } from '../types';
+import { LEGACY_THREAD_ID } from './chatService';
+import { PersistedState, SCHEMA_VERSION } from './storageService';
+
+// Each test gets an empty database and a fresh module, since the open
+// connection is cached at module level
+let storage: typeof import('./storageService');
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  storage = await import('./storageService');
+});
+
+const PROFILE = { name: 'Sam', weight: 80, weightHistory: [] } as unknown as UserProfile;
+
+const workout = (id: string, date: string) =>
+  ({ id, date, name: 'Session', exercises: [], durationMinutes: 30, caloriesBurned: 200 }) as unknown as WorkoutSession;
+
+const meal = (id: string, timestamp: number) =>
+  ({ id, name: 'Meal', timestamp, macros: { calories: 400, protein: 30, carbs: 40, fat: 10 } }) as unknown as MealLog;
+
+const message = (id: string, timestamp: number) =>
+  ({ id, role: 'user', text: `Message ${id}`, timestamp }) as unknown as ChatMessage;
+
+describe('app state persistence', () => {
+  it('starts out empty', async () => {
+    const state = await storage.loadAppState();
+    expect(state.userProfile).toBeNull();
+    expect(state.workouts).toEqual([]);
+    expect(state.meals).toEqual([]);
+    expect(state.chatMessages).toEqual([]);
+  });
+
+  it('reloads what was saved, in the order the UI expects', async () => {
+    await storage.saveUserProfile(PROFILE);
+    await storage.saveWorkouts([workout('a', '2024-01-01T10:00:00Z'), workout('b', '2024-01-03T10:00:00Z')]);
+    await storage.saveMeals([meal('m1', 1000), meal('m2', 3000), meal('m3', 2000)]);
+    await storage.saveChatMessages([message('c2', 20), message('c1', 10)]);
+
+    const state = await storage.loadAppState();
+
+    expect(state.userProfile).toEqual(PROFILE);
+    // Newest workouts and meals first, chat oldest first
+    expect(state.workouts.map(w => w.id)).toEqual(['b', 'a']);
+    expect(state.meals.map(m => m.id)).toEqual(['m2', 'm3', 'm1']);
+    expect(state.chatMessages.map(c => c.id)).toEqual(['c1', 'c2']);
+  });
+
+  it('replaces a collection rather than adding to it', async () => {
+    await storage.saveWorkouts([workout('a', '2024-01-01T10:00:00Z'), workout('b', '2024-01-02T10:00:00Z')]);
+    await storage.saveWorkouts([workout('b', '2024-01-02T10:00:00Z')]);
+    expect((await storage.loadAppState()).workouts.map(w => w.id)).toEqual(['b']);
+  });
+
+  it('removes the profile when it is cleared', async () => {
+    await storage.saveUserProfile(PROFILE);
+    await storage.saveUserProfile(null);
+    expect((await storage.loadAppState()).userProfile).toBeNull();
+  });
+});
+
+// Records as the first schema version stored them
+const LEGACY_PROFILE = {
+  name: 'Sam',
+  weight: 80,
+  weightHistory: [{ date: '2024-01-01', weight: 81 }, { date: '2024-01-08', weight: 80 }],
+};
+
+const LEGACY_WORKOUT = {
+  id: 'w1',
+  date: '2024-01-02T10:00:00.000Z',
+  name: 'Push',
+  durationMinutes: 45,
+  caloriesBurned: 300,
+  exercises: [{ id: 'e1', name: 'Bench Press', sets: 3, reps: 5, weight: 100, completed: true }],
+};
+
+const LEGACY_MEAL = {
+  id: 'm1',
+  name: 'Oats',
+  timestamp: new Date(2024, 0, 2, 8, 0).getTime(),
+  macros: { calories: 350, protein: 12, carbs: 60, fat: 6 },
+};
+
+const LEGACY_MESSAGE = { id: 'c1', role: 'user', text: 'Hi', timestamp: 1 };
+
+const writeVersionOneDatabase = () =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('fitness-fusion', 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('profile');
+      db.createObjectStore('workouts', { keyPath: 'id' });
+      db.createObjectStore('meals', { keyPath: 'id' });
+      db.createObjectStore('chat', { keyPath: 'id' });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction(['profile', 'workouts', 'meals', 'chat'], 'readwrite');
+      tx.objectStore('profile').put(LEGACY_PROFILE, 'current');
+      tx.objectStore('workouts').put(LEGACY_WORKOUT);
+      tx.objectStore('meals').put(LEGACY_MEAL);
+      tx.objectStore('chat').put(LEGACY_MESSAGE);
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const expectCurrentWorkout = (workout: PersistedState['workouts'][number]) => {
+  expect(workout.caloriesMethod).toBe('legacy');
+  expect(workout.exercises).toHaveLength(1);
+  const [exercise] = workout.exercises;
+  expect(exercise.catalogId).toBeDefined();
+  expect(exercise.sets).toEqual([
+    { id: 'e1-0', type: 'working', reps: 5, weight: 100, completed: true },
+    { id: 'e1-1', type: 'working', reps: 5, weight: 100, completed: true },
+    { id: 'e1-2', type: 'working', reps: 5, weight: 100, completed: true },
+  ]);
+  expect(exercise).not.toHaveProperty('reps');
+  expect(exercise).not.toHaveProperty('weight');
+};
+
+describe('database upgrade', () => {
+  it(`applies every record migration when upgrading a v1 database to v${SCHEMA_VERSION}`, async () => {
+    await writeVersionOneDatabase();
+
+    const state = await storage.loadAppState();
+
+    expect(state.userProfile?.weightHistory.map(e => e.id)).toEqual(['2024-01-01-0', '2024-01-08-1']);
+    expect(state.workouts).toHaveLength(1);
+    expectCurrentWorkout(state.workouts[0]);
+    expect(state.meals[0].mealType).toBe('breakfast');
+    expect(state.chatMessages[0].threadId).toBe(LEGACY_THREAD_ID);
+    expect(state.chatThreads.map(t => t.id)).toEqual([LEGACY_THREAD_ID]);
+    expect(state.programs).toEqual([]);
+  });
+});
+
+describe('upgradeState', () => {
+  it('brings a v1 backup up to the current shape', () => {
+    const state = storage.upgradeState({
+      userProfile: LEGACY_PROFILE,
+      workouts: [LEGACY_WORKOUT],
+      meals: [LEGACY_MEAL],
+      chatMessages: [LEGACY_MESSAGE],
+    } as unknown as PersistedState, 1);
+
+    expectCurrentWorkout(state.workouts[0]);
+    expect(state.meals[0].mealType).toBe('breakfast');
+    expect(state.customExercises).toEqual([]);
+    expect(state.waterLogs).toEqual([]);
+    expect(state.chatThreads.map(t => t.id)).toEqual([LEGACY_THREAD_ID]);
+  });
+});
@@ -0,0 +1,415 @@
+import { CatalogExercise, ChatMessage, ChatThread, FoodItem, MealLog, TrainingProgram, UserProfile, WaterLog, WorkoutSession } from "../types";
+import { EXERCISE_CATALOG, findCatalogMatch } from "./exerciseCatalog";
+import { defaultMealType } from "./nutritionService";
+import { LEGACY_THREAD_ID, withOrphanThreads } from "./chatService";
+
+// Local persistence backed by IndexedDB.
+// SCHEMA_VERSION is the IndexedDB database version. Whenever a persisted type in
+// types.ts changes shape, bump it and append a migration that upgrades existing records.
+const DB_NAME = "fitness-fusion";
+export const SCHEMA_VERSION = 10;
+
+const STORES = {
+  profile: "profile",
+  workouts: "workouts",
+  meals: "meals",
+  chat: "chat",
+  customExercises: "customExercises",
+  foods: "foods",
+  water: "water",
+  chatThreads: "chatThreads",
+  programs: "programs",
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const PROFILE_KEY = "current";
+
+interface Migration {
+  version: number;
+  // Structural changes: create or remove object stores.
+  up?: (db: IDBDatabase) => void;
+  // Per-record upgrades. Also applied to backups exported from older versions.
+  records?: Partial<Record<StoreName, (record: any) => any>>;
+}
+
+// Migrations run in order for every version newer than the one on disk.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: (db) => {
+      db.createObjectStore(STORES.profile);
+      db.createObjectStore(STORES.workouts, { keyPath: "id" });
+      db.createObjectStore(STORES.meals, { keyPath: "id" });
+      db.createObjectStore(STORES.chat, { keyPath: "id" });
+    },
+  },
+  {
+    // WeightEntry gained an id so weigh-ins can be edited and deleted individually
+    version: 2,
+    records: {
+      profile: (profile) => ({
+        ...profile,
+        weightHistory: (profile.weightHistory || []).map((entry: any, index: number) => ({
+          id: `${entry.date}-${index}`,
+          ...entry,
+        })),
+      }),
+    },
+  },
+  {
+    // Exercise moved from a single sets/reps/weight triple to per-set records
+    version: 3,
+    records: {
+      workouts: (workout) => ({
+        ...workout,
+        exercises: workout.exercises.map(({ sets, reps, weight, completed, ...exercise }: any) => ({
+          ...exercise,
+          sets: Array.from({ length: Math.max(1, sets || 0) }, (_, i) => ({
+            id: `${exercise.id}-${i}`,
+            type: 'working',
+            reps: reps || 0,
+            weight: weight || 0,
+            completed: !!completed,
+          })),
+        })),
+      }),
+    },
+  },
+  {
+    // Exercise catalog: user-defined exercises, and logged exercises linked to catalog IDs
+    version: 4,
+    up: (db) => {
+      db.createObjectStore(STORES.customExercises, { keyPath: "id" });
+    },
+    records: {
+      workouts: (workout) => ({
+        ...workout,
+        exercises: workout.exercises.map((exercise: any) => ({
+          ...exercise,
+          catalogId: exercise.catalogId ?? findCatalogMatch(exercise.name, EXERCISE_CATALOG)?.id,
+        })),
+      }),
+    },
+  },
+  {
+    // Calorie estimates record the method that produced them
+    version: 5,
+    records: {
+      workouts: (workout) => ({
+        ...workout,
+        caloriesMethod: workout.caloriesMethod ?? 'legacy',
+      }),
+    },
+  },
+  {
+    // Local food database, looked up by barcode
+    version: 6,
+    up: (db) => {
+      const foods = db.createObjectStore(STORES.foods, { keyPath: "id" });
+      foods.createIndex("barcode", "barcode", { unique: false });
+    },
+  },
+  {
+    // Meals are filed under a meal type, inferred from the time they were logged
+    version: 7,
+    records: {
+      meals: (meal) => ({
+        ...meal,
+        mealType: meal.mealType ?? defaultMealType(meal.timestamp),
+      }),
+    },
+  },
+  {
+    // Hydration log
+    version: 8,
+    up: (db) => {
+      db.createObjectStore(STORES.water, { keyPath: "id" });
+    },
+  },
+  {
+    // Coach conversations are split into named threads; the existing chat becomes the first one
+    version: 9,
+    up: (db) => {
+      db.createObjectStore(STORES.chatThreads, { keyPath: "id" });
+    },
+    records: {
+      chat: (message) => ({
+        ...message,
+        threadId: message.threadId ?? LEGACY_THREAD_ID,
+      }),
+    },
+  },
+  {
+    // Multi-week training programs
+    version: 10,
+    up: (db) => {
+      db.createObjectStore(STORES.programs, { keyPath: "id" });
+    },
+  },
+];
+
+// Rewrites every record in a store inside the upgrade transaction.
+const migrateRecords = (tx: IDBTransaction, storeName: StoreName, transform: (record: any) => any) => {
+  const request = tx.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(transform(cursor.value));
+    cursor.continue();
+  };
+};
+
+// Chains the record upgrades of the given migrations per store, in version order.
+// Each store is then rewritten by a single cursor; separate cursors per migration
+// would each read the original record and overwrite one another's changes.
+const composeRecordMigrations = (migrations: Migration[]) => {
+  const transforms = new Map<StoreName, (record: any) => any>();
+  migrations.forEach(({ records }) => {
+    Object.entries(records ?? {}).forEach(([storeName, transform]) => {
+      const previous = transforms.get(storeName as StoreName);
+      transforms.set(storeName as StoreName, previous ? (record) => transform(previous(record)) : transform);
+    });
+  });
+  return transforms;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        const pending = MIGRATIONS.filter(m => m.version > event.oldVersion);
+        pending.forEach(m => m.up?.(db));
+        composeRecordMigrations(pending).forEach((transform, storeName) =>
+          migrateRecords(tx, storeName, transform)
+        );
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => console.warn("Database upgrade blocked by another open tab");
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, "readonly").objectStore(storeName).getAll());
+};
+
+// Replaces the contents of a collection store in a single transaction.
+const replaceAll = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  store.clear();
+  records.forEach(record => store.put(record));
+  return transactionToPromise(tx);
+};
+
+export interface PersistedState {
+  userProfile: UserProfile | null;
+  workouts: WorkoutSession[];
+  meals: MealLog[];
+  chatMessages: ChatMessage[];
+  chatThreads: ChatThread[];
+  customExercises: CatalogExercise[];
+  waterLogs: WaterLog[];
+  programs: TrainingProgram[];
+}
+
+// Brings a snapshot written at an older schema version (e.g. an imported backup)
+// up to the current shape using the same record migrations as the database.
+export const upgradeState = (state: PersistedState, fromVersion: number): PersistedState => {
+  // Collections introduced after the snapshot was written start out empty
+  const upgraded = {
+    ...state,
+    chatThreads: state.chatThreads ?? [],
+    customExercises: state.customExercises ?? [],
+    waterLogs: state.waterLogs ?? [],
+    programs: state.programs ?? [],
+  };
+  MIGRATIONS
+    .filter(m => m.version > fromVersion && m.records)
+    .forEach(({ records }) => {
+      if (records!.profile && upgraded.userProfile) upgraded.userProfile = records!.profile(upgraded.userProfile);
+      if (records!.workouts) upgraded.workouts = upgraded.workouts.map(records!.workouts);
+      if (records!.meals) upgraded.meals = upgraded.meals.map(records!.meals);
+      if (records!.chat) upgraded.chatMessages = upgraded.chatMessages.map(records!.chat);
+      if (records!.customExercises) upgraded.customExercises = upgraded.customExercises.map(records!.customExercises);
+      if (records!.water) upgraded.waterLogs = upgraded.waterLogs.map(records!.water);
+      if (records!.chatThreads) upgraded.chatThreads = upgraded.chatThreads.map(records!.chatThreads);
+      if (records!.programs) upgraded.programs = upgraded.programs.map(records!.programs);
+    });
+  return { ...upgraded, chatThreads: withOrphanThreads(upgraded.chatThreads, upgraded.chatMessages) };
+};
+
+export const loadAppState = async (): Promise<PersistedState> => {
+  const db = await openDatabase();
+  const profile = await requestToPromise<UserProfile | undefined>(
+    db.transaction(STORES.profile, "readonly").objectStore(STORES.profile).get(PROFILE_KEY)
+  );
+  const [workouts, meals, chatMessages, chatThreads, customExercises, waterLogs, programs] = await Promise.all([
+    getAll<WorkoutSession>(STORES.workouts),
+    getAll<MealLog>(STORES.meals),
+    getAll<ChatMessage>(STORES.chat),
+    getAll<ChatThread>(STORES.chatThreads),
+    getAll<CatalogExercise>(STORES.customExercises),
+    getAll<WaterLog>(STORES.water),
+    getAll<TrainingProgram>(STORES.programs),
+  ]);
+
+  // Object stores return records in key order; restore the order the UI expects.
+  return {
+    userProfile: profile ?? null,
+    workouts: workouts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    meals: meals.sort((a, b) => b.timestamp - a.timestamp),
+    chatMessages: chatMessages.sort((a, b) => a.timestamp - b.timestamp),
+    chatThreads: withOrphanThreads(chatThreads, chatMessages),
+    customExercises,
+    waterLogs: waterLogs.sort((a, b) => b.timestamp - a.timestamp),
+    programs: programs.sort((a, b) => b.createdAt - a.createdAt),
+  };
+};
+
+export const saveUserProfile = async (profile: UserProfile | null): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.profile, "readwrite");
+    if (profile) {
+      tx.objectStore(STORES.profile).put(profile, PROFILE_KEY);
+    } else {
+      tx.objectStore(STORES.profile).delete(PROFILE_KEY);
+    }
+    await transactionToPromise(tx);
+  } catch (error) {
+    console.error("Error saving profile:", error);
+  }
+};
+
+export const saveWorkouts = async (workouts: WorkoutSession[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.workouts, workouts);
+  } catch (error) {
+    console.error("Error saving workouts:", error);
+  }
+};
+
+export const saveMeals = async (meals: MealLog[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.meals, meals);
+  } catch (error) {
+    console.error("Error saving meals:", error);
+  }
+};
+
+export const saveChatMessages = async (messages: ChatMessage[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.chat, messages);
+  } catch (error) {
+    console.error("Error saving chat:", error);
+  }
+};
+
+export const saveChatThreads = async (threads: ChatThread[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.chatThreads, threads);
+  } catch (error) {
+    console.error("Error saving chat threads:", error);
+  }
+};
+
+export const saveCustomExercises = async (exercises: CatalogExercise[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.customExercises, exercises);
+  } catch (error) {
+    console.error("Error saving custom exercises:", error);
+  }
+};
+
+export const saveWaterLogs = async (logs: WaterLog[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.water, logs);
+  } catch (error) {
+    console.error("Error saving water logs:", error);
+  }
+};
+
+export const savePrograms = async (programs: TrainingProgram[]): Promise<void> => {
+  try {
+    await replaceAll(STORES.programs, programs);
+  } catch (error) {
+    console.error("Error saving training programs:", error);
+  }
+};
+
+// The food database is reference data imported from a dump, so it lives outside
+// PersistedState and isn't part of backups. These helpers let callers surface errors.
+const FOOD_BATCH_SIZE = 2000;
+
+export const putFoods = async (foods: FoodItem[]): Promise<void> => {
+  const db = await openDatabase();
+  for (let i = 0; i < foods.length; i += FOOD_BATCH_SIZE) {
+    const tx = db.transaction(STORES.foods, "readwrite");
+    const store = tx.objectStore(STORES.foods);
+    foods.slice(i, i + FOOD_BATCH_SIZE).forEach(food => store.put(food));
+    await transactionToPromise(tx);
+  }
+};
+
+export const clearFoods = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.foods, "readwrite");
+  tx.objectStore(STORES.foods).clear();
+  return transactionToPromise(tx);
+};
+
+export const countFoods = async (): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(STORES.foods, "readonly").objectStore(STORES.foods).count());
+};
+
+export const getFoodsByBarcode = async (barcode: string): Promise<FoodItem[]> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(STORES.foods, "readonly").objectStore(STORES.foods).index("barcode").getAll(barcode)
+  );
+};
+
+// Walks the store with a cursor so large databases are never loaded into memory at once.
+export const scanFoods = async (match: (food: FoodItem) => boolean, limit: number): Promise<FoodItem[]> => {
+  const db = await openDatabase();
+  const request = db.transaction(STORES.foods, "readonly").objectStore(STORES.foods).openCursor();
+  const results: FoodItem[] = [];
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) return resolve(results);
+      if (match(cursor.value)) results.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MealLog, WaterLog, WorkoutSession } from '../types';
+import { buildActivityTrend } from './trendService';
+
+const at = (day: number, hour = 12) => new Date(2024, 0, day, hour).getTime();
+
+const workout = (day: number, caloriesBurned: number, durationMinutes = 45) =>
+  ({
+    id: `w${day}`, date: new Date(at(day)).toISOString(), name: 'Session', durationMinutes, caloriesBurned,
+    exercises: [{ id: 'e', name: 'Squat', sets: [{ id: 's', type: 'working', reps: 5, weight: 100, completed: true }] }],
+  }) as WorkoutSession;
+
+const meal = (day: number, calories: number) =>
+  ({ id: `m${day}-${calories}`, name: 'Meal', timestamp: at(day), macros: { calories, protein: 0, carbs: 0, fat: 0 } }) as MealLog;
+
+describe('buildActivityTrend', () => {
+  const workouts = [workout(8, 300), workout(10, 400)];
+  const meals = [meal(9, 1800), meal(10, 1200), meal(10, 900)];
+
+  it('has one point per day for the 7 day range, ending on the given day', () => {
+    const trend = buildActivityTrend(workouts, meals, [], '7d', '2024-01-10');
+    expect(trend.map(p => p.key)).toEqual(['2024-01-04', '2024-01-05', '2024-01-06', '2024-01-07', '2024-01-08', '2024-01-09', '2024-01-10']);
+    expect(trend[6]).toMatchObject({ label: 'Wed', burned: 400, consumed: 2100, net: 1700, activeMinutes: 45, volume: 500 });
+  });
+
+  it('leaves intake empty on days without meals instead of reading as zero', () => {
+    const trend = buildActivityTrend(workouts, meals, [], '7d', '2024-01-10');
+    expect(trend[4]).toMatchObject({ key: '2024-01-08', burned: 300, consumed: null, net: null });
+    expect(trend[5]).toMatchObject({ consumed: 1800, net: 1800 });
+  });
+
+  it('totals calendar weeks for the 12 week range', () => {
+    const trend = buildActivityTrend(workouts, meals, [], '12w', '2024-01-10');
+    expect(trend).toHaveLength(12);
+    const thisWeek = trend[11];
+    expect(thisWeek).toMatchObject({ key: '2024-01-08', burned: 700, consumed: 3900, activeMinutes: 90 });
+    // Only days with meals count toward the net balance
+    expect(thisWeek.net).toBe(3900 - 400);
+    expect(trend[10]).toMatchObject({ key: '2024-01-01', burned: 0, consumed: null });
+  });
+});
+
+describe('water series', () => {
+  const water = (day: number, ml: number) => ({ id: `h${day}-${ml}`, timestamp: at(day), ml }) as WaterLog;
+
+  it('totals water per day and leaves unlogged days empty', () => {
+    const trend = buildActivityTrend([], [], [water(10, 500), water(10, 250)], '7d', '2024-01-10');
+    expect(trend[6].water).toBe(750);
+    expect(trend[5].water).toBeNull();
+  });
+});
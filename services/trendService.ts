@@ -0,0 +1,131 @@
+import { MealLog, WaterLog, WorkoutSession } from "../types";
+import { addDays, dayKeyToDate, toDayKey } from "./dateService";
+import { sessionVolume } from "./workoutService";
+
+export type TrendRange = '7d' | '30d' | '12w';
+export type TrendSeries = 'burned' | 'consumed' | 'net' | 'activeMinutes' | 'volume' | 'water';
+
+export const TREND_RANGES: { id: TrendRange; label: string }[] = [
+  { id: '7d', label: '7D' },
+  { id: '30d', label: '30D' },
+  { id: '12w', label: '12W' },
+];
+
+export const TREND_SERIES: Record<TrendSeries, { label: string; unit: string; color: string }> = {
+  burned: { label: 'Burned', unit: 'kcal', color: '#84cc16' },
+  consumed: { label: 'Consumed', unit: 'kcal', color: '#f97316' },
+  net: { label: 'Net', unit: 'kcal', color: '#38bdf8' },
+  activeMinutes: { label: 'Active', unit: 'min', color: '#a855f7' },
+  volume: { label: 'Volume', unit: 'kg', color: '#facc15' },
+  water: { label: 'Water', unit: 'ml', color: '#22d3ee' },
+};
+
+// One point per day or per week. Intake-based series are null when nothing
+// was logged, so an unlogged day shows as a gap instead of a zero-calorie day.
+export interface TrendPoint {
+  key: string;
+  label: string;
+  burned: number;
+  consumed: number | null;
+  net: number | null;
+  activeMinutes: number;
+  volume: number;
+  water: number | null;
+}
+
+interface DayTotals {
+  burned: number;
+  consumed: number;
+  activeMinutes: number;
+  volume: number;
+  water: number;
+  hasMeals: boolean;
+  hasWater: boolean;
+}
+
+const emptyTotals = (): DayTotals => ({
+  burned: 0, consumed: 0, activeMinutes: 0, volume: 0, water: 0, hasMeals: false, hasWater: false,
+});
+
+const totalsByDay = (workouts: WorkoutSession[], meals: MealLog[], waterLogs: WaterLog[]): Map<string, DayTotals> => {
+  const days = new Map<string, DayTotals>();
+  const get = (key: string) => {
+    if (!days.has(key)) days.set(key, emptyTotals());
+    return days.get(key)!;
+  };
+
+  workouts.forEach(w => {
+    const day = get(toDayKey(w.date));
+    day.burned += w.caloriesBurned;
+    day.activeMinutes += w.durationMinutes;
+    day.volume += sessionVolume(w);
+  });
+  meals.forEach(m => {
+    const day = get(toDayKey(m.timestamp));
+    day.consumed += m.macros.calories;
+    day.hasMeals = true;
+  });
+  waterLogs.forEach(w => {
+    const day = get(toDayKey(w.timestamp));
+    day.water += w.ml;
+    day.hasWater = true;
+  });
+  return days;
+};
+
+// Net balance only counts days with logged intake, otherwise every unlogged day would read as a deficit
+const toPoint = (key: string, label: string, days: DayTotals[]): TrendPoint => {
+  const sum = (pick: (d: DayTotals) => number, list = days) => list.reduce((acc, d) => acc + pick(d), 0);
+  const logged = days.filter(d => d.hasMeals);
+  const consumed = logged.length > 0 ? sum(d => d.consumed, logged) : null;
+  return {
+    key,
+    label,
+    burned: sum(d => d.burned),
+    consumed,
+    net: consumed === null ? null : consumed - sum(d => d.burned, logged),
+    activeMinutes: sum(d => d.activeMinutes),
+    volume: Math.round(sum(d => d.volume)),
+    water: days.some(d => d.hasWater) ? sum(d => d.water) : null,
+  };
+};
+
+// Monday of the week containing the given day
+const weekStart = (dayKey: string): string => {
+  const offset = (dayKeyToDate(dayKey).getDay() + 6) % 7;
+  return addDays(dayKey, -offset);
+};
+
+const shortDate = (dayKey: string) =>
+  dayKeyToDate(dayKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Builds the series for the window ending on endDay (inclusive). The 12-week
+// range buckets by calendar week and reports weekly totals.
+export const buildActivityTrend = (
+  workouts: WorkoutSession[],
+  meals: MealLog[],
+  waterLogs: WaterLog[],
+  range: TrendRange,
+  endDay: string
+): TrendPoint[] => {
+  const days = totalsByDay(workouts, meals, waterLogs);
+  const dayTotals = (key: string) => days.get(key) ?? emptyTotals();
+
+  if (range === '12w') {
+    const lastWeek = weekStart(endDay);
+    return Array.from({ length: 12 }, (_, i) => {
+      const start = addDays(lastWeek, (i - 11) * 7);
+      const keys = Array.from({ length: 7 }, (_, d) => addDays(start, d)).filter(k => k <= endDay);
+      return toPoint(start, shortDate(start), keys.map(dayTotals));
+    });
+  }
+
+  const length = range === '7d' ? 7 : 30;
+  return Array.from({ length }, (_, i) => {
+    const key = addDays(endDay, i - (length - 1));
+    const label = range === '7d'
+      ? dayKeyToDate(key).toLocaleDateString('en-US', { weekday: 'short' })
+      : shortDate(key);
+    return toPoint(key, label, [dayTotals(key)]);
+  });
+};
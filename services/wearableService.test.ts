@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSimulatedAdapter, parseHeartRateMeasurement } from './wearableService';
+
+const connect = async (adapter: ReturnType<typeof createSimulatedAdapter>) => {
+  const connecting = adapter.connect();
+  await vi.runAllTimersAsync();
+  await connecting;
+};
+
+const collectReadings = (adapter: ReturnType<typeof createSimulatedAdapter>, count: number) => {
+  const readings: number[] = [];
+  const stop = adapter.streamHeartRate(bpm => readings.push(bpm));
+  vi.advanceTimersByTime(count * 1000);
+  stop();
+  return readings;
+};
+
+describe('createSimulatedAdapter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('connects after the configured delay', async () => {
+    const adapter = createSimulatedAdapter({ connectDelayMs: 500 });
+    expect(adapter.isConnected()).toBe(false);
+    expect(adapter.deviceName()).toBeNull();
+
+    const connecting = adapter.connect();
+    vi.advanceTimersByTime(499);
+    expect(adapter.isConnected()).toBe(false);
+    vi.advanceTimersByTime(1);
+    await connecting;
+
+    expect(adapter.isConnected()).toBe(true);
+    expect(adapter.deviceName()).toBe('FusionBand (Simulated)');
+  });
+
+  it('produces the same heart-rate sequence on every run', async () => {
+    const first = createSimulatedAdapter();
+    const second = createSimulatedAdapter();
+    await connect(first);
+    await connect(second);
+
+    const readings = collectReadings(first, 10);
+    expect(readings).toHaveLength(10);
+    expect(collectReadings(second, 10)).toEqual(readings);
+    readings.forEach(bpm => {
+      expect(bpm).toBeGreaterThanOrEqual(72 - 9);
+      expect(bpm).toBeLessThanOrEqual(72 + 9);
+    });
+  });
+
+  it('stops emitting once unsubscribed', async () => {
+    const adapter = createSimulatedAdapter();
+    await connect(adapter);
+    const onReading = vi.fn();
+
+    const stop = adapter.streamHeartRate(onReading);
+    vi.advanceTimersByTime(3000);
+    stop();
+    vi.advanceTimersByTime(3000);
+
+    expect(onReading).toHaveBeenCalledTimes(3);
+  });
+
+  it('streams nothing while disconnected', () => {
+    const adapter = createSimulatedAdapter();
+    const onReading = vi.fn();
+    adapter.streamHeartRate(onReading);
+    vi.advanceTimersByTime(5000);
+    expect(onReading).not.toHaveBeenCalled();
+  });
+
+  it('counts steps up from the initial value on each read', async () => {
+    const adapter = createSimulatedAdapter({ initialSteps: 1000 });
+    expect(await adapter.readSteps()).toBeNull();
+
+    await connect(adapter);
+    expect(await adapter.readSteps()).toBe(1137);
+    expect(await adapter.readSteps()).toBe(1274);
+
+    await adapter.disconnect();
+    expect(adapter.isConnected()).toBe(false);
+    expect(await adapter.readSteps()).toBeNull();
+  });
+});
+
+describe('parseHeartRateMeasurement', () => {
+  it('reads 8-bit values', () => {
+    expect(parseHeartRateMeasurement(new DataView(new Uint8Array([0x00, 85]).buffer))).toBe(85);
+  });
+
+  it('reads little-endian 16-bit values when flag bit 0 is set', () => {
+    expect(parseHeartRateMeasurement(new DataView(new Uint8Array([0x01, 0x2c, 0x01]).buffer))).toBe(300);
+  });
+});
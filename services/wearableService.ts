@@ -0,0 +1,190 @@
+// Wearable device adapters.
+// Dashboard talks to whichever adapter is active through this interface, so new
+// devices only need a new adapter, not UI changes.
+
+export type WearableConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface WearableAdapter {
+  id: string;
+  name: string;
+  isSupported: () => boolean;
+  isConnected: () => boolean;
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  // Calls onReading for every heart-rate notification; returns an unsubscribe function
+  streamHeartRate: (onReading: (bpm: number) => void) => () => void;
+  // Resolves to null when the device doesn't report steps
+  readSteps: () => Promise<number | null>;
+  // Fires when the device drops the connection on its own
+  onDisconnected: (listener: () => void) => () => void;
+  deviceName: () => string | null;
+}
+
+// --- Web Bluetooth Heart Rate Service ---
+
+// Minimal Web Bluetooth typings; the DOM lib doesn't ship them yet.
+interface BluetoothCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications: () => Promise<BluetoothCharacteristic>;
+  stopNotifications: () => Promise<BluetoothCharacteristic>;
+}
+
+interface BluetoothGATTServer {
+  connected: boolean;
+  connect: () => Promise<BluetoothGATTServer>;
+  disconnect: () => void;
+  getPrimaryService: (service: number) => Promise<{ getCharacteristic: (c: number) => Promise<BluetoothCharacteristic> }>;
+}
+
+interface BluetoothDeviceLike extends EventTarget {
+  name?: string;
+  gatt?: BluetoothGATTServer;
+}
+
+interface BluetoothLike {
+  requestDevice: (options: { filters: { services: number[] }[] }) => Promise<BluetoothDeviceLike>;
+}
+
+const HEART_RATE_SERVICE = 0x180d;
+const HEART_RATE_MEASUREMENT = 0x2a37;
+
+const getBluetooth = (): BluetoothLike | undefined =>
+  (navigator as Navigator & { bluetooth?: BluetoothLike }).bluetooth;
+
+// Heart Rate Measurement: bit 0 of the flags byte selects a uint8 or uint16 value
+export const parseHeartRateMeasurement = (value: DataView): number => {
+  const flags = value.getUint8(0);
+  return flags & 0x01 ? value.getUint16(1, true) : value.getUint8(1);
+};
+
+export const createBluetoothHeartRateAdapter = (): WearableAdapter => {
+  let device: BluetoothDeviceLike | null = null;
+  let characteristic: BluetoothCharacteristic | null = null;
+  const disconnectListeners = new Set<() => void>();
+
+  const handleDisconnected = () => {
+    characteristic = null;
+    disconnectListeners.forEach(listener => listener());
+  };
+
+  return {
+    id: 'bluetooth-hr',
+    name: 'Bluetooth Heart Rate',
+    isSupported: () => !!getBluetooth(),
+    isConnected: () => !!device?.gatt?.connected && !!characteristic,
+    deviceName: () => device?.name || null,
+
+    connect: async () => {
+      const bluetooth = getBluetooth();
+      if (!bluetooth) throw new Error("Web Bluetooth is not supported in this browser");
+
+      device = await bluetooth.requestDevice({ filters: [{ services: [HEART_RATE_SERVICE] }] });
+      if (!device.gatt) throw new Error("Device does not support GATT");
+      device.addEventListener('gattserverdisconnected', handleDisconnected);
+
+      const server = await device.gatt.connect();
+      const service = await server.getPrimaryService(HEART_RATE_SERVICE);
+      characteristic = await service.getCharacteristic(HEART_RATE_MEASUREMENT);
+      await characteristic.startNotifications();
+    },
+
+    disconnect: async () => {
+      if (!device) return;
+      device.removeEventListener('gattserverdisconnected', handleDisconnected);
+      try {
+        await characteristic?.stopNotifications();
+      } catch (error) {
+        console.warn("Error stopping heart rate notifications:", error);
+      }
+      device.gatt?.disconnect();
+      characteristic = null;
+      device = null;
+    },
+
+    streamHeartRate: (onReading) => {
+      const target = characteristic;
+      if (!target) return () => {};
+      const handler = () => {
+        if (target.value) onReading(parseHeartRateMeasurement(target.value));
+      };
+      target.addEventListener('characteristicvaluechanged', handler);
+      return () => target.removeEventListener('characteristicvaluechanged', handler);
+    },
+
+    // The Heart Rate Service carries no step data
+    readSteps: async () => null,
+
+    onDisconnected: (listener) => {
+      disconnectListeners.add(listener);
+      return () => disconnectListeners.delete(listener);
+    },
+  };
+};
+
+// --- Simulated device ---
+
+interface SimulatedAdapterOptions {
+  intervalMs?: number;
+  connectDelayMs?: number;
+  restingBpm?: number;
+  initialSteps?: number;
+}
+
+// Deterministic stand-in for development and tests: the same sequence of
+// heart-rate readings and step counts on every run.
+export const createSimulatedAdapter = ({
+  intervalMs = 1000,
+  connectDelayMs = 800,
+  restingBpm = 72,
+  initialSteps = 5432,
+}: SimulatedAdapterOptions = {}): WearableAdapter => {
+  let connected = false;
+  let tick = 0;
+  let stepReads = 0;
+
+  return {
+    id: 'simulated',
+    name: 'FusionBand Simulator',
+    isSupported: () => true,
+    isConnected: () => connected,
+    deviceName: () => connected ? 'FusionBand (Simulated)' : null,
+
+    connect: async () => {
+      await new Promise(resolve => setTimeout(resolve, connectDelayMs));
+      connected = true;
+    },
+
+    disconnect: async () => {
+      connected = false;
+    },
+
+    streamHeartRate: (onReading) => {
+      if (!connected) return () => {};
+      const interval = setInterval(() => {
+        tick++;
+        onReading(Math.round(restingBpm + 6 * Math.sin(tick / 4) + 3 * Math.sin(tick / 1.7)));
+      }, intervalMs);
+      return () => clearInterval(interval);
+    },
+
+    readSteps: async () => {
+      if (!connected) return null;
+      stepReads++;
+      return initialSteps + stepReads * 137;
+    },
+
+    onDisconnected: () => () => {},
+  };
+};
+
+// Adapters are module singletons so a connection survives Dashboard remounts
+export const WEARABLE_ADAPTERS: WearableAdapter[] = [
+  createBluetoothHeartRateAdapter(),
+  createSimulatedAdapter(),
+];
+
+// Prefers an already-connected device, then the first one this browser supports
+export const getDefaultAdapter = (): WearableAdapter =>
+  WEARABLE_ADAPTERS.find(a => a.isConnected())
+  ?? WEARABLE_ADAPTERS.find(a => a.isSupported())
+  ?? WEARABLE_ADAPTERS[WEARABLE_ADAPTERS.length - 1];
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityLevel, UserProfile, WeightEntry } from '../types';
+import { computeWeightTrend, deleteWeightEntry, sortWeightHistory, withWeightHistory } from './weightService';
+
+const entry = (date: string, weight: number, time?: string): WeightEntry => ({ id: `${date}-${time ?? ''}`, date, weight, time });
+
+// One weigh-in per day, changing by `perDay` kg
+const daily = (days: number, start: number, perDay: number): WeightEntry[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return entry(date, Math.round((start + perDay * i) * 10) / 10);
+  });
+
+describe('sortWeightHistory', () => {
+  it('orders by date, then by time within a day', () => {
+    const sorted = sortWeightHistory([
+      entry('2024-01-02', 80),
+      entry('2024-01-01', 81, '20:00'),
+      entry('2024-01-01', 82, '07:00'),
+    ]);
+    expect(sorted.map(e => e.weight)).toEqual([82, 81, 80]);
+  });
+});
+
+describe('computeWeightTrend', () => {
+  it('has no rate or change without data', () => {
+    expect(computeWeightTrend([])).toEqual({ points: [], weeklyRate: null, totalChange: null });
+  });
+
+  it('needs more than a single weigh-in for a rate', () => {
+    const trend = computeWeightTrend([entry('2024-01-01', 80)]);
+    expect(trend.points[0].trend).toBe(80);
+    expect(trend.weeklyRate).toBeNull();
+    expect(trend.totalChange).toBeNull();
+  });
+
+  it('reports a steady loss as a negative weekly rate', () => {
+    const trend = computeWeightTrend(daily(42, 90, -0.1));
+    expect(trend.totalChange).toBe(-4.1);
+    // Smoothing lags the raw data slightly, so the rate approaches -0.7kg/week
+    expect(trend.weeklyRate).toBeLessThan(-0.6);
+    expect(trend.weeklyRate).toBeGreaterThan(-0.75);
+  });
+
+  it('smooths out a single outlier', () => {
+    const entries = daily(14, 80, 0);
+    entries[10] = { ...entries[10], weight: 83 };
+    const outlier = computeWeightTrend(entries).points[10];
+    expect(outlier.weight).toBe(83);
+    expect(outlier.trend).toBeLessThan(80.5);
+  });
+
+  it('pulls harder after a long gap between weigh-ins', () => {
+    const afterDay = computeWeightTrend([entry('2024-01-01', 80), entry('2024-01-02', 78)]).points[1].trend;
+    const afterMonth = computeWeightTrend([entry('2024-01-01', 80), entry('2024-01-31', 78)]).points[1].trend;
+    expect(afterMonth).toBeLessThan(afterDay);
+  });
+});
+
+describe('withWeightHistory', () => {
+  const profile: UserProfile = {
+    name: 'Sam', gender: 'Female', age: 30, weight: 70, height: 170, goal: 'Keep Fit',
+    activityLevel: ActivityLevel.LIGHT, weightHistory: [],
+  };
+
+  it('keeps the profile weight in sync with the latest weigh-in', () => {
+    const updated = withWeightHistory(profile, [entry('2024-01-05', 68), entry('2024-01-01', 69)]);
+    expect(updated.weight).toBe(68);
+    expect(deleteWeightEntry(updated, '2024-01-05-').weight).toBe(69);
+  });
+});
@@ -0,0 +1,91 @@
+import { UserProfile, WeightEntry } from "../types";
+import { todayKey } from "./dateService";
+
+const DAY_MS = 86400000;
+
+// Per-day smoothing factor for the trend line. Weigh-ins taken further apart
+// pull the trend harder, so irregular logging doesn't distort it.
+const TREND_SMOOTHING = 0.1;
+
+// Window used for the weekly rate of change
+const RATE_WINDOW_DAYS = 28;
+
+const entryTime = (e: WeightEntry) => new Date(`${e.date}T${e.time || '00:00'}`).getTime();
+
+// Oldest first, with timed entries ordered within a day
+export const sortWeightHistory = (entries: WeightEntry[]): WeightEntry[] =>
+  [...entries].sort((a, b) => entryTime(a) - entryTime(b));
+
+// Replaces the history and keeps `weight` in sync with the latest weigh-in
+export const withWeightHistory = (profile: UserProfile, entries: WeightEntry[]): UserProfile => {
+  const weightHistory = sortWeightHistory(entries);
+  const latest = weightHistory[weightHistory.length - 1];
+  return {
+    ...profile,
+    weight: latest ? latest.weight : profile.weight,
+    weightHistory,
+  };
+};
+
+export const addWeightEntry = (profile: UserProfile, entry: Omit<WeightEntry, 'id'>): UserProfile =>
+  withWeightHistory(profile, [...(profile.weightHistory || []), { ...entry, id: Date.now().toString() }]);
+
+export const updateWeightEntry = (profile: UserProfile, entry: WeightEntry): UserProfile =>
+  withWeightHistory(profile, (profile.weightHistory || []).map(e => e.id === entry.id ? entry : e));
+
+export const deleteWeightEntry = (profile: UserProfile, id: string): UserProfile =>
+  withWeightHistory(profile, (profile.weightHistory || []).filter(e => e.id !== id));
+
+// Records a weigh-in for today, keeping prior history intact
+export const recordWeight = (profile: UserProfile, weight: number): UserProfile =>
+  addWeightEntry(profile, { date: todayKey(), weight });
+
+export interface WeightTrendPoint {
+  id: string;
+  date: string;
+  label: string;
+  weight: number;
+  trend: number;
+}
+
+export interface WeightTrend {
+  points: WeightTrendPoint[];
+  weeklyRate: number | null; // kg per week, from the smoothed trend
+  totalChange: number | null; // kg since the first weigh-in
+}
+
+export const computeWeightTrend = (entries: WeightEntry[]): WeightTrend => {
+  const sorted = sortWeightHistory(entries);
+  if (sorted.length === 0) return { points: [], weeklyRate: null, totalChange: null };
+
+  let trend = sorted[0].weight;
+  let previousTime = entryTime(sorted[0]);
+  const points: WeightTrendPoint[] = sorted.map(e => {
+    const time = entryTime(e);
+    const elapsedDays = Math.max(0, (time - previousTime) / DAY_MS);
+    const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, Math.max(elapsedDays, 1));
+    trend = trend + alpha * (e.weight - trend);
+    previousTime = time;
+    return {
+      id: e.id,
+      date: e.date,
+      label: new Date(`${e.date}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      weight: e.weight,
+      trend: parseFloat(trend.toFixed(2)),
+    };
+  });
+
+  const last = sorted[sorted.length - 1];
+  const windowStart = entryTime(last) - RATE_WINDOW_DAYS * DAY_MS;
+  const baselineIndex = sorted.findIndex(e => entryTime(e) >= windowStart);
+  const spanDays = (entryTime(last) - entryTime(sorted[baselineIndex])) / DAY_MS;
+  const weeklyRate = spanDays >= 1
+    ? ((points[points.length - 1].trend - points[baselineIndex].trend) / spanDays) * 7
+    : null;
+
+  return {
+    points,
+    weeklyRate: weeklyRate === null ? null : parseFloat(weeklyRate.toFixed(2)),
+    totalChange: sorted.length > 1 ? parseFloat((last.weight - sorted[0].weight).toFixed(1)) : null,
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Exercise, ExerciseSet, WorkoutSession } from '../types';
+import {
+  calculateStreak, createSets, exerciseKey, exerciseVolume, formatSets, getExerciseHistory, isExerciseComplete, sessionVolume,
+} from './workoutService';
+
+const set = (reps: number, weight: number, changes: Partial<ExerciseSet> = {}): ExerciseSet => ({
+  id: `${reps}x${weight}`, type: 'working', reps, weight, completed: true, ...changes,
+});
+
+const exercise = (sets: ExerciseSet[]): Exercise => ({ id: 'e1', name: 'Bench Press', sets });
+
+describe('createSets', () => {
+  it('creates open working sets with their own IDs', () => {
+    const sets = createSets(3, 8, 60);
+    expect(sets).toHaveLength(3);
+    sets.forEach(s => expect(s).toMatchObject({ type: 'working', reps: 8, weight: 60, completed: false }));
+    expect(new Set(sets.map(s => s.id)).size).toBe(3);
+  });
+});
+
+describe('isExerciseComplete', () => {
+  it('needs every set ticked off', () => {
+    expect(isExerciseComplete(exercise([set(5, 100), set(5, 100)]))).toBe(true);
+    expect(isExerciseComplete(exercise([set(5, 100), set(5, 100, { completed: false })]))).toBe(false);
+  });
+
+  it('is never complete without sets', () => {
+    expect(isExerciseComplete(exercise([]))).toBe(false);
+  });
+});
+
+describe('volume', () => {
+  it('counts completed working and drop sets, but not warm-ups', () => {
+    const ex = exercise([
+      set(10, 40, { type: 'warmup' }),
+      set(5, 100),
+      set(5, 100, { completed: false }),
+      set(8, 80, { type: 'drop' }),
+    ]);
+    expect(exerciseVolume(ex)).toBe(500 + 640);
+  });
+
+  it('adds up every exercise in a session', () => {
+    const workout = {
+      id: 'w1', date: '2024-01-01T10:00:00Z', name: 'Push', durationMinutes: 45, caloriesBurned: 300,
+      exercises: [exercise([set(5, 100)]), exercise([set(10, 20), set(10, 20)])],
+    } as WorkoutSession;
+    expect(sessionVolume(workout)).toBe(900);
+  });
+});
+
+describe('formatSets', () => {
+  it('writes bodyweight sets as BW', () => {
+    expect(formatSets([set(5, 100), set(6, 95), set(12, 0)])).toBe('100x5, 95x6, BWx12');
+  });
+});
+
+describe('getExerciseHistory', () => {
+  const session = (id: string, date: string, exercises: Exercise[]) =>
+    ({ id, date, name: 'Session', durationMinutes: 45, caloriesBurned: 300, exercises }) as WorkoutSession;
+
+  it('groups linked exercises by catalog ID and unlinked ones by name, newest first', () => {
+    const linked = { ...exercise([set(5, 100)]), catalogId: 'barbell-bench-press' };
+    const unlinked = { ...exercise([set(10, 20)]), name: 'Landmine Press' };
+    const workouts = [
+      session('a', '2024-01-01T10:00:00Z', [linked, unlinked]),
+      session('b', '2024-01-08T10:00:00Z', [{ ...linked, name: 'Bench' }]),
+    ];
+
+    expect(exerciseKey(unlinked)).toBe(exerciseKey({ ...unlinked, name: 'landmine-press' }));
+    expect(getExerciseHistory(workouts, 'barbell-bench-press').map(e => e.workoutId)).toEqual(['b', 'a']);
+    expect(getExerciseHistory(workouts, exerciseKey(unlinked)).map(e => e.workoutId)).toEqual(['a']);
+  });
+});
+
+describe('calculateStreak', () => {
+  const on = (...days: number[]) =>
+    days.map(day => ({ id: `w${day}`, date: new Date(2024, 0, day, 18).toISOString() }) as WorkoutSession);
+
+  it('counts consecutive days ending today', () => {
+    expect(calculateStreak(on(8, 9, 10, 10), '2024-01-10')).toBe(3);
+  });
+
+  it('keeps the streak alive until today is over', () => {
+    expect(calculateStreak(on(7, 8, 9), '2024-01-10')).toBe(3);
+  });
+
+  it('resets once a whole day is missed', () => {
+    expect(calculateStreak(on(7, 8), '2024-01-10')).toBe(0);
+    expect(calculateStreak(on(5, 6, 8, 9, 10), '2024-01-10')).toBe(3);
+    expect(calculateStreak([], '2024-01-10')).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { Exercise, ExerciseSet, SetType, WorkoutSession } from "../types";
+import { normalizeExerciseName } from "./exerciseCatalog";
+import { addDays, toDayKey, todayKey } from "./dateService";
+
+const newId = () => Date.now().toString() + Math.random().toString(36).slice(2, 8);
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: 'Warm-up',
+  working: 'Working',
+  drop: 'Drop set',
+};
+
+export const createSet = (reps: number, weight: number, type: SetType = 'working'): ExerciseSet => ({
+  id: newId(),
+  type,
+  reps,
+  weight,
+  completed: false,
+});
+
+export const createSets = (count: number, reps: number, weight: number): ExerciseSet[] =>
+  Array.from({ length: count }, () => createSet(reps, weight));
+
+export const isExerciseComplete = (exercise: Exercise): boolean =>
+  exercise.sets.length > 0 && exercise.sets.every(s => s.completed);
+
+// Volume counts completed sets only; warm-ups are excluded
+export const countsTowardVolume = (set: ExerciseSet): boolean =>
+  set.completed && set.type !== 'warmup';
+
+export const exerciseVolume = (exercise: Exercise): number =>
+  exercise.sets.filter(countsTowardVolume).reduce((acc, s) => acc + s.reps * s.weight, 0);
+
+export const sessionVolume = (workout: WorkoutSession): number =>
+  workout.exercises.reduce((acc, ex) => acc + exerciseVolume(ex), 0);
+
+// e.g. "100x5, 100x5, 95x6" or "BWx12, BWx10"
+export const formatSets = (sets: ExerciseSet[]): string =>
+  sets.map(s => `${s.weight > 0 ? s.weight : 'BW'}x${s.reps}`).join(', ');
+
+// Catalog ID when linked, otherwise the normalized name, so unlinked history still groups
+export const exerciseKey = (exercise: Exercise): string =>
+  exercise.catalogId ?? `name:${normalizeExerciseName(exercise.name)}`;
+
+export interface ExerciseHistoryEntry {
+  workoutId: string;
+  date: string;
+  exercise: Exercise;
+}
+
+// Every logged instance of an exercise, newest first
+export const getExerciseHistory = (workouts: WorkoutSession[], key: string): ExerciseHistoryEntry[] =>
+  workouts
+    .flatMap(w => w.exercises
+      .filter(ex => exerciseKey(ex) === key)
+      .map(ex => ({ workoutId: w.id, date: w.date, exercise: ex })))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+// Consecutive days with a workout, ending today or yesterday; 0 once a day is missed
+export const calculateStreak = (workouts: WorkoutSession[], today: string = todayKey()): number => {
+  const dates = [...new Set(workouts.map(w => toDayKey(w.date)))].sort().reverse();
+  if (dates.length === 0 || (dates[0] !== today && dates[0] !== addDays(today, -1))) return 0;
+
+  let streak = 0;
+  while (streak < dates.length && dates[streak] === addDays(dates[0], -streak)) streak++;
+  return streak;
+};
@@ -6,9 +6,14 @@ export enum ActivityLevel {
   VERY = 'Very Active',
 }
 
+export const FITNESS_GOALS = ['Lose Weight', 'Build Muscle', 'Improve Stamina', 'Keep Fit'];
+
 export interface WeightEntry {
-  date: string;
+  id: string;
+  date: string; // YYYY-MM-DD
   weight: number;
+  time?: string; // HH:MM
+  note?: string;
 }
 
 export interface UserProfile {
@@ -20,17 +25,66 @@ export interface UserProfile {
   goal: string;
   activityLevel: ActivityLevel;
   weightHistory: WeightEntry[];
+  macroOverrides?: Partial<MacroNutrients>; // Manual daily targets; unset fields are calculated
 }
 
-export interface Exercise {
+export type SetType = 'warmup' | 'working' | 'drop';
+
+export interface ExerciseSet {
   id: string;
-  name: string;
-  sets: number;
+  type: SetType;
   reps: number;
-  weight: number;
+  weight: number; // kg, 0 for bodyweight
+  rpe?: number; // 1-10
   completed: boolean;
 }
 
+export type MuscleGroup =
+  | 'Chest' | 'Back' | 'Lats' | 'Traps' | 'Shoulders' | 'Biceps' | 'Triceps' | 'Forearms'
+  | 'Quads' | 'Hamstrings' | 'Glutes' | 'Calves' | 'Core' | 'Full Body' | 'Cardio';
+
+export type Equipment = 'Barbell' | 'Dumbbell' | 'Kettlebell' | 'Machine' | 'Cable' | 'Bodyweight' | 'Band' | 'Cardio Machine' | 'Other';
+
+export type MovementPattern =
+  | 'Horizontal Push' | 'Vertical Push' | 'Horizontal Pull' | 'Vertical Pull'
+  | 'Squat' | 'Hinge' | 'Lunge' | 'Carry' | 'Core' | 'Isolation' | 'Cardio';
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  aliases?: string[];
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: Equipment;
+  pattern: MovementPattern;
+  custom?: boolean;
+}
+
+export interface Exercise {
+  id: string;
+  name: string;
+  catalogId?: string; // Links logged exercises across sessions
+  sets: ExerciseSet[];
+}
+
+export type PersonalRecordType = 'heaviestWeight' | 'repsAtWeight' | 'estimatedOneRepMax' | 'sessionVolume';
+
+export interface PersonalRecord {
+  id: string;
+  exerciseKey: string;
+  exerciseName: string;
+  type: PersonalRecordType;
+  value: number; // kg, reps or kg volume depending on type
+  previousValue: number;
+  weight?: number; // Set that produced the record
+  reps?: number;
+  workoutId: string;
+  date: string;
+}
+
+// How caloriesBurned was produced; 'legacy' marks sessions saved before the energy model
+export type CalorieEstimateMethod = 'heartRate' | 'met' | 'legacy';
+
 export interface WorkoutSession {
   id: string;
   date: string;
@@ -38,8 +92,12 @@ export interface WorkoutSession {
   exercises: Exercise[];
   durationMinutes: number;
   caloriesBurned: number;
+  caloriesMethod?: CalorieEstimateMethod;
+  averageHeartRate?: number;
   goal?: string;
   goalAchieved?: boolean;
+  personalRecords?: PersonalRecord[]; // Set when the session is saved
+  programSessionId?: string; // The training program session this workout carried out
 }
 
 export interface MacroNutrients {
@@ -47,21 +105,145 @@ export interface MacroNutrients {
   protein: number;
   carbs: number;
   fat: number;
+  // Extended nutrients. Undefined means the source didn't report it, not zero.
+  fiber?: number; // g
+  sugar?: number; // g
+  saturatedFat?: number; // g
+  sodium?: number; // mg
+  potassium?: number; // mg
+  calcium?: number; // mg
+  iron?: number; // mg
+  vitaminD?: number; // µg
+}
+
+// One food within a meal, with macros for the portion shown
+export interface MealItem {
+  id: string;
+  name: string;
+  grams: number;
+  macros: MacroNutrients;
 }
 
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'preWorkout' | 'postWorkout';
+
 export interface MealLog {
   id: string;
   name: string;
   timestamp: number;
+  mealType: MealType;
   macros: MacroNutrients;
   imageUrl?: string;
+  foodId?: string; // Set when logged from the food database
+  grams?: number;
+  items?: MealItem[]; // Itemized breakdown from photo analysis; macros is their sum
 }
 
+// Entry in the local food database. Nutrition is per 100 g, as on food labels.
+export interface FoodItem {
+  id: string;
+  name: string;
+  brand?: string;
+  barcode?: string;
+  per100g: MacroNutrients;
+  servingGrams?: number;
+  servingLabel?: string; // e.g. "1 bar (40 g)"
+}
+
+export interface WaterLog {
+  id: string;
+  timestamp: number;
+  ml: number;
+}
+
+// A single session designed by Fuse, either on request in the workout logger or suggested in chat
+export interface AIWorkoutPlan {
+  workoutName: string;
+  strategy: string;
+  exercises: {
+    name: string;
+    sets: number;
+    reps: number;
+    weightSuggestion: number; // Use 0 for bodyweight
+    catalogId?: string;
+  }[];
+  programSessionId?: string; // Set when the plan is a scheduled session of a training program
+}
+
+export type TrainingExperience = 'beginner' | 'intermediate' | 'advanced';
+
+export interface ProgramExercise {
+  name: string;
+  catalogId?: string;
+  sets: number;
+  reps: number;
+  weight: number; // kg, 0 for bodyweight
+}
+
+export interface ProgramSession {
+  id: string;
+  date: string; // Day key the session is scheduled for
+  week: number; // 1-based
+  name: string;
+  deload: boolean;
+  exercises: ProgramExercise[];
+}
+
+// A multi-week plan with every session scheduled up front. Adherence is derived
+// from workouts whose programSessionId points at one of its sessions.
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  strategy: string;
+  goal: string;
+  experience: TrainingExperience;
+  weeks: number;
+  trainingDays: number[]; // Weekdays trained, 0 = Monday
+  startDate: string; // Day key; weeks run Monday to Sunday from the week containing it
+  createdAt: number;
+  endedAt?: number; // Set when the user ends the program early or starts another
+  sessions: ProgramSession[];
+}
+
+// Something Fuse offered to record or start for the user, shown as a card under
+// its reply. Nothing is saved until approved.
+export type CoachActionPayload =
+  | {
+      type: 'logWorkout';
+      name: string;
+      durationMinutes: number;
+      exercises: { name: string; sets: number; reps: number; weight: number }[];
+    }
+  | { type: 'logMeal'; name: string; mealType?: MealType; macros: MacroNutrients }
+  | { type: 'logWeight'; weight: number }
+  | { type: 'startWorkout'; focus?: string }
+  | { type: 'workoutPlan'; plan: AIWorkoutPlan }
+  | { type: 'mealSuggestion'; name: string; description?: string; mealType?: MealType; macros: MacroNutrients };
+
+export type CoachActionStatus = 'pending' | 'approved' | 'dismissed';
+
+export type CoachAction = CoachActionPayload & {
+  id: string;
+  status: CoachActionStatus;
+};
+
 export interface ChatMessage {
   id: string;
+  threadId: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  actions?: CoachAction[];
+}
+
+// A named conversation with Fuse. Older messages are folded into `summary`
+// once the thread grows too long to send in full.
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  summary?: string;
+  summarizedThrough?: number; // Timestamp of the last message covered by the summary
 }
 
 export type ViewState = 'dashboard' | 'workout' | 'nutrition' | 'coach' | 'profile';